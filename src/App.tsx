@@ -3,11 +3,24 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { AuthProvider } from "@/hooks/use-session";
+import RequireAuth from "@/components/RequireAuth";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import ResetPassword from "./pages/ResetPassword";
 import Dashboard from "./pages/Dashboard";
 import Upload from "./pages/Upload";
 import Analyze from "./pages/Analyze";
+import Results from "./pages/Results";
+import EditResume from "./pages/EditResume";
+import ResumeDetail from "./pages/ResumeDetail";
+import Resumes from "./pages/Resumes";
+import Analyses from "./pages/Analyses";
+import Jobs from "./pages/Jobs";
+import BatchAnalyze from "./pages/BatchAnalyze";
+import CandidatePools from "./pages/CandidatePools";
+import CandidatePool from "./pages/CandidatePool";
+import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -17,16 +30,31 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/dashboard" element={<Dashboard />} />
-          <Route path="/upload" element={<Upload />} />
-          <Route path="/analyze/:resumeId" element={<Analyze />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <AuthProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/auth/reset" element={<ResetPassword />} />
+            <Route element={<RequireAuth />}>
+              <Route path="/dashboard" element={<Dashboard />} />
+              <Route path="/upload" element={<Upload />} />
+              <Route path="/analyze/:resumeId" element={<Analyze />} />
+              <Route path="/results/:analysisId" element={<Results />} />
+              <Route path="/resumes" element={<Resumes />} />
+              <Route path="/resumes/:id" element={<ResumeDetail />} />
+              <Route path="/resumes/:id/edit" element={<EditResume />} />
+              <Route path="/analyses" element={<Analyses />} />
+              <Route path="/jobs" element={<Jobs />} />
+              <Route path="/batch" element={<BatchAnalyze />} />
+              <Route path="/candidates" element={<CandidatePools />} />
+              <Route path="/candidates/:poolId" element={<CandidatePool />} />
+              <Route path="/settings" element={<Settings />} />
+            </Route>
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileText, FolderOpen, Loader2, Upload as UploadIcon, Users, X } from "lucide-react";
+import { toast } from "sonner";
+import { runQueue, type TaskState } from "@/lib/batchQueue";
+import { validateResumeFile } from "@/lib/extractText";
+import { classifyAnalysisError } from "@/lib/runAnalysis";
+import { createCandidatePool, importCandidate, type CandidatePool } from "@/lib/candidates";
+import type { Job } from "@/lib/jobs";
+import { useSession } from "@/hooks/use-session";
+
+// Parsing is one AI call per file; keep the same pace as batch analysis
+const IMPORT_CONCURRENCY = 2;
+const MAX_FILES = 50;
+const NEW_POOL = "new";
+const NO_JOB = "none";
+
+const IMPORT_STATUS_LABELS: Record<TaskState["status"], string> = {
+  queued: "Queued",
+  running: "Parsing",
+  retrying: "Retrying",
+  done: "Imported",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+// React's input types do not know the non-standard folder picker attribute
+const folderInputProps = { webkitdirectory: "", directory: "" } as Record<string, string>;
+
+const BulkCandidateUpload = () => {
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const [searchParams] = useSearchParams();
+  const [pools, setPools] = useState<CandidatePool[]>([]);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [poolId, setPoolId] = useState(NEW_POOL);
+  const [poolName, setPoolName] = useState("");
+  const [jobId, setJobId] = useState(NO_JOB);
+  const [files, setFiles] = useState<File[]>([]);
+  const [states, setStates] = useState<TaskState[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    fetchPools();
+  }, []);
+
+  const fetchPools = async () => {
+    try {
+      const { data: poolsData, error: poolsError } = await supabase
+        .from("candidate_pools")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (poolsError) throw poolsError;
+
+      const { data: jobsData, error: jobsError } = await supabase
+        .from("jobs")
+        .select("*")
+        .neq("status", "archived")
+        .order("created_at", { ascending: false });
+
+      if (jobsError) throw jobsError;
+
+      setPools(poolsData || []);
+      setJobs(jobsData || []);
+
+      // Preselect the pool passed from its ranking page
+      const requested = poolsData?.find((pool) => pool.id === searchParams.get("pool"));
+      if (requested) setPoolId(requested.id);
+    } catch (error) {
+      console.error("Error fetching candidate pools:", error);
+      toast.error("Failed to load candidate pools");
+    }
+  };
+
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (selected.length === 0) return;
+
+    // Folders often hold cover letters and images too, so skip what cannot be parsed
+    const valid = selected.filter((file) => !validateResumeFile(file));
+    const skipped = selected.length - valid.length;
+    if (skipped > 0) toast.warning(`Skipped ${skipped} file${skipped === 1 ? "" : "s"} that are not PDF, DOCX or JSON Resume under 10MB`);
+
+    const combined = [...files, ...valid.filter((file) => !files.some((f) => f.name === file.name && f.size === file.size))];
+    if (combined.length > MAX_FILES) {
+      toast.error(`You can upload up to ${MAX_FILES} resumes at a time`);
+    }
+    setFiles(combined.slice(0, MAX_FILES));
+    setStates([]);
+  };
+
+  const handleImport = async () => {
+    if (files.length === 0) return;
+    if (poolId === NEW_POOL && !poolName.trim()) {
+      toast.error("Please name the candidate pool");
+      return;
+    }
+
+    setImporting(true);
+    setStates(files.map(() => ({ status: "queued", attempt: 0 })));
+
+    try {
+      if (!user) throw new Error("User not authenticated");
+
+      const pool =
+        poolId === NEW_POOL
+          ? await createCandidatePool(user.id, poolName, jobId === NO_JOB ? null : jobId)
+          : pools.find((p) => p.id === poolId);
+      if (!pool) throw new Error("Candidate pool not found");
+
+      const results = await runQueue(files, (file) => importCandidate(user.id, pool.id, file), {
+        concurrency: IMPORT_CONCURRENCY,
+        classifyError: classifyAnalysisError,
+        onTaskChange: (index, state) =>
+          setStates((current) => current.map((s, i) => (i === index ? state : s))),
+      });
+
+      const imported = results.filter((result) => result.status === "done").length;
+      if (imported === 0) {
+        toast.error("No resumes could be imported");
+        return;
+      }
+
+      if (imported < files.length) {
+        toast.warning(`Imported ${imported} of ${files.length} resumes`);
+      } else {
+        toast.success(`Imported ${imported} resumes`);
+      }
+      navigate(`/candidates/${pool.id}`);
+    } catch (error) {
+      console.error("Bulk upload error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import candidates");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const finished = states.filter((state) => state.status === "done" || state.status === "failed").length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Upload Candidates</CardTitle>
+        <CardDescription>
+          Add a folder of candidate resumes to a pool, then rank them against a job. Candidates are kept
+          separate from your own resumes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Candidate Pool</Label>
+            <Select value={poolId} onValueChange={setPoolId} disabled={importing}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_POOL}>New pool</SelectItem>
+                {pools.map((pool) => (
+                  <SelectItem key={pool.id} value={pool.id}>
+                    {pool.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {poolId === NEW_POOL && (
+            <div className="space-y-2">
+              <Label htmlFor="pool-name">Pool Name</Label>
+              <Input
+                id="pool-name"
+                placeholder="e.g., Backend Engineer, Q1"
+                value={poolName}
+                onChange={(e) => setPoolName(e.target.value)}
+                disabled={importing}
+              />
+            </div>
+          )}
+
+          {poolId === NEW_POOL && jobs.length > 0 && (
+            <div className="space-y-2">
+              <Label>Rank Against</Label>
+              <Select value={jobId} onValueChange={setJobId} disabled={importing}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_JOB}>Choose later</SelectItem>
+                  {jobs.map((job) => (
+                    <SelectItem key={job.id} value={job.id}>
+                      {job.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-4">
+          <label
+            htmlFor="candidate-files"
+            className="flex flex-col items-center justify-center h-32 border-2 border-dashed border-border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors"
+          >
+            <UploadIcon className="w-6 h-6 text-primary mb-2" />
+            <span className="font-medium">Choose files</span>
+            <input
+              id="candidate-files"
+              type="file"
+              className="hidden"
+              accept=".pdf,.docx,.json"
+              multiple
+              onChange={handleFilesChange}
+              disabled={importing}
+            />
+          </label>
+          <label
+            htmlFor="candidate-folder"
+            className="flex flex-col items-center justify-center h-32 border-2 border-dashed border-border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors"
+          >
+            <FolderOpen className="w-6 h-6 text-primary mb-2" />
+            <span className="font-medium">Choose a folder</span>
+            <input
+              id="candidate-folder"
+              type="file"
+              className="hidden"
+              {...folderInputProps}
+              onChange={handleFilesChange}
+              disabled={importing}
+            />
+          </label>
+        </div>
+
+        {files.length > 0 && (
+          <div className="space-y-2">
+            {states.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Parsing resumes with AI...</span>
+                  <span className="font-medium">
+                    {finished} / {files.length}
+                  </span>
+                </div>
+                <Progress value={(finished / files.length) * 100} />
+              </div>
+            )}
+
+            <div className="max-h-72 overflow-y-auto space-y-2">
+              {files.map((file, index) => {
+                const state = states[index];
+                return (
+                  <div key={`${file.name}-${file.size}`} className="flex items-center gap-3 p-3 rounded-lg border border-border">
+                    <FileText className="w-4 h-4 text-primary shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{file.name}</p>
+                      {state?.status === "failed" && <p className="text-xs text-destructive">{state.error}</p>}
+                      {state?.status === "retrying" && (
+                        <p className="text-xs text-muted-foreground">
+                          Retrying in {Math.ceil((state.retryInMs ?? 0) / 1000)}s
+                        </p>
+                      )}
+                    </div>
+                    {state ? (
+                      <Badge
+                        variant={state.status === "failed" ? "destructive" : state.status === "done" ? "default" : "secondary"}
+                        className="gap-1"
+                      >
+                        {(state.status === "running" || state.status === "retrying") && (
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        )}
+                        {IMPORT_STATUS_LABELS[state.status]}
+                      </Badge>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label={`Remove ${file.name}`}
+                        onClick={() => setFiles((current) => current.filter((_, i) => i !== index))}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <Button onClick={handleImport} disabled={importing || files.length === 0} className="w-full" size="lg">
+          {importing ? (
+            <>
+              <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+              Importing...
+            </>
+          ) : (
+            <>
+              <Users className="mr-2 h-5 w-5" />
+              Import {files.length > 0 ? `${files.length} ` : ""}Candidates
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BulkCandidateUpload;
@@ -0,0 +1,172 @@
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { AtsBucket, Progression, SkillCount, TrendPoint } from "@/lib/dashboardStats";
+
+interface DashboardChartsProps {
+  trend: TrendPoint[];
+  distribution: AtsBucket[];
+  missingSkills: SkillCount[];
+  progression: Progression;
+}
+
+const SERIES_COLORS = ["--chart-1", "--chart-2", "--chart-3", "--chart-4", "--chart-5"];
+
+const trendConfig = {
+  matchScore: { label: "Match Score", color: "hsl(var(--primary))" },
+  atsScore: { label: "ATS Score", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const distributionConfig = {
+  analyses: { label: "Analyses", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const missingConfig = {
+  analyses: { label: "Analyses", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const EmptyChart = ({ message }: { message: string }) => (
+  <div className="flex h-64 items-center justify-center text-sm text-muted-foreground">{message}</div>
+);
+
+const DashboardCharts = ({ trend, distribution, missingSkills, progression }: DashboardChartsProps) => {
+  const progressionConfig = Object.fromEntries(
+    progression.series.map((series, index) => [
+      series.key,
+      { label: series.label, color: `hsl(var(${SERIES_COLORS[index % SERIES_COLORS.length]}))` },
+    ]),
+  ) satisfies ChartConfig;
+
+  const hasAtsScores = distribution.some((bucket) => bucket.analyses > 0);
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-6">
+      {/* Match score over time */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Match Score Over Time</CardTitle>
+          <CardDescription>Daily average across all analyses</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {trend.length === 0 ? (
+            <EmptyChart message="Run an analysis to start your trend" />
+          ) : (
+            <ChartContainer config={trendConfig} className="h-64 w-full aspect-auto">
+              <LineChart data={trend} margin={{ left: -20, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="date"
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value: string) => format(parseISO(value), "MMM d")}
+                />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="matchScore" type="monotone" stroke="var(--color-matchScore)" strokeWidth={2} dot={trend.length < 30} />
+                <Line
+                  dataKey="atsScore"
+                  type="monotone"
+                  stroke="var(--color-atsScore)"
+                  strokeWidth={2}
+                  dot={trend.length < 30}
+                  connectNulls
+                />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* ATS score distribution */}
+      <Card>
+        <CardHeader>
+          <CardTitle>ATS Score Distribution</CardTitle>
+          <CardDescription>Number of analyses per score range</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!hasAtsScores ? (
+            <EmptyChart message="No ATS scores yet" />
+          ) : (
+            <ChartContainer config={distributionConfig} className="h-64 w-full aspect-auto">
+              <BarChart data={distribution} margin={{ left: -20, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="range" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="analyses" fill="var(--color-analyses)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Most frequently missing skills */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Most Frequently Missing Skills</CardTitle>
+          <CardDescription>Skills postings asked for that your resumes lacked</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {missingSkills.length === 0 ? (
+            <EmptyChart message="No missing skills reported yet" />
+          ) : (
+            <ChartContainer config={missingConfig} className="h-64 w-full aspect-auto">
+              <BarChart data={missingSkills} layout="vertical" margin={{ left: 0, right: 12 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="skill" width={110} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="analyses" fill="var(--color-analyses)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Per-resume score progression */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Score Progression by Resume</CardTitle>
+          <CardDescription>Match score of each successive analysis</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {progression.data.length < 2 ? (
+            <EmptyChart message="Analyze a resume more than once to see its progression" />
+          ) : (
+            <ChartContainer config={progressionConfig} className="h-64 w-full aspect-auto">
+              <LineChart data={progression.data} margin={{ left: -20, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="attempt" tickLine={false} axisLine={false} tickFormatter={(value: number) => `#${value}`} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Analysis #${payload?.[0]?.payload?.attempt}`} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {progression.series.map((series) => (
+                  <Line
+                    key={series.key}
+                    dataKey={series.key}
+                    name={series.key}
+                    type="monotone"
+                    stroke={`var(--color-${series.key})`}
+                    strokeWidth={2}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default DashboardCharts;
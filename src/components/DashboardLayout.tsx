@@ -1,53 +1,35 @@
-import { ReactNode, useEffect, useState } from "react";
+import { ReactNode, useState } from "react";
 import { useNavigate, Link, useLocation } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
-import { User, Session } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
-import { FileText, Upload, LayoutDashboard, LogOut, Menu, X } from "lucide-react";
+import { FileText, Upload, LayoutDashboard, LogOut, Menu, X, Briefcase, Layers, Users, FolderOpen, History, Settings } from "lucide-react";
 import { toast } from "sonner";
+import { useSession } from "@/hooks/use-session";
 
 interface DashboardLayoutProps {
   children: ReactNode;
 }
 
+// Rendered inside RequireAuth, so there is always a signed-in user
 const DashboardLayout = ({ children }: DashboardLayoutProps) => {
   const navigate = useNavigate();
   const location = useLocation();
-  const [user, setUser] = useState<User | null>(null);
-  const [session, setSession] = useState<Session | null>(null);
+  const { user } = useSession();
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
-  useEffect(() => {
-    supabase.auth.onAuthStateChange((_, session) => {
-      setSession(session);
-      setUser(session?.user ?? null);
-    });
-
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setUser(session?.user ?? null);
-      if (!session) {
-        navigate("/auth");
-      }
-    });
-  }, [navigate]);
-
+  // Leave the protected pages first, or RequireAuth would send the user to /auth
   const handleSignOut = async () => {
+    navigate("/");
     const { error } = await supabase.auth.signOut();
     if (error) {
       toast.error("Failed to sign out");
     } else {
       toast.success("Signed out successfully");
-      navigate("/");
     }
   };
 
   const isActive = (path: string) => location.pathname === path;
 
-  if (!user) {
-    return null;
-  }
-
   return (
     <div className="min-h-screen bg-background flex">
       {/* Mobile Menu Button */}
@@ -101,6 +83,78 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
             <Upload className="w-5 h-5" />
             <span className="font-medium">Upload Resume</span>
           </Link>
+
+          <Link
+            to="/resumes"
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${
+              location.pathname.startsWith("/resumes")
+                ? "bg-primary text-primary-foreground"
+                : "hover:bg-muted"
+            }`}
+          >
+            <FolderOpen className="w-5 h-5" />
+            <span className="font-medium">Resumes</span>
+          </Link>
+
+          <Link
+            to="/analyses"
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${
+              isActive("/analyses")
+                ? "bg-primary text-primary-foreground"
+                : "hover:bg-muted"
+            }`}
+          >
+            <History className="w-5 h-5" />
+            <span className="font-medium">Analyses</span>
+          </Link>
+
+          <Link
+            to="/jobs"
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${
+              isActive("/jobs")
+                ? "bg-primary text-primary-foreground"
+                : "hover:bg-muted"
+            }`}
+          >
+            <Briefcase className="w-5 h-5" />
+            <span className="font-medium">Jobs</span>
+          </Link>
+
+          <Link
+            to="/batch"
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${
+              isActive("/batch")
+                ? "bg-primary text-primary-foreground"
+                : "hover:bg-muted"
+            }`}
+          >
+            <Layers className="w-5 h-5" />
+            <span className="font-medium">Batch Analyze</span>
+          </Link>
+
+          <Link
+            to="/candidates"
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${
+              location.pathname.startsWith("/candidates")
+                ? "bg-primary text-primary-foreground"
+                : "hover:bg-muted"
+            }`}
+          >
+            <Users className="w-5 h-5" />
+            <span className="font-medium">Candidates</span>
+          </Link>
+
+          <Link
+            to="/settings"
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${
+              isActive("/settings")
+                ? "bg-primary text-primary-foreground"
+                : "hover:bg-muted"
+            }`}
+          >
+            <Settings className="w-5 h-5" />
+            <span className="font-medium">Settings</span>
+          </Link>
         </nav>
 
         {/* User Section */}
@@ -108,11 +162,11 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
           <div className="flex items-center gap-3 mb-4 px-2">
             <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
               <span className="text-primary font-semibold">
-                {user.email?.[0].toUpperCase()}
+                {user?.email?.[0].toUpperCase()}
               </span>
             </div>
             <div className="flex-1 min-w-0">
-              <p className="font-medium text-sm truncate">{user.email}</p>
+              <p className="font-medium text-sm truncate">{user?.email}</p>
             </div>
           </div>
           <Button
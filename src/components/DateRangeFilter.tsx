@@ -0,0 +1,48 @@
+import type { DateRange } from "react-day-picker";
+import { format } from "date-fns";
+import { CalendarIcon, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface DateRangeFilterProps {
+  value: DateRange | undefined;
+  onChange: (range: DateRange | undefined) => void;
+}
+
+const formatRange = (range: DateRange | undefined) => {
+  if (!range?.from) return "Any date";
+  if (!range.to || range.to.getTime() === range.from.getTime()) return format(range.from, "MMM d, yyyy");
+  return `${format(range.from, "MMM d, yyyy")} – ${format(range.to, "MMM d, yyyy")}`;
+};
+
+const DateRangeFilter = ({ value, onChange }: DateRangeFilterProps) => (
+  <div className="flex gap-2">
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="flex-1 justify-start font-normal">
+          <CalendarIcon className="w-4 h-4 mr-2" />
+          <span className="truncate">{formatRange(value)}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="range"
+          selected={value}
+          onSelect={onChange}
+          defaultMonth={value?.from}
+          numberOfMonths={2}
+          disabled={{ after: new Date() }}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+    {value?.from && (
+      <Button variant="ghost" size="icon" aria-label="Clear date range" onClick={() => onChange(undefined)}>
+        <X className="w-4 h-4" />
+      </Button>
+    )}
+  </div>
+);
+
+export default DateRangeFilter;
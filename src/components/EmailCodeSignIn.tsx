@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { OTP_LENGTH, emailSchema } from "@/lib/credentials";
+
+interface EmailCodeSignInProps {
+  email: string;
+  /** In-app path the magic link returns to */
+  redirectTo: string;
+  onEmailChange: (email: string) => void;
+  onBack: () => void;
+}
+
+/**
+ * Passwordless sign-in. Supabase emails a magic link and a one-time code;
+ * either signs the user in, the code being handy when the email is read on
+ * another device. Only existing accounts can sign in this way.
+ */
+const EmailCodeSignIn = ({ email, redirectTo, onEmailChange, onBack }: EmailCodeSignInProps) => {
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [sending, setSending] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+
+  const sendCode = async (address: string) => {
+    setSending(true);
+    try {
+      const { error } = await supabase.auth.signInWithOtp({
+        email: address,
+        options: { shouldCreateUser: false, emailRedirectTo: `${window.location.origin}${redirectTo}` },
+      });
+      if (error) throw error;
+      setSentTo(address);
+      setCode("");
+      toast.success("Check your email for a sign-in link and code");
+    } catch (error) {
+      console.error("Sign-in code error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send sign-in code");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const requestCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      sendCode(emailSchema.parse(email));
+    } catch (error) {
+      if (error instanceof z.ZodError) toast.error(error.errors[0].message);
+    }
+  };
+
+  // The Auth page navigates on once the session exists
+  const verifyCode = async (token: string) => {
+    if (!sentTo || token.length !== OTP_LENGTH) return;
+
+    setVerifying(true);
+    try {
+      const { error } = await supabase.auth.verifyOtp({ email: sentTo, token, type: "email" });
+      if (error) throw error;
+      toast.success("Signed in successfully!");
+    } catch (error) {
+      console.error("Code verification error:", error);
+      toast.error(error instanceof Error ? error.message : "Invalid or expired code");
+      setCode("");
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          We sent a sign-in link and a {OTP_LENGTH}-digit code to{" "}
+          <span className="font-medium text-foreground">{sentTo}</span>. Open the link, or enter the code here.
+        </p>
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={OTP_LENGTH}
+            value={code}
+            onChange={setCode}
+            onComplete={verifyCode}
+            disabled={verifying}
+            autoFocus
+          >
+            <InputOTPGroup>
+              {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+        <Button className="w-full" onClick={() => verifyCode(code)} disabled={verifying || code.length !== OTP_LENGTH}>
+          {verifying ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            "Sign In"
+          )}
+        </Button>
+        <div className="flex justify-between">
+          <Button variant="ghost" size="sm" onClick={() => setSentTo(null)} disabled={verifying}>
+            Use a different email
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => sendCode(sentTo)} disabled={sending || verifying}>
+            {sending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Resend code
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={requestCode} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        We'll email you a link and a one-time code, so you can sign in without your password.
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor="code-email">Email</Label>
+        <Input
+          id="code-email"
+          type="email"
+          placeholder="you@example.com"
+          value={email}
+          onChange={(e) => onEmailChange(e.target.value)}
+          required
+          disabled={sending}
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={sending}>
+        {sending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Sending...
+          </>
+        ) : (
+          "Email me a sign-in code"
+        )}
+      </Button>
+      <Button type="button" variant="ghost" className="w-full gap-2" onClick={onBack} disabled={sending}>
+        <ArrowLeft className="w-4 h-4" />
+        Sign in with a password
+      </Button>
+    </form>
+  );
+};
+
+export default EmailCodeSignIn;
@@ -0,0 +1,219 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Braces, Download, FileDown, FileText, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import type { ParsedResume } from "@/lib/parsedResume";
+import {
+  DEFAULT_PDF_OPTIONS,
+  MARGIN_LABELS,
+  PAGE_SIZE_LABELS,
+  TEMPLATE_LABELS,
+  exportFileName,
+  renderResumePdf,
+  type MarginSize,
+  type PageSize,
+  type PdfExportOptions,
+  type ResumeTemplate,
+} from "@/lib/exportPdf";
+import { DOCX_MIME_TYPE, renderResumeDocx } from "@/lib/exportDocx";
+import { toJsonResume } from "@/lib/jsonResume";
+import { downloadBlob } from "@/lib/utils";
+import { fetchProfile, preferredPageSize, preferredTemplate } from "@/lib/profile";
+import { useSession } from "@/hooks/use-session";
+
+interface ExportResumeDialogProps {
+  resume: ParsedResume;
+  /** Button label, e.g. "Export Tailored" */
+  label?: string;
+  disabled?: boolean;
+}
+
+const ExportResumeDialog = ({ resume, label = "Export", disabled }: ExportResumeDialogProps) => {
+  const { user } = useSession();
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<PdfExportOptions>(DEFAULT_PDF_OPTIONS);
+  const [pdf, setPdf] = useState<Blob | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [rendering, setRendering] = useState(false);
+  const [exportingDocx, setExportingDocx] = useState(false);
+
+  // Start from the template and paper size in the user's defaults
+  useEffect(() => {
+    fetchProfile(user.id)
+      .then((profile) =>
+        setOptions((current) => ({
+          ...current,
+          template: preferredTemplate(profile),
+          pageSize: preferredPageSize(profile),
+        })),
+      )
+      .catch((error) => console.error("Error fetching export defaults:", error));
+  }, []);
+
+  // Re-render the preview whenever the dialog opens or an option changes
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setRendering(true);
+
+    renderResumePdf(resume, options)
+      .then((bytes) => {
+        if (cancelled) return;
+        setPdf(new Blob([bytes], { type: "application/pdf" }));
+      })
+      .catch((error) => {
+        console.error("Error rendering PDF:", error);
+        if (!cancelled) toast.error("Failed to render PDF");
+      })
+      .finally(() => {
+        if (!cancelled) setRendering(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, resume, options]);
+
+  useEffect(() => {
+    if (!pdf) return;
+    const url = URL.createObjectURL(pdf);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [pdf]);
+
+  const downloadDocx = async () => {
+    setExportingDocx(true);
+    try {
+      const bytes = await renderResumeDocx(resume, options);
+      downloadBlob(new Blob([bytes], { type: DOCX_MIME_TYPE }), exportFileName(resume, "docx"));
+    } catch (error) {
+      console.error("Error rendering DOCX:", error);
+      toast.error("Failed to create Word document");
+    } finally {
+      setExportingDocx(false);
+    }
+  };
+
+  const downloadJson = () => {
+    const json = JSON.stringify(toJsonResume(resume), null, 2);
+    downloadBlob(new Blob([json], { type: "application/json" }), exportFileName(resume, "json"));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2" disabled={disabled}>
+          <FileDown className="w-4 h-4" />
+          {label}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Export Resume</DialogTitle>
+          <DialogDescription>
+            Choose a template and page setup. The preview updates as you go; the Word file uses the same settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid md:grid-cols-[240px_1fr] gap-6">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Template</Label>
+              <Select
+                value={options.template}
+                onValueChange={(template) => setOptions({ ...options, template: template as ResumeTemplate })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TEMPLATE_LABELS).map(([value, text]) => (
+                    <SelectItem key={value} value={value}>
+                      {text}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Page size</Label>
+              <Select
+                value={options.pageSize}
+                onValueChange={(pageSize) => setOptions({ ...options, pageSize: pageSize as PageSize })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAGE_SIZE_LABELS).map(([value, text]) => (
+                    <SelectItem key={value} value={value}>
+                      {text}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Margins</Label>
+              <Select
+                value={options.margins}
+                onValueChange={(margins) => setOptions({ ...options, margins: margins as MarginSize })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(MARGIN_LABELS).map(([value, text]) => (
+                    <SelectItem key={value} value={value}>
+                      {text}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button
+              className="w-full gap-2"
+              disabled={!pdf || rendering}
+              onClick={() => pdf && downloadBlob(pdf, exportFileName(resume, "pdf"))}
+            >
+              <Download className="w-4 h-4" />
+              Download PDF
+            </Button>
+            <Button variant="outline" className="w-full gap-2" disabled={exportingDocx} onClick={downloadDocx}>
+              {exportingDocx ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+              Download DOCX
+            </Button>
+            <Button variant="ghost" className="w-full gap-2" onClick={downloadJson}>
+              <Braces className="w-4 h-4" />
+              Download JSON Resume
+            </Button>
+          </div>
+
+          <div className="relative h-[70vh] rounded-lg border border-border bg-muted overflow-hidden">
+            {previewUrl && <iframe title="Resume preview" src={previewUrl} className="w-full h-full" />}
+            {rendering && (
+              <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+                <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportResumeDialog;
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Loader2, MailCheck } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { emailSchema } from "@/lib/credentials";
+
+interface ForgotPasswordFormProps {
+  email: string;
+  onEmailChange: (email: string) => void;
+  onBack: () => void;
+}
+
+/** Emails a link to /auth/reset, where the recovery session sets a new password */
+const ForgotPasswordForm = ({ email, onEmailChange, onBack }: ForgotPasswordFormProps) => {
+  const [sending, setSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const sendResetLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    let address: string;
+    try {
+      address = emailSchema.parse(email);
+    } catch (error) {
+      if (error instanceof z.ZodError) toast.error(error.errors[0].message);
+      return;
+    }
+
+    setSending(true);
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(address, {
+        redirectTo: `${window.location.origin}/auth/reset`,
+      });
+      if (error) throw error;
+      setSentTo(address);
+    } catch (error) {
+      console.error("Password reset error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send reset link");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <div className="space-y-4 text-center">
+        <MailCheck className="w-10 h-10 text-primary mx-auto" />
+        <p className="text-sm text-muted-foreground">
+          If an account exists for <span className="font-medium text-foreground">{sentTo}</span>, we've sent a link
+          to reset your password. It expires in one hour.
+        </p>
+        <Button variant="outline" className="w-full" onClick={onBack}>
+          Back to sign in
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={sendResetLink} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Enter your account's email and we'll send you a link to choose a new password.
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor="reset-email">Email</Label>
+        <Input
+          id="reset-email"
+          type="email"
+          placeholder="you@example.com"
+          value={email}
+          onChange={(e) => onEmailChange(e.target.value)}
+          required
+          disabled={sending}
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={sending}>
+        {sending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Sending...
+          </>
+        ) : (
+          "Send reset link"
+        )}
+      </Button>
+      <Button type="button" variant="ghost" className="w-full gap-2" onClick={onBack} disabled={sending}>
+        <ArrowLeft className="w-4 h-4" />
+        Back to sign in
+      </Button>
+    </form>
+  );
+};
+
+export default ForgotPasswordForm;
@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2, Save } from "lucide-react";
+import { toast } from "sonner";
+import {
+  JOB_STATUSES,
+  JOB_STATUS_LABELS,
+  SALARY_CURRENCIES,
+  emptyJobFormValues,
+  jobFormSchema,
+  saveJob,
+  toJobFormValues,
+  type Job,
+  type JobFormValues,
+} from "@/lib/jobs";
+import { useSession } from "@/hooks/use-session";
+
+interface JobFormDialogProps {
+  /** Job to edit; a new job is created when omitted */
+  job?: Job | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (job: Job) => void;
+}
+
+const JobFormDialog = ({ job, open, onOpenChange, onSaved }: JobFormDialogProps) => {
+  const { user } = useSession();
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<JobFormValues>({
+    resolver: zodResolver(jobFormSchema),
+    defaultValues: emptyJobFormValues(),
+  });
+
+  // Start from the selected job (or a blank form) each time the dialog opens
+  useEffect(() => {
+    if (open) form.reset(job ? toJobFormValues(job) : emptyJobFormValues());
+  }, [open, job, form]);
+
+  const onSubmit = async (values: JobFormValues) => {
+    setSaving(true);
+    try {
+      const saved = await saveJob(user.id, values, job?.id);
+      toast.success(job ? "Job updated" : "Job saved");
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving job:", error);
+      toast.error("Failed to save job");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const textField = (
+    name: "title" | "company" | "location" | "source" | "salaryMin" | "salaryMax",
+    label: string,
+    placeholder?: string,
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{job ? "Edit Job" : "New Job"}</DialogTitle>
+          <DialogDescription>
+            Save a posting once and analyze any of your resumes against it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {textField("title", "Job Title", "e.g., Senior Software Engineer")}
+            <div className="grid md:grid-cols-2 gap-4">
+              {textField("company", "Company")}
+              {textField("location", "Location", "City, Country or Remote")}
+            </div>
+            {textField("source", "Source", "Posting URL or where you found it")}
+
+            <div className="grid md:grid-cols-3 gap-4">
+              {textField("salaryMin", "Salary From", "e.g., 90000")}
+              {textField("salaryMax", "Salary To", "e.g., 120000")}
+              <FormField
+                control={form.control}
+                name="salaryCurrency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SALARY_CURRENCIES.map((currency) => (
+                          <SelectItem key={currency} value={currency}>
+                            {currency}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="status"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Status</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {JOB_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {JOB_STATUS_LABELS[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Job Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={10} placeholder="Paste the full job description here..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving} className="gap-2">
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default JobFormDialog;
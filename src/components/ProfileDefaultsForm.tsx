@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { TEMPLATE_LABELS, type ResumeTemplate } from "@/lib/exportPdf";
+import {
+  AI_STRICTNESS_DESCRIPTIONS,
+  AI_STRICTNESS_LABELS,
+  LOCALE_LABELS,
+  SENIORITY_LABELS,
+  preferredTemplate,
+  toAnalysisPreferences,
+  updateProfile,
+  type AiStrictness,
+  type Profile,
+  type Seniority,
+} from "@/lib/profile";
+import { useSession } from "@/hooks/use-session";
+
+interface ProfileDefaultsFormProps {
+  profile: Profile | null;
+  onSaved: (profile: Profile) => void;
+}
+
+interface DefaultsValues {
+  template: ResumeTemplate;
+  targetRole: string;
+  seniority: Seniority | null;
+  locale: string;
+  strictness: AiStrictness;
+}
+
+const toValues = (profile: Profile | null): DefaultsValues => {
+  const preferences = toAnalysisPreferences(profile);
+  return {
+    template: preferredTemplate(profile),
+    targetRole: preferences.targetRole ?? "",
+    seniority: preferences.seniority,
+    locale: preferences.locale,
+    strictness: preferences.strictness,
+  };
+};
+
+/** Export and analysis defaults stored on the profile */
+const ProfileDefaultsForm = ({ profile, onSaved }: ProfileDefaultsFormProps) => {
+  const { user } = useSession();
+  const [values, setValues] = useState<DefaultsValues>(() => toValues(profile));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setValues(toValues(profile));
+  }, [profile]);
+
+  const update = (changes: Partial<DefaultsValues>) => setValues((current) => ({ ...current, ...changes }));
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const saved = await updateProfile(user.id, {
+        preferred_template: values.template,
+        target_role: values.targetRole.trim() || null,
+        seniority: values.seniority,
+        locale: values.locale,
+        ai_strictness: values.strictness,
+      });
+      onSaved(saved);
+      toast.success("Defaults saved");
+    } catch (error) {
+      console.error("Error saving defaults:", error);
+      toast.error("Failed to save defaults");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="target-role">Target role</Label>
+          <Input
+            id="target-role"
+            placeholder="e.g., Backend Engineer"
+            value={values.targetRole}
+            maxLength={100}
+            onChange={(e) => update({ targetRole: e.target.value })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Seniority</Label>
+          <Select
+            value={values.seniority ?? "none"}
+            onValueChange={(value) => update({ seniority: value === "none" ? null : (value as Seniority) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No preference</SelectItem>
+              {Object.entries(SENIORITY_LABELS).map(([value, text]) => (
+                <SelectItem key={value} value={value}>
+                  {text}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>AI strictness</Label>
+          <Select value={values.strictness} onValueChange={(value) => update({ strictness: value as AiStrictness })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(AI_STRICTNESS_LABELS).map(([value, text]) => (
+                <SelectItem key={value} value={value}>
+                  {text}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{AI_STRICTNESS_DESCRIPTIONS[values.strictness]}</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Language</Label>
+          <Select value={values.locale} onValueChange={(locale) => update({ locale })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(LOCALE_LABELS).map(([value, text]) => (
+                <SelectItem key={value} value={value}>
+                  {text}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">Analyses are written in this language</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Resume template</Label>
+          <Select value={values.template} onValueChange={(template) => update({ template: template as ResumeTemplate })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TEMPLATE_LABELS).map(([value, text]) => (
+                <SelectItem key={value} value={value}>
+                  {text}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">Used first when exporting to PDF or Word</p>
+        </div>
+      </div>
+
+      <Button onClick={save} disabled={saving || !profile}>
+        {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Save defaults
+      </Button>
+    </div>
+  );
+};
+
+export default ProfileDefaultsForm;
@@ -0,0 +1,31 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { useSession } from "@/hooks/use-session";
+import { signInPath } from "@/lib/credentials";
+
+/**
+ * Route wrapper for pages that need a signed-in user. While the session loads
+ * it shows a spinner; without a session it sends the user to /auth, which
+ * returns them to the requested page afterwards.
+ */
+const RequireAuth = () => {
+  const { session, loading } = useSession();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background" role="status" aria-live="polite">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        <span className="sr-only">Loading your account...</span>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to={signInPath(`${location.pathname}${location.search}${location.hash}`)} replace />;
+  }
+
+  return <Outlet />;
+};
+
+export default RequireAuth;
@@ -0,0 +1,132 @@
+import { Badge } from "@/components/ui/badge";
+import type { BulletOp, EntryDiff, EntryStatus, FieldChange, ResumeDiff } from "@/lib/resumeDiff";
+
+interface ResumeDiffViewProps {
+  diff: ResumeDiff;
+}
+
+const STATUS_STYLES: Record<EntryStatus, string> = {
+  added: "bg-success text-success-foreground",
+  removed: "bg-destructive text-destructive-foreground",
+  changed: "bg-warning text-warning-foreground",
+};
+
+const FieldChanges = ({ changes }: { changes: FieldChange[] }) => (
+  <div className="space-y-3">
+    {changes.map((change) => (
+      <div key={change.field} className="text-sm space-y-1">
+        <p className="font-medium capitalize">{change.field}</p>
+        {change.before && (
+          <p className="rounded px-2 py-1 bg-destructive/10 line-through decoration-destructive/60 whitespace-pre-line">
+            {change.before}
+          </p>
+        )}
+        {change.after && <p className="rounded px-2 py-1 bg-success/10 whitespace-pre-line">{change.after}</p>}
+      </div>
+    ))}
+  </div>
+);
+
+const BulletOps = ({ ops }: { ops: BulletOp[] }) => (
+  <ul className="space-y-1 text-sm">
+    {ops.map((op, i) => (
+      <li
+        key={i}
+        className={
+          op.type === "added"
+            ? "rounded px-2 py-1 bg-success/10"
+            : op.type === "removed"
+            ? "rounded px-2 py-1 bg-destructive/10 line-through decoration-destructive/60"
+            : "px-2 py-1 text-muted-foreground"
+        }
+      >
+        <span className="font-mono mr-2">{op.type === "added" ? "+" : op.type === "removed" ? "−" : " "}</span>
+        {op.text}
+      </li>
+    ))}
+  </ul>
+);
+
+const EntryList = ({ title, entries }: { title: string; entries: EntryDiff[] }) =>
+  entries.length === 0 ? null : (
+    <section className="space-y-3">
+      <h3 className="font-semibold">{title}</h3>
+      {entries.map((entry, i) => (
+        <div key={i} className="p-3 rounded-lg border border-border space-y-2">
+          <div className="flex items-center gap-2">
+            <Badge className={STATUS_STYLES[entry.status]}>{entry.status}</Badge>
+            <span className="font-medium">{entry.label}</span>
+          </div>
+          {entry.fields.length > 0 && <FieldChanges changes={entry.fields} />}
+        </div>
+      ))}
+    </section>
+  );
+
+const ResumeDiffView = ({ diff }: ResumeDiffViewProps) => {
+  if (!diff.hasChanges) {
+    return <p className="text-sm text-muted-foreground text-center py-6">These versions are identical.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {diff.fields.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="font-semibold">Profile</h3>
+          <FieldChanges changes={diff.fields} />
+        </section>
+      )}
+
+      {(diff.skills.added.length > 0 || diff.skills.removed.length > 0) && (
+        <section className="space-y-3">
+          <h3 className="font-semibold">Skills</h3>
+          <div className="flex flex-wrap gap-2">
+            {diff.skills.added.map((skill) => (
+              <Badge key={`+${skill}`} className="bg-success text-success-foreground">
+                + {skill}
+              </Badge>
+            ))}
+            {diff.skills.removed.map((skill) => (
+              <Badge key={`-${skill}`} variant="outline" className="line-through">
+                {skill}
+              </Badge>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {(diff.links.added.length > 0 || diff.links.removed.length > 0) && (
+        <section className="space-y-3">
+          <h3 className="font-semibold">Links</h3>
+          <BulletOps
+            ops={[
+              ...diff.links.removed.map((text) => ({ type: "removed" as const, text })),
+              ...diff.links.added.map((text) => ({ type: "added" as const, text })),
+            ]}
+          />
+        </section>
+      )}
+
+      {diff.experience.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="font-semibold">Experience</h3>
+          {diff.experience.map((entry, i) => (
+            <div key={i} className="p-3 rounded-lg border border-border space-y-2">
+              <div className="flex items-center gap-2">
+                <Badge className={STATUS_STYLES[entry.status]}>{entry.status}</Badge>
+                <span className="font-medium">{entry.label}</span>
+              </div>
+              {entry.fields.length > 0 && <FieldChanges changes={entry.fields} />}
+              {entry.bullets.length > 0 && <BulletOps ops={entry.bullets} />}
+            </div>
+          ))}
+        </section>
+      )}
+
+      <EntryList title="Education" entries={diff.education} />
+      <EntryList title="Projects" entries={diff.projects} />
+    </div>
+  );
+};
+
+export default ResumeDiffView;
@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { useSession } from "@/hooks/use-session";
+
+/**
+ * Toggles profiles.strict_redaction. Contact details, addresses, dates of birth
+ * and national IDs are always hidden from the AI; strict mode also hides links,
+ * postal codes and the candidate's name.
+ */
+const StrictRedactionSwitch = () => {
+  const { user } = useSession();
+  const [strict, setStrict] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchSetting();
+  }, []);
+
+  const fetchSetting = async () => {
+    try {
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("strict_redaction")
+        .eq("id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setStrict(data?.strict_redaction ?? false);
+    } catch (error) {
+      console.error("Error fetching privacy setting:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSetting = async (checked: boolean) => {
+    setStrict(checked);
+    try {
+      if (!user) throw new Error("User not authenticated");
+
+      const { error } = await supabase.from("profiles").update({ strict_redaction: checked }).eq("id", user.id);
+      if (error) throw error;
+      toast.success(checked ? "Strict privacy mode on" : "Strict privacy mode off");
+    } catch (error) {
+      console.error("Error updating privacy setting:", error);
+      setStrict(!checked);
+      toast.error("Failed to update privacy setting");
+    }
+  };
+
+  return (
+    <div className="flex items-start justify-between gap-4">
+      <div className="flex gap-3">
+        <ShieldCheck className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+        <div className="space-y-1">
+          <Label htmlFor="strict-redaction">Strict privacy mode</Label>
+          <p className="text-sm text-muted-foreground">
+            Emails, phone numbers, addresses, dates of birth and ID numbers are always hidden from the AI.
+            Strict mode also hides your name, links and postal codes.
+          </p>
+        </div>
+      </div>
+      <Switch id="strict-redaction" checked={strict} onCheckedChange={updateSetting} disabled={loading} />
+    </div>
+  );
+};
+
+export default StrictRedactionSwitch;
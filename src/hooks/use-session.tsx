@@ -0,0 +1,37 @@
+import * as React from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+interface SessionState {
+  session: Session | null;
+  user: User | null;
+  /** True until the stored session (or one from an auth link in the URL) has been read */
+  loading: boolean;
+}
+
+const SessionContext = React.createContext<SessionState | null>(null);
+
+/**
+ * Owns the app's single auth subscription. Pages read the session with
+ * useSession() instead of calling getSession or getUser themselves.
+ */
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [state, setState] = React.useState<SessionState>({ session: null, user: null, loading: true });
+
+  React.useEffect(() => {
+    const update = (session: Session | null) => setState({ session, user: session?.user ?? null, loading: false });
+
+    // INITIAL_SESSION arrives once the client has read storage and the URL
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_, session) => update(session));
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return <SessionContext.Provider value={state}>{children}</SessionContext.Provider>;
+}
+
+export function useSession(): SessionState {
+  const context = React.useContext(SessionContext);
+  if (!context) throw new Error("useSession must be used within an AuthProvider");
+  return context;
+}
@@ -16,51 +16,70 @@ export type Database = {
     Tables: {
       analyses: {
         Row: {
+          ats_breakdown: Json | null
           ats_score: number | null
           created_at: string | null
           id: string
           improved_bullets: Json | null
           improved_summary: string | null
           job_description: string
+          job_id: string | null
           job_title: string
           match_score: number | null
           matched_skills: string[] | null
           missing_skills: string[] | null
           recommendations: string | null
           resume_id: string
+          resume_version_id: string | null
+          suggested_skills: string[] | null
           user_id: string
         }
         Insert: {
+          ats_breakdown?: Json | null
           ats_score?: number | null
           created_at?: string | null
           id?: string
           improved_bullets?: Json | null
           improved_summary?: string | null
           job_description: string
+          job_id?: string | null
           job_title: string
           match_score?: number | null
           matched_skills?: string[] | null
           missing_skills?: string[] | null
           recommendations?: string | null
           resume_id: string
+          resume_version_id?: string | null
+          suggested_skills?: string[] | null
           user_id: string
         }
         Update: {
+          ats_breakdown?: Json | null
           ats_score?: number | null
           created_at?: string | null
           id?: string
           improved_bullets?: Json | null
           improved_summary?: string | null
           job_description?: string
+          job_id?: string | null
           job_title?: string
           match_score?: number | null
           matched_skills?: string[] | null
           missing_skills?: string[] | null
           recommendations?: string | null
           resume_id?: string
+          resume_version_id?: string | null
+          suggested_skills?: string[] | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "analyses_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "analyses_resume_id_fkey"
             columns: ["resume_id"]
@@ -68,35 +87,238 @@ export type Database = {
             referencedRelation: "resumes"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "analyses_resume_version_id_fkey"
+            columns: ["resume_version_id"]
+            isOneToOne: false
+            referencedRelation: "resume_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      candidate_pools: {
+        Row: {
+          created_at: string | null
+          id: string
+          job_id: string | null
+          name: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          job_id?: string | null
+          name: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          job_id?: string | null
+          name?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidate_pools_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      candidates: {
+        Row: {
+          created_at: string | null
+          email: string | null
+          extracted_text: string | null
+          file_name: string
+          file_path: string
+          file_type: string
+          id: string
+          name: string
+          parsed_data: Json
+          pool_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          email?: string | null
+          extracted_text?: string | null
+          file_name: string
+          file_path: string
+          file_type: string
+          id?: string
+          name: string
+          parsed_data: Json
+          pool_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          email?: string | null
+          extracted_text?: string | null
+          file_name?: string
+          file_path?: string
+          file_type?: string
+          id?: string
+          name?: string
+          parsed_data?: Json
+          pool_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "candidates_pool_id_fkey"
+            columns: ["pool_id"]
+            isOneToOne: false
+            referencedRelation: "candidate_pools"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      jobs: {
+        Row: {
+          company: string | null
+          created_at: string | null
+          description: string
+          id: string
+          location: string | null
+          salary_currency: string
+          salary_max: number | null
+          salary_min: number | null
+          source: string | null
+          status: string
+          title: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          company?: string | null
+          created_at?: string | null
+          description: string
+          id?: string
+          location?: string | null
+          salary_currency?: string
+          salary_max?: number | null
+          salary_min?: number | null
+          source?: string | null
+          status?: string
+          title: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          company?: string | null
+          created_at?: string | null
+          description?: string
+          id?: string
+          location?: string | null
+          salary_currency?: string
+          salary_max?: number | null
+          salary_min?: number | null
+          source?: string | null
+          status?: string
+          title?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
+          ai_strictness: string
           created_at: string | null
           email: string | null
           full_name: string | null
           id: string
+          locale: string
+          preferred_template: string
+          seniority: string | null
+          strict_redaction: boolean
+          target_role: string | null
           updated_at: string | null
         }
         Insert: {
+          ai_strictness?: string
           created_at?: string | null
           email?: string | null
           full_name?: string | null
           id: string
+          locale?: string
+          preferred_template?: string
+          seniority?: string | null
+          strict_redaction?: boolean
+          target_role?: string | null
           updated_at?: string | null
         }
         Update: {
+          ai_strictness?: string
           created_at?: string | null
           email?: string | null
           full_name?: string | null
           id?: string
+          locale?: string
+          preferred_template?: string
+          seniority?: string | null
+          strict_redaction?: boolean
+          target_role?: string | null
           updated_at?: string | null
         }
         Relationships: []
       }
+      resume_versions: {
+        Row: {
+          created_at: string | null
+          id: string
+          label: string | null
+          parsed_data: Json
+          resume_id: string
+          source: string
+          user_id: string
+          version_number: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          label?: string | null
+          parsed_data: Json
+          resume_id: string
+          source?: string
+          user_id: string
+          version_number?: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          label?: string | null
+          parsed_data?: Json
+          resume_id?: string
+          source?: string
+          user_id?: string
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resume_versions_resume_id_fkey"
+            columns: ["resume_id"]
+            isOneToOne: false
+            referencedRelation: "resumes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       resumes: {
         Row: {
           created_at: string | null
+          current_version_id: string | null
           extracted_text: string | null
           file_name: string
           file_path: string
@@ -108,6 +330,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          current_version_id?: string | null
           extracted_text?: string | null
           file_name: string
           file_path: string
@@ -119,6 +342,7 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          current_version_id?: string | null
           extracted_text?: string | null
           file_name?: string
           file_path?: string
@@ -128,11 +352,45 @@ export type Database = {
           updated_at?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "resumes_current_version_id_fkey"
+            columns: ["current_version_id"]
+            isOneToOne: false
+            referencedRelation: "resume_versions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
-      [_ in never]: never
+      analysis_stats: {
+        Row: {
+          avg_ats_score: number | null
+          avg_match_score: number | null
+          best_match_score: number | null
+          last_analysis_at: string | null
+          total_analyses: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      ats_score_distribution: {
+        Row: {
+          analysis_count: number | null
+          bucket_start: number | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      missing_skill_counts: {
+        Row: {
+          analysis_count: number | null
+          skill: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
       [_ in never]: never
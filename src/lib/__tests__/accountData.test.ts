@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { buildAccountExport, exportArchiveName, slugify, type AccountData, type AccountFiles } from '../accountData';
+
+const RESUME_ID = '11111111-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+const OTHER_RESUME_ID = '22222222-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+const POOL_ID = '33333333-cccc-4ccc-8ccc-cccccccccccc';
+const CANDIDATE_ID = '44444444-dddd-4ddd-8ddd-dddddddddddd';
+
+const resumeRow = (id: string, fileName: string) => ({
+  id,
+  user_id: 'user-1',
+  file_name: fileName,
+  file_path: `user-1/1700000000000_${fileName}`,
+  file_type: 'application/pdf',
+  extracted_text: 'Jane Doe',
+  parsed_data: { name: 'Jane Doe', skills: ['TypeScript'] },
+  current_version_id: null,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: null,
+});
+
+const analysisRow = (id: string, resumeId: string) => ({
+  id,
+  user_id: 'user-1',
+  resume_id: resumeId,
+  resume_version_id: null,
+  job_id: null,
+  job_title: 'Engineer',
+  job_description: 'Build things',
+  match_score: 80,
+  ats_score: 70,
+  ats_breakdown: null,
+  matched_skills: ['TypeScript'],
+  missing_skills: [],
+  suggested_skills: [],
+  recommendations: null,
+  improved_summary: null,
+  improved_bullets: null,
+  created_at: '2025-01-02T00:00:00Z',
+});
+
+const accountData = (): AccountData => ({
+  exportedAt: '2025-12-09T10:00:00.000Z',
+  profile: {
+    id: 'user-1',
+    email: 'jane@example.com',
+    full_name: 'Jane Doe',
+    strict_redaction: false,
+    preferred_template: 'classic',
+    target_role: null,
+    seniority: null,
+    locale: 'en-US',
+    ai_strictness: 'balanced',
+    created_at: null,
+    updated_at: null,
+  },
+  resumes: [resumeRow(RESUME_ID, 'Jane CV.pdf'), resumeRow(OTHER_RESUME_ID, 'Jane CV.pdf')],
+  resumeVersions: [
+    {
+      id: 'version-1',
+      user_id: 'user-1',
+      resume_id: RESUME_ID,
+      version_number: 1,
+      label: null,
+      source: 'upload',
+      parsed_data: { name: 'Jane Doe' },
+      created_at: null,
+    },
+  ],
+  analyses: [analysisRow('analysis-1', RESUME_ID), analysisRow('analysis-2', OTHER_RESUME_ID)],
+  jobs: [],
+  candidatePools: [
+    { id: POOL_ID, user_id: 'user-1', name: 'Backend Hiring', job_id: null, created_at: null, updated_at: null },
+  ],
+  candidates: [
+    {
+      id: CANDIDATE_ID,
+      user_id: 'user-1',
+      pool_id: POOL_ID,
+      name: 'Bob',
+      email: null,
+      file_name: 'bob/resume.docx',
+      file_path: `user-1/candidates/${POOL_ID}/1700000000000_bob.docx`,
+      file_type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      extracted_text: null,
+      parsed_data: { name: 'Bob' },
+      created_at: null,
+      updated_at: null,
+    },
+  ],
+});
+
+const files = (data: AccountData): AccountFiles =>
+  new Map([
+    [data.resumes[0].file_path, new TextEncoder().encode('%PDF-1.4')],
+    [data.candidates[0].file_path, new TextEncoder().encode('docx')],
+  ]);
+
+const readZip = async (data: AccountData, accountFiles: AccountFiles) =>
+  JSZip.loadAsync(await buildAccountExport(data, accountFiles));
+
+describe('buildAccountExport', () => {
+  it('writes one folder per resume with its record, parsed data, versions, analyses and file', async () => {
+    const zip = await readZip(accountData(), files(accountData()));
+    const folder = 'resumes/jane-cv-11111111';
+
+    const record = JSON.parse(await zip.file(`${folder}/resume.json`)!.async('string'));
+    expect(record.id).toBe(RESUME_ID);
+    expect(record).not.toHaveProperty('parsed_data');
+
+    expect(JSON.parse(await zip.file(`${folder}/parsed.json`)!.async('string'))).toEqual({
+      name: 'Jane Doe',
+      skills: ['TypeScript'],
+    });
+    expect(JSON.parse(await zip.file(`${folder}/versions.json`)!.async('string'))).toHaveLength(1);
+
+    const analyses = JSON.parse(await zip.file(`${folder}/analyses.json`)!.async('string'));
+    expect(analyses.map((analysis: { id: string }) => analysis.id)).toEqual(['analysis-1']);
+
+    expect(await zip.file(`${folder}/Jane CV.pdf`)!.async('string')).toBe('%PDF-1.4');
+  });
+
+  it('keeps resumes with the same file name apart', async () => {
+    const zip = await readZip(accountData(), files(accountData()));
+    expect(zip.file('resumes/jane-cv-22222222/resume.json')).not.toBeNull();
+  });
+
+  it('includes every analysis, the profile and jobs at the top level', async () => {
+    const zip = await readZip(accountData(), files(accountData()));
+    expect(JSON.parse(await zip.file('analyses.json')!.async('string'))).toHaveLength(2);
+    expect(JSON.parse(await zip.file('profile.json')!.async('string')).email).toBe('jane@example.com');
+    expect(JSON.parse(await zip.file('jobs.json')!.async('string'))).toEqual([]);
+  });
+
+  it('groups candidates by pool without letting file names add folders', async () => {
+    const zip = await readZip(accountData(), files(accountData()));
+    const folder = 'candidates/backend-hiring-33333333';
+    expect(JSON.parse(await zip.file(`${folder}/pool.json`)!.async('string')).name).toBe('Backend Hiring');
+    expect(JSON.parse(await zip.file(`${folder}/candidates.json`)!.async('string'))).toHaveLength(1);
+    expect(await zip.file(`${folder}/files/44444444_bob_resume.docx`)!.async('string')).toBe('docx');
+  });
+
+  it('lists files that could not be downloaded in the README', async () => {
+    const zip = await readZip(accountData(), new Map());
+    const readme = await zip.file('README.txt')!.async('string');
+    expect(readme).toContain('could not be downloaded');
+    expect(readme).toContain('user-1/1700000000000_Jane CV.pdf');
+    expect(zip.file('resumes/jane-cv-11111111/Jane CV.pdf')).toBeNull();
+  });
+});
+
+describe('slugify', () => {
+  it('drops the extension, accents and separators', () => {
+    expect(slugify('Zoë Müller_CV (final).pdf')).toBe('zoe-muller-cv-final');
+    expect(slugify('../../etc')).toBe('etc');
+  });
+});
+
+describe('exportArchiveName', () => {
+  it('uses the export date', () => {
+    expect(exportArchiveName('2025-12-09T10:00:00.000Z')).toBe('resume-data-2025-12-09.zip');
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  AiError,
+  aiErrorResponse,
+  createAiClient,
+  repairJson,
+  requireJsonObject,
+} from '../../../supabase/functions/_shared/ai.ts';
+import type { AiProvider } from '../../../supabase/functions/_shared/aiProviders.ts';
+
+const completion = (content: string) =>
+  new Response(JSON.stringify({ model: 'test-model', choices: [{ message: { content } }] }), { status: 200 });
+
+const failure = (status: number, headers: Record<string, string> = {}) =>
+  new Response('upstream error', { status, headers });
+
+/** A provider that answers each request with the next queued response */
+const queuedProvider = (...responses: (Response | Error)[]) => {
+  const send = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error('No response queued');
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  const provider: AiProvider = { name: 'test', defaultModel: 'test-model', send };
+  return { provider, send };
+};
+
+const client = (provider: AiProvider, maxRetries = 2) =>
+  createAiClient('test-function', { provider, model: 'test-model', timeoutMs: 1_000, maxRetries });
+
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+describe('repairJson', () => {
+  it('parses valid JSON without repairing it', () => {
+    expect(repairJson('{"score": 80}')).toEqual({ value: { score: 80 }, repaired: false });
+  });
+
+  it('strips code fences', () => {
+    expect(repairJson('```json\n{"score": 80}\n```')).toEqual({ value: { score: 80 }, repaired: true });
+    expect(repairJson('```\n[1, 2]\n```')).toEqual({ value: [1, 2], repaired: true });
+  });
+
+  it('drops prose around the JSON', () => {
+    const text = 'Here is the analysis:\n{"skills": ["Go"]}\nLet me know if you need anything else.';
+    expect(repairJson(text)).toEqual({ value: { skills: ['Go'] }, repaired: true });
+  });
+
+  it('removes trailing commas', () => {
+    expect(repairJson('{"skills": ["Go", "Rust",], "meta": {"count": 2,},}').value).toEqual({
+      skills: ['Go', 'Rust'],
+      meta: { count: 2 },
+    });
+  });
+
+  it('leaves commas inside string values alone', () => {
+    const text = '{"summary": "Led teams, }", "bullets": ["Cut costs, ]", "Said \\"hi, }\\"",],}';
+    expect(repairJson(text).value).toEqual({
+      summary: 'Led teams, }',
+      bullets: ['Cut costs, ]', 'Said "hi, }"'],
+    });
+  });
+
+  it('throws AI_INVALID_RESPONSE for output it cannot repair', () => {
+    for (const text of ['Sorry, I cannot help with that.', '{"score": }', '']) {
+      let error: unknown;
+      try {
+        repairJson(text);
+      } catch (e) {
+        error = e;
+      }
+      expect(error, text).toBeInstanceOf(AiError);
+      expect(error, text).toMatchObject({ code: 'AI_INVALID_RESPONSE', status: 502 });
+    }
+  });
+});
+
+describe('requireJsonObject', () => {
+  it('passes JSON objects through', () => {
+    const value = { matchScore: 72 };
+    expect(requireJsonObject(value)).toBe(value);
+  });
+
+  it('rejects null, arrays and scalars as AI_INVALID_RESPONSE', () => {
+    for (const value of [null, [], ['matchScore'], 'matchScore', 72, true]) {
+      let error: unknown;
+      try {
+        requireJsonObject(value);
+      } catch (e) {
+        error = e;
+      }
+      expect(error, JSON.stringify(value)).toBeInstanceOf(AiError);
+      expect(error, JSON.stringify(value)).toMatchObject({ code: 'AI_INVALID_RESPONSE', status: 502 });
+    }
+  });
+});
+
+describe('createAiClient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('Deno', { env: { get: () => undefined } });
+    // No jitter, so the backoff delays are exact
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('retries 5xx responses with exponential backoff', async () => {
+    const { provider, send } = queuedProvider(failure(500), failure(503), completion('{"ok": true}'));
+    const result = client(provider).chat({ messages });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(send).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(send).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toMatchObject({ content: '{"ok": true}', model: 'test-model', attempts: 3 });
+  });
+
+  it('waits for Retry-After on 429 responses', async () => {
+    const { provider, send } = queuedProvider(failure(429, { 'Retry-After': '2' }), completion('{}'));
+    const result = client(provider).chat({ messages });
+
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(send).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toMatchObject({ attempts: 2 });
+  });
+
+  it('caps long Retry-After waits', async () => {
+    const { provider, send } = queuedProvider(failure(429), completion('{}'));
+    const result = client(provider).chat({ messages });
+
+    await vi.advanceTimersByTimeAsync(8_000);
+    expect(send).toHaveBeenCalledTimes(2);
+    await expect(result).resolves.toMatchObject({ attempts: 2 });
+  });
+
+  it('retries network errors', async () => {
+    const { provider } = queuedProvider(new TypeError('fetch failed'), completion('{}'));
+    const result = client(provider).chat({ messages });
+
+    await vi.advanceTimersByTimeAsync(500);
+    await expect(result).resolves.toMatchObject({ attempts: 2 });
+  });
+
+  it('gives up after the configured retries', async () => {
+    const { provider, send } = queuedProvider(failure(502), failure(502), failure(502));
+    const result = expect(client(provider, 1).chat({ messages })).rejects.toMatchObject({
+      code: 'AI_UPSTREAM_ERROR',
+      upstreamStatus: 502,
+      retryable: true,
+    });
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    await result;
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    [400, 'AI_UPSTREAM_ERROR', 502],
+    [401, 'AI_UPSTREAM_ERROR', 502],
+    [402, 'AI_CREDITS_DEPLETED', 402],
+  ])('does not retry %i responses', async (status, code, responseStatus) => {
+    const { provider, send } = queuedProvider(failure(status), completion('{}'));
+
+    const error = await client(provider).chat({ messages }).catch((e) => e);
+    expect(error).toBeInstanceOf(AiError);
+    expect(error).toMatchObject({ code, retryable: false, upstreamStatus: status, status: responseStatus });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('repairs JSON replies in chatJson', async () => {
+    const { provider } = queuedProvider(completion('```json\n{"matchScore": 72,}\n```'));
+    await expect(client(provider).chatJson({ messages })).resolves.toMatchObject({
+      data: { matchScore: 72 },
+      repaired: true,
+    });
+  });
+
+  it('rejects unrepairable JSON replies without retrying', async () => {
+    const { provider, send } = queuedProvider(completion('I could not analyse this resume.'), completion('{}'));
+    await expect(client(provider).chatJson({ messages })).rejects.toMatchObject({ code: 'AI_INVALID_RESPONSE' });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('maps errors onto uniform JSON responses', async () => {
+    const response = aiErrorResponse(new AiError('AI_RATE_LIMITED', 'Slow down', { retryAfter: 30 }), {
+      'Access-Control-Allow-Origin': '*',
+    });
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    await expect(response.json()).resolves.toEqual({ error: 'Slow down', code: 'AI_RATE_LIMITED', retryAfter: 30 });
+  });
+});
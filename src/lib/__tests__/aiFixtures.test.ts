@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { createAiClient } from '../../../supabase/functions/_shared/ai.ts';
+import { fixturesDirUrl } from '../../../supabase/functions/_shared/aiProviders.ts';
+import { normalizeParsedResume } from '../parsedResume';
+import { buildSuggestions, type ImprovementsInput } from '../applySuggestions';
+
+// Recorded responses served by the mock AI provider (AI_PROVIDER=mock).
+// These checks keep them in step with what the app expects from each function.
+interface MockFixture {
+  match?: string;
+  content: unknown;
+}
+
+const fixtures = (functionName: string): MockFixture[] =>
+  JSON.parse(
+    readFileSync(resolve(__dirname, `../../../supabase/functions/_shared/fixtures/${functionName}.json`), 'utf8'),
+  );
+
+const fallback = (functionName: string) => fixtures(functionName).find((fixture) => fixture.match === undefined)!;
+
+describe('mock AI fixtures', () => {
+  it('has a fallback response for every function', () => {
+    for (const name of ['parse-resume', 'analyze-job-fit', 'improve-resume']) {
+      expect(fallback(name), name).toBeDefined();
+    }
+  });
+
+  it('records a parse-resume response that passes validation without repairs', () => {
+    const result = normalizeParsedResume(fallback('parse-resume').content);
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.repairs).toEqual([]);
+  });
+
+  it('records an analysis with every field analyze-job-fit asks for', () => {
+    expect(fallback('analyze-job-fit').content).toEqual({
+      matchScore: expect.any(Number),
+      matchedSkills: expect.any(Array),
+      missingSkills: expect.any(Array),
+      recommendations: expect.any(String),
+      keywordAlignment: expect.any(String),
+    });
+  });
+
+  it('records improvements that line up with the recorded resume', () => {
+    const parsed = normalizeParsedResume(fallback('parse-resume').content);
+    if (!parsed.success) throw new Error(parsed.error.message);
+
+    const suggestions = buildSuggestions(parsed.data, fallback('improve-resume').content as ImprovementsInput);
+    expect(suggestions.experiences.map((item) => item.experienceIndex)).toEqual([0, 1]);
+    expect(suggestions.summary).not.toBeNull();
+    expect(suggestions.skills).toEqual(['Kafka', 'Kubernetes', 'Terraform']);
+  });
+});
+
+describe('mock AI provider', () => {
+  const repoRoot = resolve(__dirname, '../../..');
+  let env: Record<string, string>;
+  const readTextFile = vi.fn((path: string | URL) => readFile(path, 'utf8'));
+
+  beforeEach(() => {
+    env = { AI_PROVIDER: 'mock' };
+    readTextFile.mockClear();
+    vi.stubGlobal('Deno', { env: { get: (key: string) => env[key] }, readTextFile, cwd: () => repoRoot });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const messages = [{ role: 'user' as const, content: 'Analyze this resume' }];
+
+  it('serves the recorded fallback through the AI client', async () => {
+    env.AI_MOCK_FIXTURES_DIR = resolve(repoRoot, 'supabase/functions/_shared/fixtures');
+    const result = await createAiClient('analyze-job-fit').chatJson({ messages });
+    expect(result.data).toEqual(fallback('analyze-job-fit').content);
+    expect(result).toMatchObject({ model: 'mock', attempts: 1, repaired: false });
+  });
+
+  it('resolves a relative AI_MOCK_FIXTURES_DIR against the working directory', async () => {
+    env.AI_MOCK_FIXTURES_DIR = 'supabase/functions/_shared/fixtures';
+    await createAiClient('improve-resume').chatJson({ messages });
+    expect(String(readTextFile.mock.calls[0][0])).toBe(
+      `file://${repoRoot}/supabase/functions/_shared/fixtures/improve-resume.json`,
+    );
+  });
+
+  it('builds fixture directory URLs from absolute and relative paths', () => {
+    expect(fixturesDirUrl('/srv/fixtures', '/app').href).toBe('file:///srv/fixtures/');
+    expect(fixturesDirUrl('fixtures', '/app').href).toBe('file:///app/fixtures/');
+    expect(fixturesDirUrl('./test/../fixtures/', '/app/').href).toBe('file:///app/fixtures/');
+  });
+
+  it('reports a missing fixture file as a configuration error without retrying', async () => {
+    env.AI_MOCK_FIXTURES_DIR = 'supabase/functions/_shared/fixturs';
+    await expect(createAiClient('parse-resume').chat({ messages })).rejects.toMatchObject({
+      code: 'AI_NOT_CONFIGURED',
+      retryable: false,
+      status: 500,
+    });
+    expect(readTextFile).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySuggestions,
+  applySuggestionsToLaterVersion,
+  bulletKey,
+  buildSuggestions,
+  countAccepted,
+  matchExperience,
+  toImprovedExperiences,
+  type AcceptedSuggestions,
+} from '../applySuggestions';
+import { emptyParsedResume, type ParsedResume } from '../parsedResume';
+
+const resume = (): ParsedResume => ({
+  ...emptyParsedResume(),
+  name: 'Jane Doe',
+  summary: 'Backend engineer.',
+  skills: ['TypeScript', 'Postgres'],
+  experience: [
+    {
+      company: 'Acme',
+      title: 'Engineer',
+      duration: '2019 - 2022',
+      location: '',
+      bullets: ['Built billing', 'Fixed bugs'],
+    },
+    { company: 'Globex', title: 'Engineer', duration: '2017 - 2019', location: '', bullets: ['Wrote tests'] },
+  ],
+});
+
+const accept = (partial: Partial<AcceptedSuggestions>): AcceptedSuggestions => ({
+  summary: false,
+  bullets: new Set(),
+  skills: new Set(),
+  ...partial,
+});
+
+describe('toImprovedExperiences', () => {
+  it('tolerates malformed model output', () => {
+    expect(toImprovedExperiences('nope')).toEqual([]);
+    expect(
+      toImprovedExperiences([
+        null,
+        { originalExperience: 'Engineer at Acme', improvedBullets: 'Single bullet' },
+        { originalExperience: 42, improvedBullets: ['ok', 7, ''] },
+        {},
+      ]),
+    ).toEqual([
+      { originalExperience: 'Engineer at Acme', bullets: ['Single bullet'] },
+      { originalExperience: '', bullets: ['ok'] },
+    ]);
+  });
+});
+
+describe('matchExperience', () => {
+  it('prefers the company over a shared title', () => {
+    expect(matchExperience('Engineer at Globex', resume().experience)).toBe(1);
+  });
+
+  it('is case-insensitive', () => {
+    expect(matchExperience('ENGINEER AT ACME', resume().experience)).toBe(0);
+  });
+
+  it('skips claimed entries and returns -1 when nothing matches', () => {
+    expect(matchExperience('Engineer', resume().experience, new Set([0]))).toBe(1);
+    expect(matchExperience('Designer at Initech', resume().experience)).toBe(-1);
+  });
+});
+
+describe('buildSuggestions', () => {
+  it('matches each suggestion to a distinct experience entry', () => {
+    const suggestions = buildSuggestions(resume(), {
+      improvedBullets: [
+        { originalExperience: 'Engineer', improvedBullets: ['a'] },
+        { originalExperience: 'Engineer', improvedBullets: ['b'] },
+      ],
+    });
+    expect(suggestions.experiences.map((e) => e.experienceIndex)).toEqual([0, 1]);
+  });
+
+  it('drops skills the resume already lists and duplicate suggestions', () => {
+    const suggestions = buildSuggestions(resume(), { suggestedSkills: ['typescript', 'Docker', 'docker ', ' '] });
+    expect(suggestions.skills).toEqual(['Docker']);
+  });
+
+  it('compares skills through the taxonomy and suggests canonical names', () => {
+    const suggestions = buildSuggestions(resume(), { suggestedSkills: ['PostgreSQL', 'TS', 'k8s', 'Kubernetes'] });
+    expect(suggestions.skills).toEqual(['Kubernetes']);
+  });
+
+  it('drops a summary identical to the current one', () => {
+    expect(buildSuggestions(resume(), { improvedSummary: ' backend engineer. ' }).summary).toBeNull();
+    expect(buildSuggestions(resume(), { improvedSummary: 'Platform engineer.' }).summary).toBe('Platform engineer.');
+  });
+});
+
+describe('applySuggestions', () => {
+  const suggestions = buildSuggestions(resume(), {
+    improvedSummary: 'Platform engineer.',
+    improvedBullets: [
+      { originalExperience: 'Engineer at Acme', improvedBullets: ['Built billing for 1M users', 'Fixed 200 bugs', 'Mentored 3 engineers'] },
+      { originalExperience: 'Designer at Initech', improvedBullets: ['Unmatched'] },
+    ],
+    suggestedSkills: ['Docker', 'Kubernetes'],
+  });
+
+  it('returns an equal resume when nothing is accepted', () => {
+    expect(applySuggestions(resume(), suggestions, accept({}))).toEqual(resume());
+  });
+
+  it('replaces bullets by position and appends extra ones', () => {
+    const merged = applySuggestions(
+      resume(),
+      suggestions,
+      accept({ bullets: new Set([bulletKey(0, 1), bulletKey(0, 2)]) }),
+    );
+    expect(merged.experience[0].bullets).toEqual(['Built billing', 'Fixed 200 bugs', 'Mentored 3 engineers']);
+    expect(merged.experience[1]).toEqual(resume().experience[1]);
+  });
+
+  it('ignores accepted bullets for unmatched experiences', () => {
+    const merged = applySuggestions(resume(), suggestions, accept({ bullets: new Set([bulletKey(1, 0)]) }));
+    expect(merged).toEqual(resume());
+  });
+
+  it('applies the summary and accepted skills only', () => {
+    const merged = applySuggestions(resume(), suggestions, accept({ summary: true, skills: new Set(['Kubernetes']) }));
+    expect(merged.summary).toBe('Platform engineer.');
+    expect(merged.skills).toEqual(['TypeScript', 'Postgres', 'Kubernetes']);
+  });
+
+  it('does not modify the input resume', () => {
+    const original = resume();
+    applySuggestions(original, suggestions, accept({ bullets: new Set([bulletKey(0, 0)]) }));
+    expect(original).toEqual(resume());
+  });
+});
+
+describe('applySuggestionsToLaterVersion', () => {
+  const suggestions = buildSuggestions(resume(), {
+    improvedBullets: [
+      { originalExperience: 'Engineer at Acme', improvedBullets: ['Built billing for 1M users', 'Fixed 200 bugs', 'Mentored 3 engineers'] },
+    ],
+    suggestedSkills: ['Docker', 'Kubernetes'],
+  });
+
+  // Bullets reordered and one added after the analysis
+  const reordered = (): ParsedResume => {
+    const later = resume();
+    later.experience[0].bullets = ['Led the on-call rotation', 'Fixed bugs', 'Built billing'];
+    return later;
+  };
+
+  it('replaces bullets by their original text after they were reordered', () => {
+    const { resume: merged, skipped } = applySuggestionsToLaterVersion(
+      resume(),
+      reordered(),
+      suggestions,
+      accept({ bullets: new Set([bulletKey(0, 0), bulletKey(0, 2)]) }),
+    );
+    expect(merged.experience[0].bullets).toEqual([
+      'Led the on-call rotation',
+      'Fixed bugs',
+      'Built billing for 1M users',
+      'Mentored 3 engineers',
+    ]);
+    expect(skipped).toBe(0);
+  });
+
+  it('skips rewrites whose original bullet was edited or removed', () => {
+    const later = resume();
+    later.experience[0].bullets = ['Built the billing system'];
+    const { resume: merged, skipped } = applySuggestionsToLaterVersion(
+      resume(),
+      later,
+      suggestions,
+      accept({ bullets: new Set([bulletKey(0, 0), bulletKey(0, 1)]) }),
+    );
+    expect(merged).toEqual(later);
+    expect(skipped).toBe(2);
+  });
+
+  it('follows an experience entry that moved and does not duplicate skills added since', () => {
+    const later = resume();
+    later.experience.reverse();
+    later.skills.push('Docker');
+    const { resume: merged } = applySuggestionsToLaterVersion(
+      resume(),
+      later,
+      suggestions,
+      accept({ bullets: new Set([bulletKey(0, 1)]), skills: new Set(['Docker', 'Kubernetes']) }),
+    );
+    expect(merged.experience[1].bullets).toEqual(['Built billing', 'Fixed 200 bugs']);
+    expect(merged.experience[0]).toEqual(resume().experience[1]);
+    expect(merged.skills).toEqual(['TypeScript', 'Postgres', 'Docker', 'Kubernetes']);
+  });
+});
+
+describe('countAccepted', () => {
+  it('counts every accepted item', () => {
+    expect(countAccepted(accept({ summary: true, bullets: new Set(['0:0', '0:1']), skills: new Set(['Go']) }))).toBe(4);
+  });
+});
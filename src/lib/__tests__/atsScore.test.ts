@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { scoreResume, splitRequirements } from '../atsScore';
+import { emptyParsedResume, type ParsedResume } from '../parsedResume';
+
+const resume = (overrides: Partial<ParsedResume> = {}): ParsedResume => ({
+  ...emptyParsedResume(),
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  summary: 'Backend engineer building payment systems with TypeScript and Postgres.',
+  skills: ['JS', 'TypeScript', 'Node', 'Postgres', 'Docker'],
+  experience: [
+    {
+      company: 'Acme',
+      title: 'Senior Engineer',
+      duration: '2020 - Present',
+      location: 'Berlin',
+      bullets: ['Built payment APIs in TypeScript on AWS', 'Ran PostgreSQL migrations for the billing platform'],
+    },
+  ],
+  education: [{ institution: 'TU Berlin', degree: 'BSc', field: 'Computer Science', year: '2015' }],
+  ...overrides,
+});
+
+const JOB = `Senior Backend Engineer
+
+We build payment infrastructure for online businesses.
+
+Requirements:
+- 5+ years of experience with TypeScript and Node.js
+- Strong PostgreSQL skills
+- Experience running services on AWS with Kubernetes
+
+Nice to have:
+- Kafka
+- Terraform`;
+
+describe('splitRequirements', () => {
+  it('treats lines under a nice-to-have heading as preferred', () => {
+    const { required, preferred } = splitRequirements(JOB);
+    expect(required).toContain('TypeScript and Node.js');
+    expect(required).not.toContain('Kafka');
+    expect(preferred.split('\n')).toEqual(['Kafka', 'Terraform']);
+  });
+
+  it('treats sentences with a preference marker as preferred', () => {
+    const { required, preferred } = splitRequirements('You know React. Experience with GraphQL is a plus.');
+    expect(required).toBe('You know React.');
+    expect(preferred).toBe('Experience with GraphQL is a plus.');
+  });
+
+  it('does not mistake bullets that start like a heading for headings', () => {
+    expect(splitRequirements('Nice to have:\n- Preferred experience with Kafka').preferred).toBe(
+      'Preferred experience with Kafka',
+    );
+  });
+});
+
+describe('scoreResume', () => {
+  it('splits skills into required and preferred coverage', () => {
+    const result = scoreResume(resume(), JOB);
+
+    expect(result.requiredSkills).toEqual({
+      matched: ['TypeScript', 'Node.js', 'PostgreSQL', 'AWS'],
+      missing: ['Kubernetes'],
+    });
+    expect(result.preferredSkills).toEqual({ matched: [], missing: ['Kafka', 'Terraform'] });
+  });
+
+  it('explains the score with weighted components', () => {
+    const result = scoreResume(resume(), JOB);
+    const byId = Object.fromEntries(result.components.map((c) => [c.id, c]));
+
+    expect(byId.requiredSkills).toMatchObject({ score: 80, detail: '4 of 5 required skills found' });
+    expect(byId.preferredSkills).toMatchObject({ score: 0, detail: '0 of 2 preferred skills found' });
+    expect(byId.sectionCompleteness).toMatchObject({ score: 100, detail: 'All standard sections present' });
+    expect(byId.keywordDensity.score).toBeGreaterThan(0);
+
+    const weighted = result.components.reduce((sum, c) => sum + c.weight * (c.score ?? 0), 0);
+    expect(result.score).toBe(Math.round(weighted / 100));
+  });
+
+  it('is deterministic', () => {
+    expect(scoreResume(resume(), JOB)).toEqual(scoreResume(resume(), JOB));
+  });
+
+  it('scores a better-matching resume higher', () => {
+    const base = scoreResume(resume(), JOB).score;
+    const improved = scoreResume(resume({ skills: [...resume().skills, 'Kubernetes', 'Kafka'] }), JOB).score;
+    expect(improved).toBeGreaterThan(base);
+  });
+
+  it('matches resume skills the lexicon does not know', () => {
+    const result = scoreResume(resume({ skills: ['Event Sourcing'] }), 'Requirements:\n- Event sourcing');
+    expect(result.requiredSkills).toEqual({ matched: ['Event Sourcing'], missing: [] });
+  });
+
+  it('counts a resume skill towards its parent skills', () => {
+    const result = scoreResume(resume({ skills: ['Next.js', 'Django'] }), 'Requirements:\n- JavaScript and Python');
+    expect(result.requiredSkills).toEqual({ matched: ['JavaScript', 'Python'], missing: [] });
+  });
+
+  it('does not read common words as skills', () => {
+    const result = scoreResume(resume({ skills: ['Go', 'Excel'] }), 'You will go far and excel here. Rest assured.');
+    expect(result.requiredSkills).toEqual({ matched: [], missing: [] });
+  });
+
+  it('caps keyword credit so repetition does not inflate the score', () => {
+    const stuffed = resume({ summary: 'payment '.repeat(50) });
+    const keyword = scoreResume(stuffed, 'payment payment payment platform').keywords.find((k) => k.term === 'payment');
+    expect(keyword).toMatchObject({ jobCount: 3 });
+    const density = scoreResume(stuffed, 'payment payment payment').components.find((c) => c.id === 'keywordDensity');
+    expect(density?.score).toBe(100);
+  });
+
+  it('leaves out components that do not apply and lists missing sections', () => {
+    const result = scoreResume(
+      { ...emptyParsedResume(), name: 'Jane', skills: ['TypeScript'] },
+      'Requirements:\n- TypeScript',
+    );
+    const byId = Object.fromEntries(result.components.map((c) => [c.id, c]));
+
+    expect(byId.preferredSkills.score).toBeNull();
+    expect(result.missingSections).toEqual([
+      'Contact details',
+      'Summary',
+      'Experience with bullet points',
+      'Education',
+      'Skills (at least 3)',
+    ]);
+    // Required 100 (45), density 50 (20), sections 0 (20), rescaled over 85
+    expect(result.score).toBe(Math.round((45 * 100 + 20 * byId.keywordDensity.score + 20 * 0) / 85));
+  });
+});
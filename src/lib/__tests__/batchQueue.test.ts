@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RetryableError, backoffDelay, runQueue, type TaskState } from '../batchQueue';
+
+const noSleep = () => Promise.resolve();
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+};
+
+describe('backoffDelay', () => {
+  it('doubles per attempt with jitter and a cap', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(1, 100, 1000)).toBe(100);
+    expect(backoffDelay(3, 100, 1000)).toBe(400);
+    expect(backoffDelay(10, 100, 1000)).toBe(1000);
+    vi.restoreAllMocks();
+  });
+
+  it('prefers an explicit retry-after, still capped', () => {
+    expect(backoffDelay(1, 100, 1000, 250)).toBe(250);
+    expect(backoffDelay(1, 100, 1000, 60_000)).toBe(1000);
+  });
+});
+
+describe('runQueue', () => {
+  it('returns results in item order', async () => {
+    const results = await runQueue([30, 10, 20], async (ms) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return ms * 2;
+    });
+    expect(results.map((result) => result.value)).toEqual([60, 20, 40]);
+    expect(results.every((result) => result.status === 'done' && result.attempts === 1)).toBe(true);
+  });
+
+  it('never runs more than the concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+    await runQueue(
+      Array.from({ length: 7 }, (_, i) => i),
+      async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+      },
+      { concurrency: 3 },
+    );
+    expect(peak).toBe(3);
+  });
+
+  it('retries retryable failures and gives up after maxRetries', async () => {
+    const calls: Record<string, number> = { flaky: 0, broken: 0 };
+    const results = await runQueue(
+      ['flaky', 'broken'],
+      async (item) => {
+        calls[item]++;
+        if (item === 'flaky' && calls[item] < 3) throw new RetryableError('busy');
+        if (item === 'broken') throw new RetryableError('down');
+        return item;
+      },
+      { maxRetries: 2, sleep: noSleep },
+    );
+
+    expect(results[0]).toMatchObject({ status: 'done', value: 'flaky', attempts: 3 });
+    expect(results[1]).toMatchObject({ status: 'failed', attempts: 3 });
+    expect(calls.broken).toBe(3);
+  });
+
+  it('does not retry other errors and keeps going', async () => {
+    let calls = 0;
+    const results = await runQueue(
+      ['bad', 'good'],
+      async (item) => {
+        calls++;
+        if (item === 'bad') throw new Error('invalid input');
+        return item;
+      },
+      { sleep: noSleep },
+    );
+    expect(calls).toBe(2);
+    expect(results.map((result) => result.status)).toEqual(['failed', 'done']);
+  });
+
+  it('uses classifyError to decide what is retryable', async () => {
+    let calls = 0;
+    const results = await runQueue(
+      [1],
+      async () => {
+        if (++calls === 1) throw Object.assign(new Error('gateway'), { status: 503 });
+        return 'ok';
+      },
+      {
+        sleep: noSleep,
+        classifyError: (error) => ((error as { status?: number }).status === 503 ? new RetryableError('gateway') : null),
+      },
+    );
+    expect(results[0]).toMatchObject({ status: 'done', attempts: 2 });
+  });
+
+  it('pauses every worker while a rate limit cools down', async () => {
+    const cooldown = deferred();
+    const sleeps: number[] = [];
+    const started: string[] = [];
+    let limited = false;
+
+    const run = runQueue(
+      ['a', 'b', 'c'],
+      async (item) => {
+        started.push(item);
+        if (item === 'a' && !limited) {
+          limited = true;
+          throw new RetryableError('rate limited', { rateLimited: true, retryAfterMs: 2000 });
+        }
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return item;
+      },
+      {
+        concurrency: 2,
+        sleep: (ms) => {
+          sleeps.push(ms);
+          return cooldown.promise;
+        },
+      },
+    );
+
+    // b was already running; c must wait for the cooldown
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(sleeps).toEqual([2000]);
+    expect(started).toEqual(['a', 'b']);
+
+    cooldown.resolve();
+    const results = await run;
+    expect(started.sort()).toEqual(['a', 'a', 'b', 'c']);
+    expect(results.map((result) => result.status)).toEqual(['done', 'done', 'done']);
+  });
+
+  it('reports state changes for each task', async () => {
+    const states: Array<[number, TaskState['status']]> = [];
+    let first = true;
+    await runQueue(
+      ['x'],
+      async () => {
+        if (first) {
+          first = false;
+          throw new RetryableError('busy', { retryAfterMs: 10 });
+        }
+      },
+      { sleep: noSleep, onTaskChange: (index, state) => states.push([index, state.status]) },
+    );
+    expect(states).toEqual([
+      [0, 'queued'],
+      [0, 'running'],
+      [0, 'retrying'],
+      [0, 'running'],
+      [0, 'done'],
+    ]);
+  });
+
+  it('cancels tasks that have not started once aborted', async () => {
+    const controller = new AbortController();
+    const results = await runQueue(
+      [1, 2, 3],
+      async (item) => {
+        if (item === 1) controller.abort();
+        return item;
+      },
+      { concurrency: 1, signal: controller.signal },
+    );
+    expect(results.map((result) => result.status)).toEqual(['done', 'cancelled', 'cancelled']);
+  });
+});
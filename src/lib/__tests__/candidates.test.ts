@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  emptyCandidateFilters,
+  filterCandidates,
+  nameFromFileName,
+  rankCandidates,
+  sortCandidates,
+  type Candidate,
+} from '../candidates';
+import { emptyParsedResume, type ParsedResume } from '../parsedResume';
+
+const JOB = `Backend Engineer
+
+Requirements:
+- TypeScript and Node.js
+- PostgreSQL
+- AWS
+
+Nice to have:
+- Kafka`;
+
+const candidate = (id: string, name: string, overrides: Partial<ParsedResume> = {}): Candidate => ({
+  id,
+  pool_id: 'pool-1',
+  user_id: 'user-1',
+  name,
+  email: `${id}@example.com`,
+  file_name: `${id}.pdf`,
+  file_path: `user-1/candidates/pool-1/${id}.pdf`,
+  file_type: 'application/pdf',
+  extracted_text: null,
+  parsed_data: {
+    ...emptyParsedResume(),
+    name,
+    email: `${id}@example.com`,
+    summary: 'Backend engineer.',
+    experience: [{ company: 'Acme', title: 'Engineer', duration: '2020 - Present', location: '', bullets: ['Built APIs'] }],
+    education: [{ institution: 'TU Berlin', degree: 'BSc', field: 'CS', year: '2015' }],
+    ...overrides,
+  },
+  created_at: '2025-12-06T09:00:00Z',
+  updated_at: '2025-12-06T09:00:00Z',
+});
+
+const pool = [
+  candidate('ada', 'Ada', { skills: ['TypeScript', 'Node', 'Postgres', 'AWS', 'Kafka'] }),
+  candidate('bob', 'Bob', { skills: ['JavaScript'] }),
+  candidate('cy', 'Cy', { skills: ['TypeScript', 'Node.js', 'PostgreSQL'] }),
+];
+
+describe('nameFromFileName', () => {
+  it('turns a file name into a readable fallback name', () => {
+    expect(nameFromFileName('jane_doe-cv.pdf')).toBe('jane doe cv');
+    expect(nameFromFileName('.pdf')).toBe('.pdf');
+  });
+});
+
+describe('rankCandidates', () => {
+  it('ranks by score with matched and missing posting skills', () => {
+    const ranked = rankCandidates(pool, JOB);
+    expect(ranked.map((entry) => entry.candidate.id)).toEqual(['ada', 'cy', 'bob']);
+
+    const [ada, cy] = ranked;
+    expect(ada.missingSkills).toEqual([]);
+    expect(cy.matchedSkills).toEqual(expect.arrayContaining(['TypeScript', 'Node.js', 'PostgreSQL']));
+    expect(cy.missingSkills).toEqual(expect.arrayContaining(['AWS', 'Kafka']));
+  });
+
+  it('is deterministic', () => {
+    expect(rankCandidates(pool, JOB).map((entry) => entry.score.score)).toEqual(
+      rankCandidates([...pool].reverse(), JOB).map((entry) => entry.score.score),
+    );
+  });
+});
+
+describe('sortCandidates', () => {
+  const ranked = rankCandidates(pool, JOB);
+
+  it('sorts by name or skill counts in either direction', () => {
+    expect(sortCandidates(ranked, 'name', 'desc').map((entry) => entry.candidate.name)).toEqual(['Cy', 'Bob', 'Ada']);
+    expect(sortCandidates(ranked, 'missing', 'asc')[0].candidate.name).toBe('Ada');
+    expect(sortCandidates(ranked, 'score', 'asc')[0].candidate.name).toBe('Bob');
+  });
+
+  it('does not modify its input', () => {
+    const order = ranked.map((entry) => entry.candidate.id);
+    sortCandidates(ranked, 'name', 'desc');
+    expect(ranked.map((entry) => entry.candidate.id)).toEqual(order);
+  });
+});
+
+describe('filterCandidates', () => {
+  const ranked = rankCandidates(pool, JOB);
+  const ids = (filters: Partial<ReturnType<typeof emptyCandidateFilters>>) =>
+    filterCandidates(ranked, { ...emptyCandidateFilters(), ...filters }).map((entry) => entry.candidate.id);
+
+  it('keeps everyone without filters', () => {
+    expect(ids({})).toEqual(['ada', 'cy', 'bob']);
+  });
+
+  it('searches name, email and file name', () => {
+    expect(ids({ search: 'CY@EXAMPLE' })).toEqual(['cy']);
+    expect(ids({ search: 'bob.pdf' })).toEqual(['bob']);
+  });
+
+  it('applies a minimum score', () => {
+    const adaScore = ranked[0].score.score;
+    expect(ids({ minScore: adaScore })).toEqual(['ada']);
+  });
+
+  it('requires every selected skill, matching aliases', () => {
+    expect(ids({ skills: ['Kafka'] })).toEqual(['ada']);
+    expect(ids({ skills: ['postgres', 'TypeScript'] })).toEqual(['ada', 'cy']);
+  });
+});
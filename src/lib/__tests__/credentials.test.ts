@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SIGNED_IN_PATH,
+  authRedirectError,
+  emailSchema,
+  passwordSchema,
+  safeRedirectPath,
+  signInPath,
+} from '../credentials';
+
+describe('credential schemas', () => {
+  it('trims valid email addresses', () => {
+    expect(emailSchema.parse(' jane@example.com ')).toBe('jane@example.com');
+    expect(emailSchema.safeParse('jane@').success).toBe(false);
+  });
+
+  it('requires passwords of at least 6 characters', () => {
+    expect(passwordSchema.safeParse('12345').success).toBe(false);
+    expect(passwordSchema.safeParse('123456').success).toBe(true);
+  });
+});
+
+describe('authRedirectError', () => {
+  it('reads the error description from the hash of implicit-flow links', () => {
+    const hash = '#error=access_denied&error_code=otp_expired&error_description=Email+link+is+invalid+or+has+expired';
+    expect(authRedirectError({ hash, search: '' })).toBe('Email link is invalid or has expired');
+  });
+
+  it('reads errors from the query string of PKCE links', () => {
+    expect(authRedirectError({ hash: '', search: '?error=access_denied' })).toBe('access denied');
+  });
+
+  it('returns null for recovery links without an error', () => {
+    expect(authRedirectError({ hash: '#access_token=abc&type=recovery', search: '' })).toBeNull();
+    expect(authRedirectError({ hash: '', search: '' })).toBeNull();
+  });
+});
+
+describe('safeRedirectPath', () => {
+  it('keeps in-app paths with their query and hash', () => {
+    expect(safeRedirectPath('/resumes/abc?tab=versions#top')).toBe('/resumes/abc?tab=versions#top');
+  });
+
+  it('falls back to the dashboard for missing or off-site targets', () => {
+    expect(safeRedirectPath(null)).toBe(DEFAULT_SIGNED_IN_PATH);
+    expect(safeRedirectPath('https://evil.example')).toBe(DEFAULT_SIGNED_IN_PATH);
+    expect(safeRedirectPath('//evil.example')).toBe(DEFAULT_SIGNED_IN_PATH);
+    expect(safeRedirectPath('/\\evil.example')).toBe(DEFAULT_SIGNED_IN_PATH);
+  });
+
+  it('never redirects back to the auth pages', () => {
+    expect(safeRedirectPath('/auth')).toBe(DEFAULT_SIGNED_IN_PATH);
+    expect(safeRedirectPath('/auth/reset')).toBe(DEFAULT_SIGNED_IN_PATH);
+    expect(safeRedirectPath('/authors')).toBe('/authors');
+  });
+});
+
+describe('signInPath', () => {
+  it('round-trips the requested location through the redirect parameter', () => {
+    const path = signInPath('/analyze?resume=1&job=2');
+    const redirect = new URLSearchParams(path.split('?')[1]).get('redirect');
+    expect(path.startsWith('/auth?')).toBe(true);
+    expect(safeRedirectPath(redirect)).toBe('/analyze?resume=1&job=2');
+  });
+
+  it('omits the parameter for the default page', () => {
+    expect(signInPath(DEFAULT_SIGNED_IN_PATH)).toBe('/auth');
+  });
+});
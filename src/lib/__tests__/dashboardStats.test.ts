@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  atsDistribution,
+  matchScoreTrend,
+  resumeProgression,
+  topMissingSkills,
+  type ScorePoint,
+} from '../dashboardStats';
+
+// Local noon keeps the day stable in any test timezone
+const at = (day: string, hour = 12) => new Date(`${day}T${String(hour).padStart(2, '0')}:00:00`).toISOString();
+
+const point = (resume_id: string, match_score: number | null, created_at: string, ats_score: number | null = null): ScorePoint => ({
+  resume_id,
+  match_score,
+  ats_score,
+  created_at,
+});
+
+describe('matchScoreTrend', () => {
+  it('averages scores per day, oldest first', () => {
+    const trend = matchScoreTrend([
+      point('a', 80, at('2025-12-03'), 70),
+      point('a', 60, at('2025-12-01', 9), 50),
+      point('b', 71, at('2025-12-01', 18)),
+    ]);
+
+    expect(trend).toEqual([
+      { date: '2025-12-01', matchScore: 66, atsScore: 50, analyses: 2 },
+      { date: '2025-12-03', matchScore: 80, atsScore: 70, analyses: 1 },
+    ]);
+  });
+
+  it('skips analyses without a match score', () => {
+    expect(matchScoreTrend([point('a', null, at('2025-12-01'))])).toEqual([]);
+  });
+
+  it('leaves the ATS average empty when no analysis that day had one', () => {
+    expect(matchScoreTrend([point('a', 50, at('2025-12-01'))])[0].atsScore).toBeNull();
+  });
+});
+
+describe('atsDistribution', () => {
+  it('returns all ten buckets with empty ones at zero', () => {
+    const buckets = atsDistribution([
+      { bucket_start: 70, analysis_count: 3 },
+      { bucket_start: 90, analysis_count: 1 },
+    ]);
+
+    expect(buckets).toHaveLength(10);
+    expect(buckets[0]).toEqual({ range: '0-9', analyses: 0 });
+    expect(buckets[7]).toEqual({ range: '70-79', analyses: 3 });
+    expect(buckets[9]).toEqual({ range: '90-100', analyses: 1 });
+  });
+});
+
+describe('topMissingSkills', () => {
+  it('merges spelling variants under the canonical name', () => {
+    const skills = topMissingSkills([
+      { skill: 'ReactJS', analysis_count: 2 },
+      { skill: 'React.js', analysis_count: 1 },
+      { skill: 'Docker', analysis_count: 2 },
+    ]);
+
+    expect(skills).toEqual([
+      { skill: 'React', analyses: 3 },
+      { skill: 'Docker', analyses: 2 },
+    ]);
+  });
+
+  it('ignores blank skills and applies the limit', () => {
+    const skills = topMissingSkills(
+      [
+        { skill: ' ', analysis_count: 9 },
+        { skill: null, analysis_count: 9 },
+        { skill: 'Go', analysis_count: 1 },
+        { skill: 'Rust', analysis_count: 4 },
+        { skill: 'Kotlin', analysis_count: 2 },
+      ],
+      2,
+    );
+
+    expect(skills.map((s) => s.skill)).toEqual(['Rust', 'Kotlin']);
+  });
+});
+
+describe('resumeProgression', () => {
+  const points = [
+    point('a', 70, at('2025-12-02')),
+    point('a', 55, at('2025-12-01')),
+    point('a', 82, at('2025-12-03')),
+    point('b', 60, at('2025-12-02')),
+    point('c', 40, at('2025-12-01')),
+  ];
+
+  it('lines up each resume by attempt in chronological order', () => {
+    const progression = resumeProgression(points, { a: 'a.pdf', b: 'b.pdf' });
+
+    expect(progression.series.map((s) => s.label)).toEqual(['a.pdf', 'b.pdf', 'Deleted resume']);
+    expect(progression.data).toEqual([
+      { attempt: 1, r0: 55, r1: 60, r2: 40 },
+      { attempt: 2, r0: 70 },
+      { attempt: 3, r0: 82 },
+    ]);
+  });
+
+  it('keeps the resumes with the most analyses', () => {
+    const progression = resumeProgression(points, {}, 1);
+
+    expect(progression.series).toEqual([{ resumeId: 'a', label: 'Deleted resume', key: 'r0' }]);
+  });
+
+  it('is empty without scored analyses', () => {
+    expect(resumeProgression([], {})).toEqual({ series: [], data: [] });
+  });
+});
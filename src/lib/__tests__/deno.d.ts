@@ -0,0 +1,7 @@
+// The edge function modules under test reference the Deno runtime; tests
+// provide it with vi.stubGlobal, so only the parts they use are declared.
+declare const Deno: {
+  env: { get(key: string): string | undefined };
+  readTextFile(path: string | URL): Promise<string>;
+  cwd(): string;
+};
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { escapeXml, renderResumeDocx } from '../exportDocx';
+import { extractDocxText } from '../extractDocx';
+import { DEFAULT_PDF_OPTIONS } from '../exportPdf';
+import { emptyParsedResume, type ParsedResume } from '../parsedResume';
+
+const resume = (): ParsedResume => ({
+  ...emptyParsedResume(),
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  phone: '+1 555 0100',
+  location: 'Berlin',
+  links: ['https://jane.dev', 'github.com/jane'],
+  summary: 'Backend engineer & payments specialist.',
+  skills: ['TypeScript', 'Postgres'],
+  experience: [
+    {
+      company: 'Acme',
+      title: 'Senior Engineer',
+      duration: '2020 - Present',
+      location: 'Berlin',
+      bullets: ['Led the <billing> migration', 'Mentored 4 engineers'],
+    },
+  ],
+  education: [{ institution: 'TU Berlin', degree: 'BSc', field: 'Computer Science', year: '2015' }],
+  projects: [{ name: 'resume-ai', description: 'Resume tooling', technologies: ['Deno', 'React'] }],
+});
+
+const readPart = async (bytes: Uint8Array, path: string) => {
+  const zip = await JSZip.loadAsync(bytes);
+  return zip.file(path)!.async('string');
+};
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+describe('escapeXml', () => {
+  it('escapes markup characters', () => {
+    expect(escapeXml('a < b & "c" > d')).toBe('a &lt; b &amp; &quot;c&quot; &gt; d');
+  });
+
+  it('drops control characters XML cannot contain', () => {
+    expect(escapeXml('a\u0000b\u000Bc\td')).toBe('abc\td');
+  });
+});
+
+describe('renderResumeDocx', () => {
+  it('round-trips through the DOCX importer in reading order', async () => {
+    const text = await extractDocxText(await renderResumeDocx(resume()));
+
+    expect(text.split('\n')).toEqual([
+      'Jane Doe',
+      'jane@example.com | +1 555 0100 | Berlin | https://jane.dev | github.com/jane',
+      'Summary',
+      'Backend engineer & payments specialist.',
+      'Experience',
+      'Senior Engineer',
+      'Acme | Berlin | 2020 - Present',
+      '• Led the <billing> migration',
+      '• Mentored 4 engineers',
+      'Education',
+      'BSc in Computer Science',
+      'TU Berlin | 2015',
+      'Projects',
+      'resume-ai',
+      'Deno, React',
+      'Resume tooling',
+      'Skills',
+      'TypeScript, Postgres',
+    ]);
+  });
+
+  it('writes well-formed XML parts', async () => {
+    const bytes = await renderResumeDocx(resume());
+    const zip = await JSZip.loadAsync(bytes);
+
+    for (const path of Object.keys(zip.files).filter((p) => !zip.files[p].dir)) {
+      const xml = await zip.file(path)!.async('string');
+      expect(parseXml(xml).getElementsByTagName('parsererror'), path).toHaveLength(0);
+    }
+  });
+
+  it('uses heading and list styles instead of visual formatting', async () => {
+    const bytes = await renderResumeDocx(resume());
+    const documentXml = await readPart(bytes, 'word/document.xml');
+    const stylesXml = await readPart(bytes, 'word/styles.xml');
+
+    expect(documentXml).toContain('<w:pStyle w:val="Heading1"/>');
+    expect(documentXml).toContain('<w:pStyle w:val="Heading2"/>');
+    expect(documentXml).toContain('<w:pStyle w:val="ListBullet"/><w:numPr>');
+    expect(documentXml).not.toContain('<w:tab/>');
+    expect(documentXml).not.toContain('<w:tbl>');
+    for (const styleId of ['Title', 'Heading1', 'Heading2', 'ListBullet']) {
+      expect(stylesXml).toContain(`w:styleId="${styleId}"`);
+    }
+    expect(await readPart(bytes, 'word/numbering.xml')).toContain('<w:numFmt w:val="bullet"/>');
+  });
+
+  it('links URLs through external hyperlink relationships', async () => {
+    const bytes = await renderResumeDocx(resume());
+    const rels = await readPart(bytes, 'word/_rels/document.xml.rels');
+
+    expect(rels).toContain('Target="https://jane.dev" TargetMode="External"');
+    expect(rels).not.toContain('github.com/jane');
+  });
+
+  it('applies page size, margins and template fonts', async () => {
+    const bytes = await renderResumeDocx(resume(), { template: 'modern', pageSize: 'a4', margins: 'wide' });
+
+    const documentXml = await readPart(bytes, 'word/document.xml');
+    expect(documentXml).toContain('<w:pgSz w:w="11906" w:h="16838"/>');
+    expect(documentXml).toContain('w:left="1440"');
+    expect(await readPart(bytes, 'word/styles.xml')).toContain('w:ascii="Calibri"');
+  });
+
+  it('produces identical bytes for identical input', async () => {
+    const first = await renderResumeDocx(resume(), DEFAULT_PDF_OPTIONS);
+    const second = await renderResumeDocx(resume(), DEFAULT_PDF_OPTIONS);
+    expect(Buffer.from(first).equals(Buffer.from(second))).toBe(true);
+  });
+
+  it('omits empty sections', async () => {
+    const text = await extractDocxText(await renderResumeDocx({ ...emptyParsedResume(), name: 'Jane' }));
+    expect(text).toBe('Jane');
+  });
+});
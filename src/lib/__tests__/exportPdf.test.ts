@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PDF_OPTIONS,
+  PAGE_SIZES,
+  exportFileName,
+  layoutResume,
+  renderResumePdf,
+  toWinAnsi,
+  wrapText,
+  type MeasureText,
+  type ResumeTemplate,
+  type TextOp,
+} from '../exportPdf';
+import { emptyParsedResume, type ParsedResume } from '../parsedResume';
+
+// Fixed-width measuring keeps layout snapshots independent of font metrics
+const measure: MeasureText = (text, _font, size) => text.length * size * 0.5;
+
+const resume = (): ParsedResume => ({
+  ...emptyParsedResume(),
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  phone: '+1 555 0100',
+  location: 'Berlin',
+  links: ['https://jane.dev'],
+  summary: 'Backend engineer with eight years of experience building billing and payments systems at scale.',
+  skills: ['TypeScript', 'Postgres', 'Kubernetes'],
+  experience: [
+    {
+      company: 'Acme',
+      title: 'Senior Engineer',
+      duration: '2020 - Present',
+      location: 'Berlin',
+      bullets: ['Led the migration of the billing platform to an event-driven architecture', 'Mentored 4 engineers'],
+    },
+  ],
+  education: [{ institution: 'TU Berlin', degree: 'BSc', field: 'Computer Science', year: '2015' }],
+  projects: [{ name: 'resume-ai', description: 'Resume tooling', technologies: ['Deno', 'React'] }],
+});
+
+const texts = (ops: { kind: string }[]) => ops.filter((op): op is TextOp => op.kind === 'text').map((op) => op.text);
+
+describe('wrapText', () => {
+  const byChar = (text: string) => text.length;
+
+  it('wraps on word boundaries', () => {
+    expect(wrapText('one two three four', 9, byChar)).toEqual(['one two', 'three', 'four']);
+  });
+
+  it('breaks words longer than the line', () => {
+    expect(wrapText('abcdefghij', 4, byChar)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('returns no lines for blank text', () => {
+    expect(wrapText('   ', 10, byChar)).toEqual([]);
+  });
+});
+
+describe('toWinAnsi', () => {
+  it('keeps ASCII, Latin-1 and typographic punctuation', () => {
+    const text = 'Café – “quoted” • 100€';
+    expect(toWinAnsi(text)).toBe(text);
+  });
+
+  it('strips accents that the standard fonts cannot draw', () => {
+    expect(toWinAnsi('Şahin Ćosić')).toBe('Sahin Cosic');
+  });
+
+  it('replaces characters with no Latin fallback', () => {
+    expect(toWinAnsi('東京 ł')).toBe('?? ?');
+  });
+
+  it('turns tabs and newlines into spaces', () => {
+    expect(toWinAnsi('a\tb\nc')).toBe('a b c');
+  });
+});
+
+describe('exportFileName', () => {
+  it('slugifies the name', () => {
+    expect(exportFileName({ ...resume(), name: 'José O\'Brien' }, 'pdf')).toBe('jose-o-brien-resume.pdf');
+    expect(exportFileName(emptyParsedResume(), 'docx')).toBe('resume.docx');
+  });
+});
+
+describe('layoutResume', () => {
+  it.each<ResumeTemplate>(['classic', 'modern', 'compact'])('lays out the %s template deterministically', (template) => {
+    const options = { ...DEFAULT_PDF_OPTIONS, template };
+    const pages = layoutResume(resume(), options, measure);
+    expect(layoutResume(resume(), options, measure)).toEqual(pages);
+    expect(pages).toMatchSnapshot();
+  });
+
+  it('keeps sections in reading order', () => {
+    const [page] = layoutResume(resume(), DEFAULT_PDF_OPTIONS, measure);
+    const headings = texts(page.ops).filter((text) => /^[A-Z]+$/.test(text));
+    expect(headings).toEqual(['SUMMARY', 'EXPERIENCE', 'EDUCATION', 'PROJECTS', 'SKILLS']);
+  });
+
+  it('centers the header in the classic template', () => {
+    const [page] = layoutResume(resume(), DEFAULT_PDF_OPTIONS, measure);
+    const name = page.ops[0] as TextOp;
+    const [width] = PAGE_SIZES.letter;
+    expect(name.text).toBe('Jane Doe');
+    expect(name.x + measure(name.text, 'bold', name.size) / 2).toBeCloseTo(width / 2, 1);
+  });
+
+  it('uses the selected page size', () => {
+    const [page] = layoutResume(resume(), { ...DEFAULT_PDF_OPTIONS, pageSize: 'a4' }, measure);
+    expect([page.width, page.height]).toEqual(PAGE_SIZES.a4);
+  });
+
+  it('flows long resumes onto more pages within the margins', () => {
+    const long = resume();
+    long.experience = Array.from({ length: 12 }, (_, i) => ({
+      ...long.experience[0],
+      company: `Company ${i}`,
+      bullets: Array.from({ length: 5 }, (_, b) => `Delivered project ${b} with measurable impact on revenue`),
+    }));
+    const margin = 54;
+    const pages = layoutResume(long, DEFAULT_PDF_OPTIONS, measure);
+
+    expect(pages.length).toBeGreaterThan(1);
+    for (const page of pages) {
+      for (const op of page.ops) {
+        expect(op.y).toBeGreaterThanOrEqual(margin - 1);
+        expect(op.y).toBeLessThanOrEqual(page.height - margin);
+      }
+    }
+    expect(texts(pages.flatMap((page) => page.ops)).filter((text) => text.startsWith('Delivered'))).toHaveLength(60);
+  });
+
+  it('narrower margins fit more text per line', () => {
+    const longSummary = { ...resume(), summary: 'word '.repeat(200).trim() };
+    const lineCount = (margins: 'narrow' | 'wide') =>
+      texts(layoutResume(longSummary, { ...DEFAULT_PDF_OPTIONS, margins }, measure)[0].ops).filter((t) =>
+        t.startsWith('word'),
+      ).length;
+    expect(lineCount('narrow')).toBeLessThan(lineCount('wide'));
+  });
+
+  it('skips empty sections', () => {
+    const [page] = layoutResume({ ...emptyParsedResume(), name: 'Jane' }, DEFAULT_PDF_OPTIONS, measure);
+    expect(texts(page.ops)).toEqual(['Jane']);
+  });
+});
+
+describe('renderResumePdf', () => {
+  it('produces identical bytes for identical input', async () => {
+    const first = await renderResumePdf(resume(), { ...DEFAULT_PDF_OPTIONS, template: 'modern' });
+    const second = await renderResumePdf(resume(), { ...DEFAULT_PDF_OPTIONS, template: 'modern' });
+
+    expect(new TextDecoder('latin1').decode(first.slice(0, 5))).toBe('%PDF-');
+    expect(Buffer.from(first).equals(Buffer.from(second))).toBe(true);
+  });
+
+  it('does not embed timestamps', async () => {
+    const bytes = await renderResumePdf(resume());
+    expect(new TextDecoder('latin1').decode(bytes)).not.toContain('CreationDate');
+  });
+
+  it('renders text outside WinAnsi instead of throwing', async () => {
+    const bytes = await renderResumePdf({ ...resume(), name: '李雷 Łukasz' });
+    expect(bytes.length).toBeGreaterThan(0);
+  });
+});
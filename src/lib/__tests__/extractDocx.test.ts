@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { docxXmlToText, extractDocxText, parseRelationships } from '../extractDocx';
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+const documentXml = (body: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${W}><w:body>${body}</w:body></w:document>`;
+
+const para = (text: string) => `<w:p><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+const listItem = (text: string, level = 0) =>
+  `<w:p><w:pPr><w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="1"/></w:numPr></w:pPr><w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+const buildDocx = async (parts: Record<string, string>) => {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(parts)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'uint8array' });
+};
+
+describe('docxXmlToText', () => {
+  it('should keep paragraphs on separate lines in order', () => {
+    const xml = documentXml(para('Jane Doe') + para('Senior Engineer'));
+    expect(docxXmlToText(xml)).toBe('Jane Doe\nSenior Engineer');
+  });
+
+  it('should join runs within a paragraph', () => {
+    const xml = documentXml('<w:p><w:r><w:t>Hello </w:t></w:r><w:r><w:rPr><w:b/></w:rPr><w:t>World</w:t></w:r></w:p>');
+    expect(docxXmlToText(xml)).toBe('Hello World');
+  });
+
+  it('should convert tabs and line breaks', () => {
+    const xml = documentXml('<w:p><w:r><w:t>Acme</w:t><w:tab/><w:t>2020</w:t><w:br/><w:t>Next</w:t></w:r></w:p>');
+    expect(docxXmlToText(xml)).toBe('Acme\t2020\nNext');
+  });
+
+  it('should prefix list items with bullets and indent nested levels', () => {
+    const xml = documentXml(listItem('Led team') + listItem('Hired 3 engineers', 1));
+    expect(docxXmlToText(xml)).toBe('• Led team\n  • Hired 3 engineers');
+  });
+
+  it('should treat List Bullet styled paragraphs as list items', () => {
+    const xml = documentXml('<w:p><w:pPr><w:pStyle w:val="ListBullet"/></w:pPr><w:r><w:t>Shipped v2</w:t></w:r></w:p>');
+    expect(docxXmlToText(xml)).toBe('• Shipped v2');
+  });
+
+  it('should render table rows with cells separated by pipes', () => {
+    const cell = (text: string) => `<w:tc>${para(text)}</w:tc>`;
+    const xml = documentXml(
+      para('Skills') +
+        `<w:tbl><w:tr>${cell('TypeScript')}${cell('React')}</w:tr><w:tr>${cell('AWS')}${cell('')}</w:tr></w:tbl>` +
+        para('Experience'),
+    );
+    expect(docxXmlToText(xml)).toBe('Skills\nTypeScript | React\nAWS\nExperience');
+  });
+
+  it('should append hyperlink targets from relationships', () => {
+    const xml = documentXml('<w:p><w:hyperlink r:id="rId5"><w:r><w:t>Portfolio</w:t></w:r></w:hyperlink></w:p>');
+    expect(docxXmlToText(xml, { rId5: 'https://jane.dev' })).toBe('Portfolio (https://jane.dev)');
+  });
+
+  it('should not duplicate a URL that is already the link text', () => {
+    const xml = documentXml('<w:p><w:hyperlink r:id="rId5"><w:r><w:t>https://jane.dev</w:t></w:r></w:hyperlink></w:p>');
+    expect(docxXmlToText(xml, { rId5: 'https://jane.dev' })).toBe('https://jane.dev');
+  });
+
+  it('should skip deleted tracked changes', () => {
+    const xml = documentXml('<w:p><w:r><w:t>Kept</w:t></w:r><w:del><w:r><w:delText>Removed</w:delText></w:r></w:del></w:p>');
+    expect(docxXmlToText(xml)).toBe('Kept');
+  });
+
+  it('should read content inside content controls', () => {
+    const xml = documentXml(`<w:sdt><w:sdtContent>${para('Inside control')}</w:sdtContent></w:sdt>`);
+    expect(docxXmlToText(xml)).toBe('Inside control');
+  });
+
+  it('should drop empty paragraphs', () => {
+    const xml = documentXml(para('A') + '<w:p/>' + para('   ') + para('B'));
+    expect(docxXmlToText(xml)).toBe('A\nB');
+  });
+
+  it('should throw on malformed XML', () => {
+    expect(() => docxXmlToText('<w:document')).toThrow('malformed XML');
+  });
+});
+
+describe('parseRelationships', () => {
+  it('should map relationship ids to targets', () => {
+    const rels = `<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+      <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="https://example.com" TargetMode="External"/>
+    </Relationships>`;
+    expect(parseRelationships(rels)).toEqual({ rId1: 'https://example.com' });
+  });
+
+  it('should return an empty map for missing rels', () => {
+    expect(parseRelationships(undefined)).toEqual({});
+  });
+});
+
+describe('extractDocxText', () => {
+  it('should extract headers, body and footers in reading order', async () => {
+    const header = `<w:hdr ${W}>${para('Jane Doe | jane@example.com')}</w:hdr>`;
+    const footer = `<w:ftr ${W}>${para('References available on request')}</w:ftr>`;
+    const data = await buildDocx({
+      'word/document.xml': documentXml(para('Summary') + listItem('Built things')),
+      'word/header1.xml': header,
+      'word/header2.xml': header,
+      'word/footer1.xml': footer,
+    });
+
+    const text = await extractDocxText(data);
+    expect(text).toBe(
+      'Jane Doe | jane@example.com\n\nSummary\n• Built things\n\nReferences available on request',
+    );
+  });
+
+  it('should resolve hyperlinks using the document relationships', async () => {
+    const data = await buildDocx({
+      'word/document.xml': documentXml('<w:p><w:hyperlink r:id="rId9"><w:r><w:t>GitHub</w:t></w:r></w:hyperlink></w:p>'),
+      'word/_rels/document.xml.rels': `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId9" Target="https://github.com/jane"/></Relationships>`,
+    });
+
+    expect(await extractDocxText(data)).toBe('GitHub (https://github.com/jane)');
+  });
+
+  it('should preserve multi-byte characters', async () => {
+    const data = await buildDocx({ 'word/document.xml': documentXml(para('José García — 王小明 👋')) });
+    expect(await extractDocxText(data)).toBe('José García — 王小明 👋');
+  });
+
+  it('should reject archives without word/document.xml', async () => {
+    const data = await buildDocx({ 'other.xml': '<x/>' });
+    await expect(extractDocxText(data)).rejects.toThrow('word/document.xml is missing');
+  });
+
+  it('should reject data that is not a zip archive', async () => {
+    const data = new TextEncoder().encode('not a zip');
+    await expect(extractDocxText(data)).rejects.toThrow('could not open the archive');
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessPageQuality,
+  detectColumnSplit,
+  layoutPage,
+  qualityWarnings,
+  toTextItems,
+  type PdfTextItem,
+} from '../extractPdf';
+
+const PAGE_WIDTH = 612;
+
+// Approximates Helvetica: average glyph width is roughly half the font size
+const item = (str: string, x: number, y: number, fontSize = 10): PdfTextItem => ({
+  str,
+  x,
+  y,
+  width: str.length * fontSize * 0.5,
+  fontSize,
+});
+
+describe('toTextItems', () => {
+  it('should read position and font size from the pdf.js transform', () => {
+    const items = toTextItems([
+      { str: 'Hello', transform: [12, 0, 0, 12, 72, 700], width: 30, height: 12 },
+    ]);
+    expect(items).toEqual([{ str: 'Hello', x: 72, y: 700, width: 30, fontSize: 12 }]);
+  });
+
+  it('should drop marked content and empty strings', () => {
+    const items = toTextItems([
+      { type: 'beginMarkedContent' },
+      { str: '', transform: [10, 0, 0, 10, 0, 0], width: 0 },
+    ]);
+    expect(items).toEqual([]);
+  });
+});
+
+describe('layoutPage', () => {
+  it('should rebuild lines from fragments on the same baseline', () => {
+    const layout = layoutPage(
+      [item('Senior', 72, 700), item('Engineer', 110, 700), item('Acme Corp', 72, 686)],
+      PAGE_WIDTH,
+    );
+    expect(layout.lines.map((l) => l.text)).toEqual(['Senior Engineer', 'Acme Corp']);
+    expect(layout.columns).toBe(1);
+  });
+
+  it('should not insert spaces between touching fragments', () => {
+    const first = item('Java', 72, 700);
+    const layout = layoutPage([first, item('Script', first.x + first.width, 700)], PAGE_WIDTH);
+    expect(layout.lines[0].text).toBe('JavaScript');
+  });
+
+  it('should order lines top to bottom regardless of content-stream order', () => {
+    const layout = layoutPage([item('Third', 72, 600), item('First', 72, 700), item('Second', 72, 650)], PAGE_WIDTH);
+    expect(layout.lines.map((l) => l.text)).toEqual(['First', 'Second', 'Third']);
+  });
+
+  it('should normalize bullet glyphs including private-use Symbol bullets', () => {
+    const layout = layoutPage(
+      [item('\uF0B7', 72, 700), item('Shipped v2', 84, 700), item('▪ Cut costs 30%', 72, 686)],
+      PAGE_WIDTH,
+    );
+    expect(layout.lines.map((l) => l.text)).toEqual(['• Shipped v2', '• Cut costs 30%']);
+  });
+
+  it('should mark section headings by name, capitalization and font size', () => {
+    const layout = layoutPage(
+      [
+        item('Jane Doe', 72, 740, 18),
+        item('Experience', 72, 700),
+        item('Built a payments platform serving millions', 72, 686),
+        item('OPEN SOURCE', 72, 660),
+        item('Maintainer of a popular library', 72, 646),
+      ],
+      PAGE_WIDTH,
+    );
+    const headings = layout.lines.filter((l) => l.isHeading).map((l) => l.text);
+    expect(headings).toEqual(['Jane Doe', 'Experience', 'OPEN SOURCE']);
+    expect(layout.text).toContain('## Experience\nBuilt a payments platform serving millions');
+  });
+
+  it('should not mark bullets or sentences as headings', () => {
+    const layout = layoutPage(
+      [item('• LEADERSHIP', 72, 700), item('Delivered on time.', 72, 686)],
+      PAGE_WIDTH,
+    );
+    expect(layout.lines.every((l) => !l.isHeading)).toBe(true);
+  });
+
+  it('should read a two-column page column by column', () => {
+    // A centered header spans the gutter
+    const items: PdfTextItem[] = [item('Jane Doe — Staff Engineer — jane@example.com — +1 555 0100', 150, 760)];
+    // Left column: experience. Right column: skills. Rows are interleaved in the content stream.
+    const left = ['Experience', 'Acme Corp, Staff Engineer', 'Led migration to microservices', 'Mentored six engineers', 'Globex, Senior Engineer', 'Built billing pipeline'];
+    const right = ['Skills', 'TypeScript and React', 'PostgreSQL', 'Kubernetes on AWS', 'Education', 'BSc Computer Science'];
+    for (let i = 0; i < 6; i++) {
+      items.push(item(left[i], 72, 720 - i * 14));
+      items.push(item(right[i], 400, 720 - i * 14 - 3));
+    }
+
+    const layout = layoutPage(items, PAGE_WIDTH);
+    expect(layout.columns).toBe(2);
+    expect(layout.lines.map((l) => l.text)).toEqual([
+      'Jane Doe — Staff Engineer — jane@example.com — +1 555 0100',
+      ...left,
+      ...right,
+    ]);
+    expect(layout.lines[0].column).toBe('full');
+    expect(layout.lines[1].column).toBe('left');
+    expect(layout.lines[7].column).toBe('right');
+  });
+
+  it('should separate columns and paragraphs with blank lines in text output', () => {
+    const items: PdfTextItem[] = [];
+    for (let i = 0; i < 5; i++) {
+      items.push(item(`Left column line number ${i}`, 72, 700 - i * 14));
+      items.push(item(`Right column entry ${i}`, 380, 700 - i * 14 - 4));
+    }
+    const layout = layoutPage(items, PAGE_WIDTH);
+    expect(layout.text).toContain('Left column line number 4\n\nRight column entry 0');
+  });
+
+  it('should return empty output for pages without text', () => {
+    const layout = layoutPage([item('   ', 72, 700)], PAGE_WIDTH);
+    expect(layout).toEqual({ lines: [], columns: 1, text: '' });
+  });
+});
+
+describe('detectColumnSplit', () => {
+  it('should return null for single-column prose', () => {
+    const items = Array.from({ length: 12 }, (_, i) =>
+      item('This is a full width line of resume text that spans the page', 72, 700 - i * 14),
+    );
+    expect(detectColumnSplit(items, PAGE_WIDTH)).toBeNull();
+  });
+
+  it('should not treat right-aligned dates as a second column', () => {
+    const items: PdfTextItem[] = [];
+    for (let i = 0; i < 6; i++) {
+      items.push(item(`Senior Engineer at Company ${i}`, 72, 700 - i * 40));
+      items.push(item('2019 – 2021', 480, 700 - i * 40));
+      items.push(item('Improved reliability of the core platform', 72, 686 - i * 40));
+    }
+    expect(detectColumnSplit(items, PAGE_WIDTH)).toBeNull();
+  });
+
+  it('should find the gutter between two columns', () => {
+    const items: PdfTextItem[] = [];
+    for (let i = 0; i < 8; i++) {
+      items.push(item('Left column content', 72, 700 - i * 14));
+      items.push(item('Right column content here', 360, 695 - i * 14));
+    }
+    const split = detectColumnSplit(items, PAGE_WIDTH);
+    expect(split).not.toBeNull();
+    expect(split!).toBeGreaterThan(72 + 19 * 5);
+    expect(split!).toBeLessThan(360);
+  });
+});
+
+describe('assessPageQuality', () => {
+  it('should report ok for pages with plenty of text', () => {
+    const layout = layoutPage([item('A'.repeat(80), 72, 700)], PAGE_WIDTH);
+    expect(assessPageQuality(1, layout)).toMatchObject({ pageNumber: 1, charCount: 80, status: 'ok' });
+  });
+
+  it('should report no_text for empty pages', () => {
+    const layout = layoutPage([], PAGE_WIDTH);
+    expect(assessPageQuality(2, layout, true)).toMatchObject({ status: 'no_text', hasImages: true });
+  });
+
+  it('should flag garbled text from fonts without a text map', () => {
+    const layout = layoutPage([item('\uE000'.repeat(20), 72, 700)], PAGE_WIDTH);
+    const quality = assessPageQuality(1, layout);
+    expect(quality.status).toBe('low_text');
+    expect(quality.garbledRatio).toBe(1);
+  });
+});
+
+describe('qualityWarnings', () => {
+  const base = { charCount: 0, lineCount: 0, columns: 1 as const, garbledRatio: 0, hasImages: false };
+
+  it('should warn about scanned pages', () => {
+    expect(qualityWarnings([{ ...base, pageNumber: 1, hasImages: true, status: 'no_text' }])).toEqual([
+      'Page 1 appears to be a scanned image with no selectable text.',
+    ]);
+  });
+
+  it('should not warn about good pages', () => {
+    expect(qualityWarnings([{ ...base, pageNumber: 1, charCount: 500, status: 'ok' }])).toEqual([]);
+  });
+});
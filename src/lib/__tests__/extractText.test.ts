@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { DOCX_TYPE, MAX_RESUME_FILE_SIZE, extractTextFromFile, isJsonFile, validateResumeFile } from '../extractText';
+
+const file = (name: string, type: string, content: BlobPart = 'x') => new File([content], name, { type });
+
+describe('isJsonFile', () => {
+  it('accepts the JSON type or a .json extension', () => {
+    expect(isJsonFile(file('resume.json', ''))).toBe(true);
+    expect(isJsonFile(file('resume', 'application/json'))).toBe(true);
+    expect(isJsonFile(file('resume.pdf', 'application/pdf'))).toBe(false);
+  });
+});
+
+describe('validateResumeFile', () => {
+  it('accepts PDF, DOCX and JSON Resume files', () => {
+    expect(validateResumeFile(file('cv.pdf', 'application/pdf'))).toBeNull();
+    expect(validateResumeFile(file('cv.docx', DOCX_TYPE))).toBeNull();
+    expect(validateResumeFile(file('resume.json', ''))).toBeNull();
+  });
+
+  it('rejects other types', () => {
+    expect(validateResumeFile(file('photo.png', 'image/png'))).toBe('Please upload a PDF, DOCX or JSON Resume file');
+  });
+
+  it('rejects files over 10MB', () => {
+    const large = file('cv.pdf', 'application/pdf');
+    Object.defineProperty(large, 'size', { value: MAX_RESUME_FILE_SIZE + 1 });
+    expect(validateResumeFile(large)).toBe('File size must be less than 10MB');
+  });
+});
+
+describe('extractTextFromFile', () => {
+  it('reads plain text as UTF-8', async () => {
+    const result = await extractTextFromFile(file('cv.txt', 'text/plain', 'Café 你好'));
+    expect(result).toEqual({ text: 'Café 你好', warnings: [] });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  emptyJobFormValues,
+  formatSalary,
+  isJobStatus,
+  jobFormSchema,
+  jobSubtitle,
+  toJobFormValues,
+  toJobRow,
+  type Job,
+} from '../jobs';
+
+const job: Job = {
+  id: 'job-1',
+  user_id: 'user-1',
+  title: 'Senior Engineer',
+  company: 'Acme',
+  location: 'Berlin',
+  description: 'Build things with TypeScript.',
+  source: 'https://example.com/jobs/1',
+  salary_min: 90000,
+  salary_max: 120000,
+  salary_currency: 'USD',
+  status: 'applied',
+  created_at: '2025-12-05T10:00:00Z',
+  updated_at: '2025-12-05T10:00:00Z',
+};
+
+const salary = (salary_min: number | null, salary_max: number | null, salary_currency = 'USD') =>
+  formatSalary({ salary_min, salary_max, salary_currency });
+
+describe('jobFormSchema', () => {
+  const values = { ...emptyJobFormValues(), title: 'Engineer', description: 'Build things' };
+
+  it('requires a title and description', () => {
+    const result = jobFormSchema.safeParse(emptyJobFormValues());
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.issues.map((issue) => issue.path[0])).toEqual(['title', 'description']);
+  });
+
+  it('accepts blank or whole-number salaries', () => {
+    expect(jobFormSchema.safeParse(values).success).toBe(true);
+    expect(jobFormSchema.safeParse({ ...values, salaryMin: '90,000', salaryMax: '120000' }).success).toBe(true);
+    expect(jobFormSchema.safeParse({ ...values, salaryMin: '90k' }).success).toBe(false);
+    expect(jobFormSchema.safeParse({ ...values, salaryMax: '-5' }).success).toBe(false);
+  });
+
+  it('rejects a maximum below the minimum', () => {
+    const result = jobFormSchema.safeParse({ ...values, salaryMin: '120000', salaryMax: '90000' });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.issues[0].path).toEqual(['salaryMax']);
+  });
+
+  it('rejects unknown statuses', () => {
+    expect(jobFormSchema.safeParse({ ...values, status: 'ghosted' }).success).toBe(false);
+  });
+});
+
+describe('form conversion', () => {
+  it('round-trips a job through the form values', () => {
+    const formValues = toJobFormValues(job);
+    expect(formValues.salaryMin).toBe('90000');
+    expect(formValues.status).toBe('applied');
+
+    const { id, user_id, created_at, updated_at, ...row } = job;
+    expect(toJobRow(formValues)).toEqual(row);
+  });
+
+  it('stores blank optional fields as null', () => {
+    const row = toJobRow({ ...emptyJobFormValues(), title: ' Engineer ', description: 'Build', salaryMin: '1,500' });
+    expect(row).toMatchObject({
+      title: 'Engineer',
+      company: null,
+      location: null,
+      source: null,
+      salary_min: 1500,
+      salary_max: null,
+    });
+  });
+
+  it('falls back to saved for unknown statuses', () => {
+    expect(toJobFormValues({ ...job, status: 'ghosted' }).status).toBe('saved');
+    expect(isJobStatus('offer')).toBe(true);
+    expect(isJobStatus('ghosted')).toBe(false);
+  });
+});
+
+describe('formatSalary', () => {
+  it('formats ranges compactly', () => {
+    expect(salary(90000, 120000)).toBe('$90k – $120k');
+    expect(salary(90000, 90000)).toBe('$90k');
+  });
+
+  it('formats open-ended ranges', () => {
+    expect(salary(60000, null, 'EUR')).toBe('From €60k');
+    expect(salary(null, 80000, 'GBP')).toBe('Up to £80k');
+  });
+
+  it('keeps small amounts exact', () => {
+    expect(salary(45, 60)).toBe('$45 – $60');
+  });
+
+  it('returns null without a salary', () => {
+    expect(salary(null, null)).toBeNull();
+  });
+});
+
+describe('jobSubtitle', () => {
+  it('joins whichever details are set', () => {
+    expect(jobSubtitle(job)).toBe('Acme · Berlin');
+    expect(jobSubtitle({ company: null, location: 'Remote' })).toBe('Remote');
+    expect(jobSubtitle({ company: null, location: null })).toBe('');
+  });
+});
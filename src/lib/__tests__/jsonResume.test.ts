@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import {
+  JSON_RESUME_SCHEMA_URL,
+  formatIsoDate,
+  fromJsonResume,
+  isJsonResume,
+  parseToIsoDate,
+  toJsonResume,
+} from '../jsonResume';
+import { emptyParsedResume, type ParsedResume } from '../parsedResume';
+
+const fixture = readFileSync(resolve(__dirname, 'fixtures/jsonresume.json'), 'utf8');
+
+const imported = (input: unknown) => {
+  const result = fromJsonResume(input);
+  if (!result.success) throw new Error(result.error.message);
+  return result.data;
+};
+
+describe('date helpers', () => {
+  it('formats ISO dates for display', () => {
+    expect(formatIsoDate('2013-12-01')).toBe('Dec 2013');
+    expect(formatIsoDate('2011-06')).toBe('Jun 2011');
+    expect(formatIsoDate('2014')).toBe('2014');
+    expect(formatIsoDate('Summer 2014')).toBe('Summer 2014');
+  });
+
+  it('parses common date formats back to ISO', () => {
+    expect(parseToIsoDate('Dec 2013')).toBe('2013-12');
+    expect(parseToIsoDate('September 2020')).toBe('2020-09');
+    expect(parseToIsoDate('03/2021')).toBe('2021-03');
+    expect(parseToIsoDate('2019')).toBe('2019');
+    expect(parseToIsoDate('13/2021')).toBeNull();
+    expect(parseToIsoDate('Summer 2014')).toBeNull();
+  });
+});
+
+describe('isJsonResume', () => {
+  it('recognizes JSON Resume documents', () => {
+    expect(isJsonResume(JSON.parse(fixture))).toBe(true);
+    expect(isJsonResume({ work: [] })).toBe(true);
+    expect(isJsonResume({ $schema: JSON_RESUME_SCHEMA_URL })).toBe(true);
+  });
+
+  it('rejects other JSON', () => {
+    expect(isJsonResume({ name: 'Jane', experience: [] })).toBe(false);
+    expect(isJsonResume([])).toBe(false);
+    expect(isJsonResume(null)).toBe(false);
+  });
+});
+
+describe('fromJsonResume', () => {
+  it('maps the reference sample onto ParsedResume', () => {
+    const resume = imported(fixture);
+
+    expect(resume.name).toBe('Richard Hendricks');
+    expect(resume.email).toBe('richard.hendricks@mail.com');
+    expect(resume.location).toBe('2712 Broadway St, San Francisco, California, US');
+    expect(resume.links).toEqual([
+      'http://richardhendricks.example.com',
+      'https://soundcloud.example.com/dandymusicnl',
+    ]);
+    expect(resume.skills).toEqual(['HTML', 'CSS', 'JavaScript', 'Compression']);
+    expect(resume.experience[0]).toEqual({
+      company: 'Pied Piper',
+      title: 'CEO/President',
+      duration: 'Dec 2013 - Dec 2014',
+      location: 'Palo Alto, CA',
+      bullets: [
+        'Pied Piper is a multi-platform technology based on a proprietary universal compression algorithm.',
+        'Build an algorithm for artist to detect if their music was violating copy right infringement laws',
+        'Successfully won Techcrunch Disrupt',
+      ],
+    });
+    expect(resume.experience[1].duration).toBe('Jun 2011 - Present');
+    expect(resume.education).toEqual([
+      { institution: 'University of Oklahoma', degree: 'Bachelor', field: 'Information Technology', year: '2014' },
+    ]);
+    expect(resume.projects).toEqual([
+      {
+        name: 'Miss Direction',
+        description: 'A mapping engine that misguides you',
+        technologies: ['GoogleMaps', 'Chrome Extension'],
+      },
+    ]);
+  });
+
+  it('skips malformed entries instead of failing the whole file', () => {
+    const resume = imported({
+      basics: { name: 'Jane', profiles: 'not a list' },
+      work: [null, 'nope', { name: 'Acme', position: 'Engineer', highlights: 'wrong type' }],
+    });
+    expect(resume.links).toEqual([]);
+    expect(resume.experience).toEqual([
+      { company: 'Acme', title: 'Engineer', duration: '', location: '', bullets: [] },
+    ]);
+  });
+
+  it('reports invalid JSON and non JSON Resume documents', () => {
+    const invalid = fromJsonResume('{ nope');
+    expect(invalid.success).toBe(false);
+    expect(invalid.error?.message).toBe('File is not valid JSON');
+
+    const other = fromJsonResume({ name: 'Jane' });
+    expect(other.success).toBe(false);
+    expect(other.error?.message).toMatch(/not in JSON Resume format/);
+  });
+
+  it('rejects documents with no resume content', () => {
+    expect(fromJsonResume({ basics: {} }).success).toBe(false);
+  });
+});
+
+describe('toJsonResume', () => {
+  const resume = (): ParsedResume => ({
+    ...emptyParsedResume(),
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    phone: '+1 555 0100',
+    location: 'Berlin, Germany',
+    links: ['https://github.com/jane', 'https://www.linkedin.com/in/jane', 'https://jane.dev'],
+    summary: 'Backend engineer.',
+    skills: ['TypeScript', 'Postgres'],
+    experience: [
+      { company: 'Acme', title: 'Engineer', duration: 'Mar 2020 - Present', location: 'Berlin', bullets: ['Led X'] },
+      { company: 'Globex', title: 'Intern', duration: 'Summer 2018', location: '', bullets: [] },
+      { company: 'Initech', title: 'Contractor', duration: '2016 - 2017', location: '', bullets: ['Did Y'] },
+    ],
+    education: [
+      { institution: 'TU Berlin', degree: 'BSc', field: 'CS', year: '2015' },
+      { institution: 'MIT', degree: 'MSc', field: 'AI', year: 'expected 2026' },
+    ],
+    projects: [{ name: 'resume-ai', description: 'Resume tooling', technologies: ['Deno'] }],
+  });
+
+  it('writes schema-shaped ISO dates and profiles', () => {
+    const doc = toJsonResume(resume());
+
+    expect(doc.$schema).toBe(JSON_RESUME_SCHEMA_URL);
+    expect(doc.basics?.profiles.map((profile) => profile.network)).toEqual(['GitHub', 'LinkedIn', 'Website']);
+    expect(doc.work[0]).toMatchObject({ name: 'Acme', position: 'Engineer', startDate: '2020-03', highlights: ['Led X'] });
+    expect(doc.work[0].endDate).toBeUndefined();
+    expect(doc.work[2]).toMatchObject({ startDate: '2016', endDate: '2017' });
+    expect(doc.education[0]).toMatchObject({ studyType: 'BSc', area: 'CS', endDate: '2015' });
+  });
+
+  it('keeps free-text dates in non-standard properties', () => {
+    const doc = toJsonResume(resume());
+    expect(doc.work[1]).toMatchObject({ duration: 'Summer 2018' });
+    expect(doc.work[1].startDate).toBeUndefined();
+    expect(doc.education[1]).toMatchObject({ year: 'expected 2026' });
+  });
+
+  it('round-trips losslessly through fromJsonResume', () => {
+    const json = JSON.stringify(toJsonResume(resume()));
+    expect(imported(json)).toEqual(resume());
+  });
+});
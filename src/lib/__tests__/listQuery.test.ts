@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SCORE_BANDS,
+  containsPattern,
+  dateRangeBounds,
+  isScoreBand,
+  pageCount,
+  pageRange,
+  paginationItems,
+  scoreBandBounds,
+} from '../listQuery';
+
+describe('pageRange', () => {
+  it('returns inclusive offsets for a page', () => {
+    expect(pageRange(1, 20)).toEqual({ from: 0, to: 19 });
+    expect(pageRange(3, 20)).toEqual({ from: 40, to: 59 });
+  });
+
+  it('treats pages below one as the first page', () => {
+    expect(pageRange(0, 10)).toEqual({ from: 0, to: 9 });
+  });
+});
+
+describe('pageCount', () => {
+  it('rounds up and never drops below one page', () => {
+    expect(pageCount(0, 20)).toBe(1);
+    expect(pageCount(20, 20)).toBe(1);
+    expect(pageCount(21, 20)).toBe(2);
+  });
+});
+
+describe('paginationItems', () => {
+  it('lists every page when there are few', () => {
+    expect(paginationItems(2, 4)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('collapses long runs into ellipses around the current page', () => {
+    expect(paginationItems(10, 20)).toEqual([1, 'ellipsis', 9, 10, 11, 'ellipsis', 20]);
+  });
+
+  it('shows a single skipped page instead of an ellipsis', () => {
+    expect(paginationItems(4, 10)).toEqual([1, 2, 3, 4, 5, 'ellipsis', 10]);
+  });
+
+  it('handles a single page', () => {
+    expect(paginationItems(1, 1)).toEqual([1]);
+  });
+});
+
+describe('containsPattern', () => {
+  it('wraps the search in wildcards', () => {
+    expect(containsPattern('  engineer ')).toBe('%engineer%');
+  });
+
+  it('escapes wildcards typed by the user', () => {
+    expect(containsPattern('100%_done\\')).toBe('%100\\%\\_done\\\\%');
+  });
+
+  it('returns null for blank searches', () => {
+    expect(containsPattern('   ')).toBeNull();
+  });
+});
+
+describe('score bands', () => {
+  it('covers 0-100 without gaps', () => {
+    const bounds = SCORE_BANDS.map(scoreBandBounds).filter((b) => b !== null);
+    const sorted = [...bounds].sort((a, b) => a.min - b.min);
+
+    expect(sorted[0].min).toBe(0);
+    expect(sorted[sorted.length - 1].max).toBe(100);
+    sorted.slice(1).forEach((band, index) => expect(band.min).toBe(sorted[index].max + 1));
+  });
+
+  it('has no bounds for all scores', () => {
+    expect(scoreBandBounds('all')).toBeNull();
+  });
+
+  it('recognizes band values', () => {
+    expect(isScoreBand('strong')).toBe(true);
+    expect(isScoreBand('excellent')).toBe(false);
+  });
+});
+
+describe('dateRangeBounds', () => {
+  it('is empty without a start date', () => {
+    expect(dateRangeBounds(undefined)).toEqual({});
+    expect(dateRangeBounds({ from: undefined })).toEqual({});
+  });
+
+  it('covers whole days from the first to the last', () => {
+    const bounds = dateRangeBounds({ from: new Date(2025, 11, 1, 15), to: new Date(2025, 11, 3, 9) });
+
+    expect(bounds.gte).toBe(new Date(2025, 11, 1).toISOString());
+    expect(bounds.lt).toBe(new Date(2025, 11, 4).toISOString());
+  });
+
+  it('covers a single day when only the start is picked', () => {
+    const bounds = dateRangeBounds({ from: new Date(2025, 11, 1, 15) });
+
+    expect(bounds.lt).toBe(new Date(2025, 11, 2).toISOString());
+  });
+});
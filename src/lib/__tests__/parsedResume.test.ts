@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PARSED_RESUME_VERSION,
+  emptyParsedResume,
+  normalizeParsedResume,
+  toParsedResume,
+} from '../parsedResume';
+
+const validResume = {
+  version: 1,
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  phone: '+1 555 0100',
+  location: 'Berlin',
+  links: ['https://jane.dev'],
+  summary: 'Staff engineer.',
+  skills: ['TypeScript', 'React'],
+  experience: [
+    { company: 'Acme', title: 'Staff Engineer', duration: '2020 - Present', location: '', bullets: ['Led migration'] },
+  ],
+  education: [{ institution: 'TU Berlin', degree: 'BSc', field: 'Computer Science', year: '2015' }],
+  projects: [{ name: 'resume-ai', description: 'Resume tooling', technologies: ['Deno'] }],
+};
+
+const repaired = (input: unknown) => {
+  const result = normalizeParsedResume(input);
+  if (!result.success) throw new Error(result.error.message);
+  return { data: result.data, repairs: result.repairs };
+};
+
+describe('normalizeParsedResume', () => {
+  describe('valid input', () => {
+    it('should accept a resume that already matches the schema', () => {
+      const result = repaired(validResume);
+      expect(result.data).toEqual(validResume);
+      expect(result.repairs).toEqual([]);
+    });
+
+    it('should accept a JSON string', () => {
+      expect(repaired(JSON.stringify(validResume)).data).toEqual(validResume);
+    });
+
+    it('should stamp the current schema version on unversioned data', () => {
+      const { version: _version, ...unversioned } = validResume;
+      expect(repaired(unversioned).data.version).toBe(PARSED_RESUME_VERSION);
+    });
+  });
+
+  describe('repairs', () => {
+    it('should split a comma-separated skills string into an array', () => {
+      const result = repaired({ name: 'Jane', skills: 'JavaScript, React;  Node.js | SQL' });
+      expect(result.data.skills).toEqual(['JavaScript', 'React', 'Node.js', 'SQL']);
+      expect(result.repairs).toContain('skills: split string into list');
+    });
+
+    it('should default missing bullets to an empty array', () => {
+      const result = repaired({ experience: [{ company: 'Acme', title: 'Engineer' }] });
+      expect(result.data.experience[0].bullets).toEqual([]);
+      expect(result.repairs).toContain('experience[0].bullets: missing, defaulted to []');
+    });
+
+    it('should split a bullet string on newlines and bullet glyphs', () => {
+      const result = repaired({
+        experience: [{ company: 'Acme', bullets: '• Built API\n• Cut latency 40%' }],
+      });
+      expect(result.data.experience[0].bullets).toEqual(['Built API', 'Cut latency 40%']);
+    });
+
+    it('should map alternative key names', () => {
+      const result = repaired({
+        fullName: 'Jane Doe',
+        workExperience: [{ employer: 'Acme', position: 'Engineer', dates: '2019-2021', responsibilities: ['Shipped'] }],
+        education: [{ school: 'MIT', degree: 'BSc', major: 'Physics', graduationYear: 2014 }],
+        projects: [{ title: 'CLI', summary: 'A tool', tech: 'Go, Rust' }],
+      });
+      expect(result.data.name).toBe('Jane Doe');
+      expect(result.data.experience[0]).toEqual({
+        company: 'Acme',
+        title: 'Engineer',
+        duration: '2019-2021',
+        location: '',
+        bullets: ['Shipped'],
+      });
+      expect(result.data.education[0]).toEqual({ institution: 'MIT', degree: 'BSc', field: 'Physics', year: '2014' });
+      expect(result.data.projects[0]).toEqual({ name: 'CLI', description: 'A tool', technologies: ['Go', 'Rust'] });
+    });
+
+    it('should wrap a single experience object in an array', () => {
+      const result = repaired({ experience: { company: 'Acme', title: 'Engineer' } });
+      expect(result.data.experience).toHaveLength(1);
+    });
+
+    it('should clear placeholder values', () => {
+      const result = repaired({ name: 'Jane', email: 'N/A', phone: 'not provided', skills: ['None', 'Go'] });
+      expect(result.data.email).toBe('');
+      expect(result.data.phone).toBe('');
+      expect(result.data.skills).toEqual(['Go']);
+    });
+
+    it('should unwrap skill objects and drop duplicates', () => {
+      const result = repaired({ skills: [{ name: 'React' }, 'React', 'Go'] });
+      expect(result.data.skills).toEqual(['React', 'Go']);
+    });
+
+    it('should flatten skills grouped by category', () => {
+      const result = repaired({
+        name: 'Jane',
+        skills: { Languages: ['TypeScript', 'Go'], Tools: 'Docker, Git', Frameworks: [{ name: 'React' }, 'Go'] },
+      });
+      expect(result.data.skills).toEqual(['TypeScript', 'Go', 'Docker', 'Git', 'React']);
+      expect(result.repairs).toContain('skills: flattened skills grouped by category');
+    });
+
+    it('should treat null fields as empty', () => {
+      const result = repaired({ name: 'Jane', summary: null, skills: null, experience: null });
+      expect(result.data.summary).toBe('');
+      expect(result.data.skills).toEqual([]);
+      expect(result.data.experience).toEqual([]);
+    });
+
+    it('should drop empty and non-object entries', () => {
+      const result = repaired({ name: 'Jane', experience: ['Acme', {}, { company: 'Globex' }] });
+      expect(result.data.experience.map((e) => e.company)).toEqual(['Globex']);
+    });
+  });
+
+  describe('unrecoverable output', () => {
+    it('should reject invalid JSON strings', () => {
+      const result = normalizeParsedResume('{"name": ');
+      expect(result).toEqual({
+        success: false,
+        error: { code: 'INVALID_PARSED_RESUME', message: 'Resume data is not valid JSON', issues: [] },
+      });
+    });
+
+    it('should reject non-object values', () => {
+      const result = normalizeParsedResume(['Jane']);
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe('Expected object, received array');
+    });
+
+    it('should reject objects without any resume content', () => {
+      const result = normalizeParsedResume({ email: 'jane@example.com', foo: 'bar' });
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('No resume content could be extracted');
+    });
+  });
+});
+
+describe('toParsedResume', () => {
+  it('should return a normalized resume for stored data', () => {
+    expect(toParsedResume({ name: 'Jane', skills: 'Go' }).skills).toEqual(['Go']);
+  });
+
+  it('should fall back to an empty resume for unusable data', () => {
+    expect(toParsedResume(null)).toEqual(emptyParsedResume());
+  });
+});
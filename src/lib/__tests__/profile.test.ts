@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AI_STRICTNESS_LEVELS,
+  DEFAULT_ANALYSIS_PREFERENCES,
+  SENIORITY_LEVELS,
+  firstName,
+  preferredPageSize,
+  preferredTemplate,
+  toAnalysisPreferences,
+  type Profile,
+} from '../profile';
+import * as shared from '../../../supabase/functions/_shared/preferences.ts';
+
+const profile = (overrides: Partial<Profile> = {}): Profile => ({
+  id: 'user-1',
+  email: 'jane@example.com',
+  full_name: 'Jane Doe',
+  strict_redaction: false,
+  preferred_template: 'classic',
+  target_role: null,
+  seniority: null,
+  locale: 'en-US',
+  ai_strictness: 'balanced',
+  created_at: null,
+  updated_at: null,
+  ...overrides,
+});
+
+describe('toAnalysisPreferences', () => {
+  it('reads the defaults stored on the profile', () => {
+    const preferences = toAnalysisPreferences(
+      profile({ target_role: '  Backend Engineer ', seniority: 'senior', locale: 'en-GB', ai_strictness: 'strict' }),
+    );
+    expect(preferences).toEqual({
+      targetRole: 'Backend Engineer',
+      seniority: 'senior',
+      locale: 'en-GB',
+      strictness: 'strict',
+    });
+  });
+
+  it('falls back to the defaults for missing or unknown values', () => {
+    expect(toAnalysisPreferences(null)).toEqual(DEFAULT_ANALYSIS_PREFERENCES);
+    expect(
+      toAnalysisPreferences(profile({ target_role: ' ', seniority: 'intern', locale: 'xx', ai_strictness: 'harsh' })),
+    ).toEqual(DEFAULT_ANALYSIS_PREFERENCES);
+  });
+
+  it('ignores locales that only match inherited object keys', () => {
+    for (const locale of ['toString', 'constructor', '__proto__']) {
+      expect(toAnalysisPreferences(profile({ locale })).locale, locale).toBe('en-US');
+    }
+  });
+});
+
+describe('export defaults', () => {
+  it('uses the preferred template when it is known', () => {
+    expect(preferredTemplate(profile({ preferred_template: 'modern' }))).toBe('modern');
+    expect(preferredTemplate(profile({ preferred_template: 'fancy' }))).toBe('classic');
+    expect(preferredTemplate(null)).toBe('classic');
+  });
+
+  it('ignores templates that only match inherited object keys', () => {
+    for (const preferred_template of ['toString', 'constructor', '__proto__']) {
+      expect(preferredTemplate(profile({ preferred_template })), preferred_template).toBe('classic');
+    }
+  });
+
+  it('picks Letter paper for US locales and A4 elsewhere', () => {
+    expect(preferredPageSize(profile())).toBe('letter');
+    expect(preferredPageSize(profile({ locale: 'en-GB' }))).toBe('a4');
+    expect(preferredPageSize(profile({ locale: 'de-DE' }))).toBe('a4');
+  });
+});
+
+describe('firstName', () => {
+  it('returns the first word of the name', () => {
+    expect(firstName(' Jane  Doe ')).toBe('Jane');
+    expect(firstName('')).toBeNull();
+    expect(firstName(null)).toBeNull();
+  });
+});
+
+describe('shared preferences', () => {
+  it('mirrors the client value lists', () => {
+    expect(shared.SENIORITY_LEVELS).toEqual(SENIORITY_LEVELS);
+    expect(shared.AI_STRICTNESS_LEVELS).toEqual(AI_STRICTNESS_LEVELS);
+    expect(shared.DEFAULT_ANALYSIS_PREFERENCES).toEqual(DEFAULT_ANALYSIS_PREFERENCES);
+  });
+
+  it('ignores unexpected request values', () => {
+    expect(shared.normalizePreferences(undefined)).toEqual(DEFAULT_ANALYSIS_PREFERENCES);
+    expect(
+      shared.normalizePreferences({ targetRole: 42, seniority: 'intern', locale: 'not a locale!', strictness: 'harsh' }),
+    ).toEqual(DEFAULT_ANALYSIS_PREFERENCES);
+    expect(shared.normalizePreferences({ targetRole: `  ${'a'.repeat(150)} `, locale: 'en-gb' })).toMatchObject({
+      targetRole: 'a'.repeat(100),
+      locale: 'en-GB',
+    });
+  });
+
+  it('adds nothing to the prompt for the defaults', () => {
+    expect(shared.preferencesPrompt(DEFAULT_ANALYSIS_PREFERENCES, 'analysis')).toBe('');
+    expect(shared.preferencesPrompt(DEFAULT_ANALYSIS_PREFERENCES, 'improvements')).toBe('');
+  });
+
+  it('describes the target level, strictness and locale', () => {
+    const preferences = { targetRole: 'Backend Engineer', seniority: 'senior', locale: 'de-DE', strictness: 'strict' } as const;
+
+    const analysis = shared.preferencesPrompt(preferences, 'analysis');
+    expect(analysis).toContain('aiming for senior Backend Engineer roles');
+    expect(analysis).toContain('Score conservatively');
+    expect(analysis).toContain('"de-DE"');
+    expect(analysis).toMatch(/\n\n$/);
+
+    expect(shared.preferencesPrompt(preferences, 'improvements')).toContain('Do not add skills');
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { createRedactor } from '../../../supabase/functions/_shared/redact.ts';
+
+const redact = (text: string, strict = false) => createRedactor({ strict }).redactText(text);
+
+describe('createRedactor', () => {
+  describe('contact details', () => {
+    it('redacts email addresses', () => {
+      expect(redact('Contact: jane.doe+cv@mail.example.co.uk')).toBe('Contact: [EMAIL_1]');
+    });
+
+    it.each([
+      ['US', '(555) 123-4567'],
+      ['US international', '+1 555 123 4567'],
+      ['UK', '+44 20 7946 0958'],
+      ['UK national', '020 7946 0958'],
+      ['Germany', '+49 (0)30 12345678'],
+      ['Germany mobile', '0171/1234567'],
+      ['France', '+33 6 12 34 56 78'],
+      ['France national', '06.12.34.56.78'],
+      ['India', '+91 98765 43210'],
+      ['Brazil', '+55 11 91234-5678'],
+      ['Japan', '+81 3-1234-5678'],
+      ['Australia', '+61 2 9876 5432'],
+      ['00 prefix', '0044 20 7946 0958'],
+    ])('redacts %s phone numbers', (_, phone) => {
+      expect(redact(`Phone: ${phone}`)).toBe('Phone: [PHONE_1]');
+    });
+
+    it('leaves years, date ranges and large numbers alone', () => {
+      const text = 'Engineer 2018 - 2021, shipped 2019-2020 2021 releases, grew revenue to 120.000.000 on 2020-01-15';
+      expect(redact(text)).toBe(text);
+    });
+  });
+
+  describe('addresses', () => {
+    it.each([
+      ['221B Baker Street', 'London NW1 6XE'],
+      ['1600 Pennsylvania Ave NW', 'Washington'],
+      ['42 Wallaby Way, Apt 3', 'Sydney'],
+    ])('redacts English-style address %s', (street, city) => {
+      expect(redact(`${street}, ${city}`)).toBe(`[ADDRESS_1], ${city}`);
+    });
+
+    it.each([
+      'Hauptstraße 12a',
+      'Keizersgracht 123',
+      'Drottninggatan 5',
+      'Calle Mayor 5',
+      'Via della Spiga 10',
+      'Rua Augusta, 27',
+    ])('redacts European address %s', (street) => {
+      expect(redact(`Adresse: ${street}, 10115 Stadt`)).toBe('Adresse: [ADDRESS_1], 10115 Stadt');
+    });
+
+    it('redacts French addresses', () => {
+      expect(redact('12 bis rue de la Paix, 75002 Paris')).toBe('[ADDRESS_1], 75002 Paris');
+    });
+
+    it('leaves prose that resembles an address alone', () => {
+      const text = 'Spent 10 years on the road and cut latency via caching by 40%';
+      expect(redact(text)).toBe(text);
+    });
+  });
+
+  describe('dates of birth', () => {
+    it.each([
+      'Date of birth: 14/03/1990',
+      'DOB 1990-03-14',
+      'Born on March 14, 1990',
+      'Geburtsdatum: 14.03.1990',
+      'geboren am 14. März 1990',
+      'Date de naissance : 14/03/1990',
+      'Fecha de nacimiento: 14-03-1990',
+    ])('redacts "%s" and keeps the label', (text) => {
+      const redacted = redact(text);
+      expect(redacted).toMatch(/\[DOB_1\]$/);
+      expect(redacted).not.toMatch(/1990/);
+    });
+
+    it('leaves unlabelled dates such as employment dates alone', () => {
+      expect(redact('Started 14/03/2019')).toBe('Started 14/03/2019');
+    });
+  });
+
+  describe('national IDs', () => {
+    it.each([
+      ['US SSN', '123-45-6789'],
+      ['UK National Insurance number', 'AB 12 34 56 C'],
+      ['Canadian SIN', '046 454 286'],
+      ['Brazilian CPF', '123.456.789-09'],
+      ['Indian Aadhaar', '2345 6789 0123'],
+      ['Indian PAN', 'ABCPE1234F'],
+      ['Spanish DNI', '12345678Z'],
+      ['Spanish NIE', 'X1234567L'],
+      ['French NIR', '1 85 05 78 006 084 36'],
+      ['Italian codice fiscale', 'RSSMRA85T10A562S'],
+      ['Chinese resident ID', '11010519491231002X'],
+    ])('redacts %s', (_, id) => {
+      expect(redact(`ID ${id} on file`)).toBe('ID [NATIONAL_ID_1] on file');
+    });
+
+    it('redacts labelled IDs in other formats', () => {
+      expect(redact('Passport No.: C01X00T47')).toBe('Passport No.: [NATIONAL_ID_1]');
+      expect(redact('Steuer-ID: 12 345 678 901')).toBe('Steuer-ID: [NATIONAL_ID_1]');
+    });
+
+    it('ignores label words used in prose', () => {
+      const text = 'Led a PAN-European rollout since 2020';
+      expect(redact(text)).toBe(text);
+    });
+  });
+
+  describe('strict mode', () => {
+    const text = 'Jane Doe · https://linkedin.com/in/janedoe · SW1A 1AA · Employee 123456789';
+
+    it('leaves links, postal codes and names visible by default', () => {
+      expect(createRedactor({ knownNames: ['Jane Doe'] }).redactText(text)).toBe(text);
+    });
+
+    it('also redacts links, postal codes, long digit runs and known names', () => {
+      const redactor = createRedactor({ strict: true, knownNames: ['Jane Doe', 'Jane'] });
+      expect(redactor.redactText(text)).toBe('[NAME_1] · [URL_1] · [POSTAL_CODE_1] · Employee [ID_1]');
+    });
+
+    it('redacts US ZIP codes', () => {
+      expect(redact('Springfield, IL 62704-1234', true)).toBe('Springfield, IL [POSTAL_CODE_1]');
+    });
+  });
+
+  describe('placeholders', () => {
+    it('gives the same value the same placeholder', () => {
+      const redactor = createRedactor();
+      expect(redactor.redactText('jane@example.com, JANE@example.com, bob@example.com')).toBe(
+        '[EMAIL_1], [EMAIL_1], [EMAIL_2]',
+      );
+      expect(redactor.redactText('Mobile +1 (555) 123-4567')).toBe('Mobile [PHONE_1]');
+      expect(redactor.redactText('Call +1 555 123 4567')).toBe('Call [PHONE_1]');
+      expect(redactor.counts()).toEqual({ EMAIL: 2, PHONE: 1 });
+    });
+
+    it('does not match across escaped line breaks in sanitized text', () => {
+      expect(redact('Name\\u000ajane@example.com\\u000aPhone: +44 20 7946 0958')).toBe(
+        'Name\\u000a[EMAIL_1]\\u000aPhone: [PHONE_1]',
+      );
+    });
+
+    it('restores original values in nested model output', () => {
+      const redactor = createRedactor();
+      const resume = redactor.redactValue({
+        email: 'jane@example.com',
+        phone: '+44 20 7946 0958',
+        experience: [{ bullets: ['Reached at jane@example.com'] }],
+        years: 5,
+      });
+
+      expect(resume.email).toBe('[EMAIL_1]');
+      expect(resume.years).toBe(5);
+
+      // Models sometimes change the case of placeholders
+      const output = { contact: '[email_1] / [PHONE_1]', unknown: '[EMAIL_9]', list: ['[EMAIL_1]'] };
+      expect(redactor.restore(output)).toEqual({
+        contact: 'jane@example.com / +44 20 7946 0958',
+        unknown: '[EMAIL_9]',
+        list: ['jane@example.com'],
+      });
+    });
+
+    it('returns output unchanged when nothing was redacted', () => {
+      const output = { note: 'See [EMAIL_1]' };
+      expect(createRedactor().restore(output)).toBe(output);
+    });
+  });
+});
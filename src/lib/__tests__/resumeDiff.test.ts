@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, diffList, diffResumes } from '../resumeDiff';
+import { emptyParsedResume, type ParsedResume } from '../parsedResume';
+
+const baseResume = (): ParsedResume => ({
+  ...emptyParsedResume(),
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  summary: 'Backend engineer.',
+  skills: ['TypeScript', 'Postgres'],
+  links: ['https://jane.dev'],
+  experience: [
+    {
+      company: 'Acme',
+      title: 'Engineer',
+      duration: '2019 - 2022',
+      location: 'Berlin',
+      bullets: ['Built billing service', 'Reduced latency by 40%'],
+    },
+    { company: 'Globex', title: 'Intern', duration: '2018', location: '', bullets: ['Wrote tests'] },
+  ],
+  education: [{ institution: 'TU Berlin', degree: 'BSc', field: 'Computer Science', year: '2018' }],
+  projects: [{ name: 'resume-ai', description: 'Resume tooling', technologies: ['Deno'] }],
+});
+
+describe('diffLines', () => {
+  it('keeps common lines and marks additions and removals', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'c', 'd'])).toEqual([
+      { type: 'unchanged', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'unchanged', text: 'c' },
+      { type: 'added', text: 'd' },
+    ]);
+  });
+
+  it('ignores case and whitespace differences', () => {
+    expect(diffLines(['Built  API'], ['built api'])).toEqual([{ type: 'unchanged', text: 'built api' }]);
+  });
+
+  it('handles empty inputs', () => {
+    expect(diffLines([], ['x'])).toEqual([{ type: 'added', text: 'x' }]);
+    expect(diffLines(['x'], [])).toEqual([{ type: 'removed', text: 'x' }]);
+  });
+});
+
+describe('diffList', () => {
+  it('reports added and removed items case-insensitively', () => {
+    expect(diffList(['React', 'Go'], ['react', 'Rust'])).toEqual({ added: ['Rust'], removed: ['Go'] });
+  });
+});
+
+describe('diffResumes', () => {
+  it('reports no changes for identical resumes', () => {
+    const diff = diffResumes(baseResume(), baseResume());
+    expect(diff.hasChanges).toBe(false);
+    expect(diff.experience).toEqual([]);
+  });
+
+  it('reports scalar field changes', () => {
+    const after = { ...baseResume(), summary: 'Platform engineer.' };
+    const diff = diffResumes(baseResume(), after);
+    expect(diff.fields).toEqual([{ field: 'summary', before: 'Backend engineer.', after: 'Platform engineer.' }]);
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('reports skill additions and removals', () => {
+    const after = { ...baseResume(), skills: ['TypeScript', 'Kubernetes'] };
+    expect(diffResumes(baseResume(), after).skills).toEqual({ added: ['Kubernetes'], removed: ['Postgres'] });
+  });
+
+  it('does not report reordered experience as changed', () => {
+    const before = baseResume();
+    const after = { ...before, experience: [...before.experience].reverse() };
+    expect(diffResumes(before, after).hasChanges).toBe(false);
+  });
+
+  it('diffs bullets within a matched experience entry', () => {
+    const before = baseResume();
+    const after = baseResume();
+    after.experience[0].bullets = ['Built billing service', 'Cut p95 latency by 40%'];
+    const [entry] = diffResumes(before, after).experience;
+    expect(entry.status).toBe('changed');
+    expect(entry.label).toBe('Engineer at Acme');
+    expect(entry.bullets).toEqual([
+      { type: 'unchanged', text: 'Built billing service' },
+      { type: 'removed', text: 'Reduced latency by 40%' },
+      { type: 'added', text: 'Cut p95 latency by 40%' },
+    ]);
+  });
+
+  it('reports added and removed experience entries', () => {
+    const before = baseResume();
+    const after = baseResume();
+    after.experience = [
+      after.experience[0],
+      { company: 'Initech', title: 'Lead', duration: '2022 - Present', location: '', bullets: ['Hired team'] },
+    ];
+    const statuses = diffResumes(before, after).experience.map((e) => [e.status, e.label]);
+    expect(statuses).toEqual([
+      ['added', 'Lead at Initech'],
+      ['removed', 'Intern at Globex'],
+    ]);
+  });
+
+  it('reports education and project field changes', () => {
+    const after = baseResume();
+    after.education[0].year = '2019';
+    after.projects[0].technologies = ['Deno', 'Postgres'];
+    const diff = diffResumes(baseResume(), after);
+    expect(diff.education).toEqual([
+      { status: 'changed', label: 'BSc, TU Berlin', fields: [{ field: 'year', before: '2018', after: '2019' }] },
+    ]);
+    expect(diff.projects[0].fields).toEqual([
+      { field: 'technologies', before: 'Deno', after: 'Deno, Postgres' },
+    ]);
+  });
+});
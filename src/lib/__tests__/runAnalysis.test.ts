@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { FunctionsFetchError, FunctionsHttpError } from '@supabase/supabase-js';
+import { AnalysisError, classifyAnalysisError, rankAnalyses, toAnalysisError } from '../runAnalysis';
+
+const httpError = (status: number, body?: unknown, headers: Record<string, string> = {}) =>
+  new FunctionsHttpError(
+    new Response(body === undefined ? 'upstream exploded' : JSON.stringify(body), { status, headers }),
+  );
+
+describe('toAnalysisError', () => {
+  it('reads the status, code and retry time from an AI error response', async () => {
+    const error = await toAnalysisError(
+      httpError(429, { error: 'AI rate limit exceeded', code: 'AI_RATE_LIMITED', retryAfter: 12 }),
+    );
+    expect(error).toBeInstanceOf(AnalysisError);
+    expect(error.status).toBe(429);
+    expect(error.code).toBe('AI_RATE_LIMITED');
+    expect(error.retryAfterMs).toBe(12_000);
+    expect(error.message).toBe('AI rate limit exceeded. Please try again in a moment.');
+  });
+
+  it('falls back to the Retry-After header', async () => {
+    const error = await toAnalysisError(httpError(429, { error: 'slow down' }, { 'Retry-After': '3' }));
+    expect(error.retryAfterMs).toBe(3000);
+  });
+
+  it('uses the function message for other statuses', async () => {
+    const error = await toAnalysisError(httpError(400, { error: 'jobDescription is required' }));
+    expect(error.status).toBe(400);
+    expect(error.message).toBe('jobDescription is required');
+  });
+
+  it('copes with a body that is not JSON', async () => {
+    const error = await toAnalysisError(httpError(502));
+    expect(error.status).toBe(502);
+    expect(error.retryAfterMs).toBeUndefined();
+  });
+
+  it('marks fetch failures as network errors', async () => {
+    const error = await toAnalysisError(new FunctionsFetchError(new TypeError('Failed to fetch')));
+    expect(error.network).toBe(true);
+  });
+});
+
+describe('classifyAnalysisError', () => {
+  it('retries rate limits with the shared pause', () => {
+    const retryable = classifyAnalysisError(new AnalysisError('limited', { status: 429, retryAfterMs: 5000 }));
+    expect(retryable?.rateLimited).toBe(true);
+    expect(retryable?.retryAfterMs).toBe(5000);
+  });
+
+  it('retries gateway and network failures without pausing the queue', () => {
+    expect(classifyAnalysisError(new AnalysisError('timeout', { status: 504 }))?.rateLimited).toBe(false);
+    expect(classifyAnalysisError(new AnalysisError('offline', { network: true }))).not.toBeNull();
+  });
+
+  it('does not retry credits, bad input or unknown errors', () => {
+    expect(classifyAnalysisError(new AnalysisError('credits', { status: 402 }))).toBeNull();
+    expect(classifyAnalysisError(new AnalysisError('bad input', { status: 400 }))).toBeNull();
+    expect(classifyAnalysisError(new Error('boom'))).toBeNull();
+  });
+});
+
+describe('rankAnalyses', () => {
+  it('orders by match score, then ATS score', () => {
+    const ranked = rankAnalyses([
+      { id: 'a', match_score: 70, ats_score: 90 },
+      { id: 'b', match_score: 85, ats_score: 60 },
+      { id: 'c', match_score: 70, ats_score: 95 },
+      { id: 'd', match_score: null, ats_score: 99 },
+    ]);
+    expect(ranked.map((analysis) => analysis.id)).toEqual(['b', 'c', 'a', 'd']);
+  });
+});
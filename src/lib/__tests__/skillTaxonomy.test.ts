@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SKILL_TAXONOMY,
+  canonicalSkillName,
+  canonicalizeResumeSkills,
+  canonicalizeSkills,
+  findSkill,
+  skillAncestors,
+  skillCategory,
+  skillChildren,
+  skillKey,
+  tokenize,
+} from '../skillTaxonomy';
+import { emptyParsedResume } from '../parsedResume';
+
+describe('taxonomy data', () => {
+  it('has unique names and aliases', () => {
+    const forms = SKILL_TAXONOMY.flatMap((skill) => [skill.name, ...(skill.aliases ?? [])]).map((form) =>
+      tokenize(form).join(' '),
+    );
+    const duplicates = forms.filter((form, i) => forms.indexOf(form) !== i);
+    expect(duplicates).toEqual([]);
+  });
+
+  it('only points parents at skills that exist', () => {
+    const names = new Set(SKILL_TAXONOMY.map((skill) => skill.name));
+    const dangling = SKILL_TAXONOMY.filter((skill) => skill.parent && !names.has(skill.parent));
+    expect(dangling.map((skill) => skill.name)).toEqual([]);
+  });
+});
+
+describe('tokenize', () => {
+  it('keeps technology names intact', () => {
+    expect(tokenize('C++, C#, .NET and Node.js.')).toEqual(['c++', 'c#', '.net', 'and', 'node.js']);
+  });
+});
+
+describe('lookup', () => {
+  it('finds skills by name or alias regardless of case', () => {
+    expect(findSkill('reactjs')?.name).toBe('React');
+    expect(findSkill('React.JS')?.name).toBe('React');
+    expect(findSkill('K8s')?.name).toBe('Kubernetes');
+    expect(findSkill('Event Sourcing')).toBeUndefined();
+  });
+
+  it('builds comparison keys', () => {
+    expect(skillKey('JS')).toBe('javascript');
+    expect(skillKey('Postgres')).toBe('postgresql');
+    expect(skillKey('CI/CD')).toBe('ci cd');
+    expect(skillKey('  Event  Sourcing ')).toBe('event sourcing');
+  });
+
+  it('returns canonical names and tidies unknown skills', () => {
+    expect(canonicalSkillName('golang')).toBe('Go');
+    expect(canonicalSkillName('  Event   Sourcing ')).toBe('Event Sourcing');
+  });
+
+  it('exposes categories and the parent/child hierarchy', () => {
+    expect(skillCategory('AWS')).toBe('cloud');
+    expect(skillCategory('mentorship')).toBe('soft_skill');
+    expect(skillCategory('Event Sourcing')).toBeUndefined();
+    expect(skillAncestors('nextjs')).toEqual(['React', 'JavaScript']);
+    expect(skillAncestors('JavaScript')).toEqual([]);
+    expect(skillChildren('python')).toEqual(['Django', 'Flask', 'FastAPI', 'Pandas']);
+  });
+});
+
+describe('canonicalizeSkills', () => {
+  it('merges alias duplicates and keeps first-seen order', () => {
+    expect(canonicalizeSkills(['React', 'React.js', 'ReactJS', 'postgres', 'JS', 'Postgres', 'Event Sourcing'])).toEqual(
+      ['React', 'PostgreSQL', 'JavaScript', 'Event Sourcing'],
+    );
+  });
+
+  it('drops blanks and non-strings', () => {
+    expect(canonicalizeSkills(['', '  ', null, 42, 'event sourcing', 'Event Sourcing'])).toEqual(['event sourcing']);
+    expect(canonicalizeSkills(null)).toEqual([]);
+  });
+
+  it('canonicalizes skills and project technologies in a resume', () => {
+    const resume = {
+      ...emptyParsedResume(),
+      skills: ['nodejs', 'Node.js'],
+      projects: [{ name: 'x', description: '', technologies: ['tailwindcss', 'ReactJS'] }],
+    };
+    const result = canonicalizeResumeSkills(resume);
+    expect(result.skills).toEqual(['Node.js']);
+    expect(result.projects[0].technologies).toEqual(['Tailwind CSS', 'React']);
+    expect(resume.skills).toEqual(['nodejs', 'Node.js']);
+  });
+});
@@ -0,0 +1,202 @@
+import JSZip from "jszip";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+/**
+ * Account data export and deletion.
+ *
+ * The export is assembled in the browser from what RLS lets the user read,
+ * which is everything they own. Deletion needs the service role, so it goes
+ * through the delete-account edge function.
+ */
+
+export interface AccountData {
+  exportedAt: string;
+  profile: Tables<"profiles"> | null;
+  resumes: Tables<"resumes">[];
+  resumeVersions: Tables<"resume_versions">[];
+  analyses: Tables<"analyses">[];
+  jobs: Tables<"jobs">[];
+  candidatePools: Tables<"candidate_pools">[];
+  candidates: Tables<"candidates">[];
+}
+
+/** Uploaded files by storage path */
+export type AccountFiles = Map<string, Blob | Uint8Array>;
+
+const FETCH_PAGE_SIZE = 1000;
+
+type PageResult<T> = PromiseLike<{ data: T[] | null; error: unknown }>;
+
+// PostgREST caps each response, so tables are read page by page
+const fetchAllRows = async <T>(fetchPage: (from: number, to: number) => PageResult<T>): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + FETCH_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < FETCH_PAGE_SIZE) return rows;
+  }
+};
+
+export async function fetchAccountData(userId: string): Promise<AccountData> {
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("id", userId)
+    .maybeSingle();
+  if (profileError) throw profileError;
+
+  const [resumes, resumeVersions, analyses, jobs, candidatePools, candidates] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase.from("resumes").select("*").eq("user_id", userId).order("created_at").order("id").range(from, to),
+    ),
+    fetchAllRows((from, to) =>
+      supabase.from("resume_versions").select("*").eq("user_id", userId).order("version_number").order("id").range(from, to),
+    ),
+    fetchAllRows((from, to) =>
+      supabase.from("analyses").select("*").eq("user_id", userId).order("created_at").order("id").range(from, to),
+    ),
+    fetchAllRows((from, to) =>
+      supabase.from("jobs").select("*").eq("user_id", userId).order("created_at").order("id").range(from, to),
+    ),
+    fetchAllRows((from, to) =>
+      supabase.from("candidate_pools").select("*").eq("user_id", userId).order("created_at").order("id").range(from, to),
+    ),
+    fetchAllRows((from, to) =>
+      supabase.from("candidates").select("*").eq("user_id", userId).order("created_at").order("id").range(from, to),
+    ),
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile,
+    resumes,
+    resumeVersions,
+    analyses,
+    jobs,
+    candidatePools,
+    candidates,
+  };
+}
+
+/**
+ * Downloads every uploaded file. A missing file is left out rather than
+ * failing the export; buildAccountExport lists it in the README.
+ */
+export async function downloadAccountFiles(
+  data: AccountData,
+  onProgress?: (done: number, total: number) => void,
+): Promise<AccountFiles> {
+  const paths = [...data.resumes, ...data.candidates].map((row) => row.file_path).filter(Boolean);
+  const files: AccountFiles = new Map();
+
+  for (const [index, path] of paths.entries()) {
+    const { data: blob, error } = await supabase.storage.from("resumes").download(path);
+    if (error) {
+      console.error("Failed to download file for export:", path, error);
+    } else {
+      files.set(path, blob);
+    }
+    onProgress?.(index + 1, paths.length);
+  }
+
+  return files;
+}
+
+/** Lowercase, dash-separated and free of path separators: "Jane Doe CV.pdf" → "jane-doe-cv" */
+export const slugify = (value: string) =>
+  value
+    .replace(/\.[^./\\]+$/, "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// Short ids keep folder names unique when two uploads share a name
+const folderName = (name: string, id: string) => [slugify(name), id.slice(0, 8)].filter(Boolean).join("-");
+
+// Keeps uploaded names from adding folders inside the zip
+const safeFileName = (name: string) => name.replace(/[/\\]/g, "_") || "file";
+
+const toJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+const readme = (data: AccountData, missing: string[]) =>
+  [
+    "Your data export",
+    `Exported at ${data.exportedAt}`,
+    "",
+    "profile.json             Your profile and settings",
+    "resumes/<name>/          One folder per resume:",
+    "  resume.json            The resume record, including the extracted text",
+    "  parsed.json            The parsed resume",
+    "  versions.json          Every saved version of the parsed resume",
+    "  analyses.json          Every analysis of this resume",
+    "  <original file>        The file you uploaded",
+    "analyses.json            Every analysis, across all resumes",
+    "jobs.json                Your saved jobs",
+    "candidates/<pool>/       One folder per candidate pool, with its candidates and their files",
+    "",
+    `${data.resumes.length} resumes, ${data.analyses.length} analyses, ${data.jobs.length} jobs, ` +
+      `${data.candidatePools.length} candidate pools, ${data.candidates.length} candidates`,
+    ...(missing.length > 0
+      ? ["", "These files could not be downloaded and are not included:", ...missing.map((path) => `  ${path}`)]
+      : []),
+    "",
+  ].join("\n");
+
+/** Assembles the export zip from the account's rows and uploaded files */
+export async function buildAccountExport(data: AccountData, files: AccountFiles): Promise<Uint8Array> {
+  const zip = new JSZip();
+  const missing: string[] = [];
+
+  const addFile = (folder: JSZip, path: string, name: string) => {
+    const file = files.get(path);
+    if (file) {
+      folder.file(name, file);
+    } else if (path) {
+      missing.push(path);
+    }
+  };
+
+  zip.file("profile.json", toJson(data.profile));
+  zip.file("analyses.json", toJson(data.analyses));
+  zip.file("jobs.json", toJson(data.jobs));
+
+  for (const resume of data.resumes) {
+    const folder = zip.folder(`resumes/${folderName(resume.file_name, resume.id)}`)!;
+    const { parsed_data, ...record } = resume;
+    folder.file("resume.json", toJson(record));
+    folder.file("parsed.json", toJson(parsed_data));
+    folder.file("versions.json", toJson(data.resumeVersions.filter((version) => version.resume_id === resume.id)));
+    folder.file("analyses.json", toJson(data.analyses.filter((analysis) => analysis.resume_id === resume.id)));
+    addFile(folder, resume.file_path, safeFileName(resume.file_name));
+  }
+
+  for (const pool of data.candidatePools) {
+    const folder = zip.folder(`candidates/${folderName(pool.name, pool.id)}`)!;
+    const candidates = data.candidates.filter((candidate) => candidate.pool_id === pool.id);
+    folder.file("pool.json", toJson(pool));
+    folder.file("candidates.json", toJson(candidates));
+    for (const candidate of candidates) {
+      addFile(folder, candidate.file_path, `files/${candidate.id.slice(0, 8)}_${safeFileName(candidate.file_name)}`);
+    }
+  }
+
+  zip.file("README.txt", readme(data, missing));
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
+
+/** e.g. "resume-data-2025-12-09.zip" */
+export const exportArchiveName = (exportedAt: string) => `resume-data-${exportedAt.slice(0, 10)}.zip`;
+
+/**
+ * Deletes the account through the delete-account edge function: uploaded
+ * files, every row and finally the auth user. The caller should then sign
+ * out locally, since the session points at a user that no longer exists.
+ */
+export async function deleteAccount(): Promise<void> {
+  const { error } = await supabase.functions.invoke("delete-account", { body: { confirm: true } });
+  if (error) throw error;
+}
@@ -0,0 +1,238 @@
+import type { ExperienceEntry, ParsedResume } from "@/lib/parsedResume";
+import { canonicalSkillName, skillKey } from "@/lib/skillTaxonomy";
+
+/**
+ * Turns the output of improve-resume into individually acceptable suggestions
+ * and merges the accepted ones into a copy of the resume.
+ *
+ * The model rewrites each experience entry's bullets in order, so improved
+ * bullet i replaces original bullet i; extra improved bullets are appended.
+ * Suggestions whose experience cannot be matched are shown but not applied.
+ * Suggestions are built against the version that was analysed; when the
+ * resume has changed since, applySuggestionsToLaterVersion matches bullets by
+ * their original text instead of their position.
+ */
+
+export interface ExperienceSuggestion {
+  originalExperience: string;
+  /** Index into resume.experience, or -1 when no entry matched */
+  experienceIndex: number;
+  bullets: string[];
+}
+
+export interface ResumeSuggestions {
+  summary: string | null;
+  experiences: ExperienceSuggestion[];
+  skills: string[];
+}
+
+export interface AcceptedSuggestions {
+  summary: boolean;
+  /** Keys built with bulletKey() */
+  bullets: Set<string>;
+  skills: Set<string>;
+}
+
+export interface ImprovementsInput {
+  improvedSummary?: string | null;
+  improvedBullets?: unknown;
+  suggestedSkills?: string[] | null;
+}
+
+export const bulletKey = (suggestionIndex: number, bulletIndex: number) => `${suggestionIndex}:${bulletIndex}`;
+
+const norm = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ");
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/** improved_bullets is stored as raw model output, so tolerate missing or mistyped fields */
+export function toImprovedExperiences(value: unknown): Omit<ExperienceSuggestion, "experienceIndex">[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(isRecord)
+    .map((item) => ({
+      originalExperience: typeof item.originalExperience === "string" ? item.originalExperience : "",
+      bullets: Array.isArray(item.improvedBullets)
+        ? item.improvedBullets.filter((b): b is string => typeof b === "string" && b.trim().length > 0)
+        : typeof item.improvedBullets === "string"
+        ? [item.improvedBullets]
+        : [],
+    }))
+    .filter((item) => item.originalExperience || item.bullets.length > 0);
+}
+
+/**
+ * Scores how well a free-text label such as "Senior Engineer at Acme
+ * (2020 - 2023)" describes an experience entry. Company outweighs title
+ * because titles repeat across jobs far more often than employers do.
+ */
+function matchScore(label: string, exp: ExperienceEntry): number {
+  const normalized = norm(label);
+  let score = 0;
+  if (exp.company && normalized.includes(norm(exp.company))) score += 2;
+  if (exp.title && normalized.includes(norm(exp.title))) score += 1;
+  if (score > 0 && exp.duration && normalized.includes(norm(exp.duration))) score += 1;
+  return score;
+}
+
+/**
+ * Finds the experience entry a suggestion refers to, skipping entries that an
+ * earlier suggestion already claimed. Returns -1 when nothing matches.
+ */
+export function matchExperience(label: string, experience: ExperienceEntry[], claimed = new Set<number>()): number {
+  let best = -1;
+  let bestScore = 0;
+  for (let i = 0; i < experience.length; i++) {
+    if (claimed.has(i)) continue;
+    const score = matchScore(label, experience[i]);
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function buildSuggestions(resume: ParsedResume, input: ImprovementsInput): ResumeSuggestions {
+  const claimed = new Set<number>();
+  const experiences = toImprovedExperiences(input.improvedBullets).map((item) => {
+    const experienceIndex = matchExperience(item.originalExperience, resume.experience, claimed);
+    if (experienceIndex !== -1) claimed.add(experienceIndex);
+    return { ...item, experienceIndex };
+  });
+
+  // Compare through the taxonomy so "ReactJS" is not suggested to a resume that lists "React"
+  const existingSkills = new Set(resume.skills.map(skillKey));
+  const skills: string[] = [];
+  for (const skill of input.suggestedSkills ?? []) {
+    const key = skillKey(skill);
+    if (!key || existingSkills.has(key)) continue;
+    existingSkills.add(key);
+    skills.push(canonicalSkillName(skill));
+  }
+
+  const summary = input.improvedSummary?.trim();
+  return {
+    summary: summary && norm(summary) !== norm(resume.summary) ? summary : null,
+    experiences,
+    skills,
+  };
+}
+
+export function countAccepted(accepted: AcceptedSuggestions): number {
+  return (accepted.summary ? 1 : 0) + accepted.bullets.size + accepted.skills.size;
+}
+
+/** Returns a new resume with the accepted suggestions merged in; the input is not modified. */
+export function applySuggestions(
+  resume: ParsedResume,
+  suggestions: ResumeSuggestions,
+  accepted: AcceptedSuggestions,
+): ParsedResume {
+  const experience = resume.experience.map((exp) => ({ ...exp, bullets: [...exp.bullets] }));
+
+  suggestions.experiences.forEach((suggestion, suggestionIndex) => {
+    const target = experience[suggestion.experienceIndex];
+    if (!target) return;
+
+    const appended: string[] = [];
+    suggestion.bullets.forEach((bullet, bulletIndex) => {
+      if (!accepted.bullets.has(bulletKey(suggestionIndex, bulletIndex))) return;
+      if (bulletIndex < resume.experience[suggestion.experienceIndex].bullets.length) {
+        target.bullets[bulletIndex] = bullet;
+      } else {
+        appended.push(bullet);
+      }
+    });
+    target.bullets.push(...appended);
+  });
+
+  return {
+    ...resume,
+    summary: accepted.summary && suggestions.summary ? suggestions.summary : resume.summary,
+    skills: [...resume.skills, ...suggestions.skills.filter((skill) => accepted.skills.has(skill))],
+    experience,
+  };
+}
+
+export interface LaterVersionResult {
+  resume: ParsedResume;
+  /** Accepted rewrites whose original bullet or experience is no longer in the resume */
+  skipped: number;
+}
+
+/** The entry in a later version that an analysed experience entry became */
+function findLaterExperience(source: ExperienceEntry, experience: ExperienceEntry[], claimed: Set<number>): number {
+  const label = [source.title, source.company, source.duration].filter(Boolean).join(" ");
+  const matched = matchExperience(label, experience, claimed);
+  if (matched !== -1) return matched;
+
+  // Title and company may have been edited too; fall back to an entry that kept one of the bullets
+  const bullets = new Set(source.bullets.map(norm));
+  return experience.findIndex((exp, i) => !claimed.has(i) && exp.bullets.some((bullet) => bullets.has(norm(bullet))));
+}
+
+/**
+ * Applies suggestions built against an earlier version of a resume to a later
+ * one. Bullets may have been edited or reordered in between, so each accepted
+ * rewrite replaces the bullet whose text matches the one it was written for,
+ * wherever it now is. Rewrites whose bullet was since changed or removed are
+ * skipped rather than replacing an unrelated bullet.
+ */
+export function applySuggestionsToLaterVersion(
+  analyzed: ParsedResume,
+  current: ParsedResume,
+  suggestions: ResumeSuggestions,
+  accepted: AcceptedSuggestions,
+): LaterVersionResult {
+  const experience = current.experience.map((exp) => ({ ...exp, bullets: [...exp.bullets] }));
+  const claimed = new Set<number>();
+  const replaced = new Set<string>();
+  let skipped = 0;
+
+  suggestions.experiences.forEach((suggestion, suggestionIndex) => {
+    const source = analyzed.experience[suggestion.experienceIndex];
+    if (!source) return;
+    const targetIndex = findLaterExperience(source, current.experience, claimed);
+    if (targetIndex !== -1) claimed.add(targetIndex);
+
+    suggestion.bullets.forEach((bullet, bulletIndex) => {
+      if (!accepted.bullets.has(bulletKey(suggestionIndex, bulletIndex))) return;
+      if (targetIndex === -1) {
+        skipped++;
+        return;
+      }
+
+      const original = source.bullets[bulletIndex];
+      if (original === undefined) {
+        experience[targetIndex].bullets.push(bullet);
+        return;
+      }
+
+      const position = current.experience[targetIndex].bullets.findIndex(
+        (existing, i) => !replaced.has(`${targetIndex}:${i}`) && norm(existing) === norm(original),
+      );
+      if (position === -1) {
+        skipped++;
+        return;
+      }
+      replaced.add(`${targetIndex}:${position}`);
+      experience[targetIndex].bullets[position] = bullet;
+    });
+  });
+
+  // The later version may already list a suggested skill
+  const existingSkills = new Set(current.skills.map(skillKey));
+  const skills = suggestions.skills.filter((skill) => accepted.skills.has(skill) && !existingSkills.has(skillKey(skill)));
+
+  return {
+    resume: {
+      ...current,
+      summary: accepted.summary && suggestions.summary ? suggestions.summary : current.summary,
+      skills: [...current.skills, ...skills],
+      experience,
+    },
+    skipped,
+  };
+}
@@ -0,0 +1,327 @@
+import type { ParsedResume } from "@/lib/parsedResume";
+import {
+  SKILL_TAXONOMY,
+  SKILL_TAXONOMY_VERSION,
+  findSkill,
+  skillAncestors,
+  skillKey,
+  tokenize,
+} from "@/lib/skillTaxonomy";
+
+/**
+ * Deterministic ATS scoring shared by the frontend and edge functions.
+ * Mirrored in supabase/functions/_shared/atsScore.ts - keep both in sync.
+ *
+ * The score is computed from the job description and parsed_data alone, so
+ * the same inputs always give the same result. It is a weighted average of
+ * explainable components:
+ * - Required skills: share of the posting's required skills found in the resume
+ * - Preferred skills: same, for "nice to have" skills
+ * - Keyword density: how often the posting's most frequent terms appear in the resume
+ * - Section completeness: contact details, summary, experience, education, skills
+ *
+ * Components that do not apply (e.g. a posting without preferred skills) are
+ * left out and the remaining weights are rescaled. Skills are recognized
+ * through the shared taxonomy, and a resume skill also covers its parents.
+ */
+
+export const ATS_SCORE_VERSION = 2;
+
+const STOPWORDS = new Set(
+  (
+    "a about above across after all also an and any are as at be been being both but by can could did do does " +
+    "e.g etc each eg for from had has have having he her his how i ie i.e if in into is it its just may more " +
+    "most must no not of on one or other our out over own per she should so some such than that the their " +
+    "them then there these they this those through to too under up us very was we were what when where which " +
+    "while who will with within without would you your " +
+    // Posting boilerplate that says nothing about the role
+    "ability able apply candidate candidates company experience experienced join including looking new " +
+    "opportunity plus preferred required requirements responsibilities role skills strong team teams " +
+    "understanding work working year years"
+  ).split(" "),
+);
+
+const TOP_KEYWORDS = 15;
+
+const WEIGHTS = {
+  requiredSkills: 45,
+  preferredSkills: 15,
+  keywordDensity: 20,
+  sectionCompleteness: 20,
+};
+
+export type AtsComponentId = keyof typeof WEIGHTS;
+
+export interface AtsComponent {
+  id: AtsComponentId;
+  label: string;
+  weight: number;
+  /** 0-100, or null when the component does not apply to this posting */
+  score: number | null;
+  detail: string;
+}
+
+export interface SkillCoverage {
+  matched: string[];
+  missing: string[];
+}
+
+export interface KeywordCount {
+  term: string;
+  jobCount: number;
+  resumeCount: number;
+}
+
+export interface AtsScore {
+  version: number;
+  taxonomyVersion: number;
+  score: number;
+  components: AtsComponent[];
+  requiredSkills: SkillCoverage;
+  preferredSkills: SkillCoverage;
+  keywords: KeywordCount[];
+  missingSections: string[];
+}
+
+/** Type guard for breakdowns read back from analyses.ats_breakdown */
+export function isAtsScore(value: unknown): value is AtsScore {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Record<string, unknown>;
+  return typeof record.score === "number" && Array.isArray(record.components);
+}
+
+interface Phrase {
+  tokens: string[];
+  key: string;
+}
+
+const buildPhrases = () => {
+  const byFirstToken = new Map<string, Phrase[]>();
+  for (const skill of SKILL_TAXONOMY) {
+    const key = skillKey(skill.name);
+    const forms = [...(skill.aliasesOnlyInText ? [] : [skill.name]), ...(skill.aliases ?? [])];
+    for (const form of forms) {
+      const tokens = tokenize(form);
+      const list = byFirstToken.get(tokens[0]) ?? [];
+      list.push({ tokens, key });
+      byFirstToken.set(tokens[0], list);
+    }
+  }
+  // Longest phrase first so "google cloud platform" wins over "google cloud"
+  for (const list of byFirstToken.values()) list.sort((a, b) => b.tokens.length - a.tokens.length);
+  return byFirstToken;
+};
+
+const TAXONOMY_PHRASES = buildPhrases();
+
+interface Term {
+  key: string;
+  skill: boolean;
+}
+
+/**
+ * Replaces skill phrases in a token stream with their canonical keys, so
+ * "React.js and Postgres" becomes react, and, postgresql (with react and
+ * postgresql marked as skills). Extra phrases (the resume's own skills) are
+ * matched as well.
+ */
+const canonicalize = (tokens: string[], extra: Map<string, Phrase[]>): Term[] => {
+  const out: Term[] = [];
+  for (let i = 0; i < tokens.length; ) {
+    const candidates = [...(extra.get(tokens[i]) ?? []), ...(TAXONOMY_PHRASES.get(tokens[i]) ?? [])].sort(
+      (a, b) => b.tokens.length - a.tokens.length,
+    );
+    const phrase = candidates.find((p) => p.tokens.every((token, j) => tokens[i + j] === token));
+    if (phrase) {
+      out.push({ key: phrase.key, skill: true });
+      i += phrase.tokens.length;
+    } else {
+      out.push({ key: tokens[i], skill: false });
+      i += 1;
+    }
+  }
+  return out;
+};
+
+const REQUIRED_HEADING =
+  /^(requirements?|required( skills)?|must[- ]haves?|(minimum |basic )?qualifications|what you('|’)ll need|what we('|’)re looking for|who you are)\s*:?$/i;
+const PREFERRED_HEADING =
+  /^(nice[- ]to[- ]haves?|preferred( qualifications| skills)?|bonus( points)?|pluses|desired( skills)?|good to have)\s*:?$/i;
+const PREFERRED_MARKER = /\b(preferred|nice to have|a plus|bonus|ideally|desirable|is an advantage)\b/i;
+
+const isHeading = (line: string) =>
+  line.length <= 60 && (line.endsWith(":") || REQUIRED_HEADING.test(line) || PREFERRED_HEADING.test(line));
+
+/**
+ * Splits a job description into required and preferred text. A "Nice to
+ * have" heading makes the following lines preferred until the next heading;
+ * a sentence with a marker such as "is a plus" is preferred on its own.
+ */
+export function splitRequirements(jobDescription: string): { required: string; preferred: string } {
+  const required: string[] = [];
+  const preferred: string[] = [];
+  let inPreferredSection = false;
+
+  for (const rawLine of jobDescription.split(/\r?\n/)) {
+    const line = rawLine.replace(/^[\s*•\-–·]+/, "").trim();
+    if (!line) continue;
+
+    if (isHeading(line)) {
+      inPreferredSection = PREFERRED_HEADING.test(line);
+      continue;
+    }
+
+    for (const sentence of line.split(/(?<=[.;!?])\s+/)) {
+      (inPreferredSection || PREFERRED_MARKER.test(sentence) ? preferred : required).push(sentence);
+    }
+  }
+
+  return { required: required.join("\n"), preferred: preferred.join("\n") };
+}
+
+const resumeText = (resume: ParsedResume) =>
+  [
+    resume.summary,
+    resume.skills.join("\n"),
+    ...resume.experience.flatMap((exp) => [exp.title, ...exp.bullets]),
+    ...resume.projects.flatMap((project) => [project.name, project.description, project.technologies.join("\n")]),
+    ...resume.education.flatMap((edu) => [edu.degree, edu.field]),
+  ].join("\n");
+
+const countTerms = (terms: Term[]) => {
+  const counts = new Map<string, number>();
+  for (const { key } of terms) counts.set(key, (counts.get(key) ?? 0) + 1);
+  return counts;
+};
+
+const skillKeys = (terms: Term[]) => [...new Set(terms.filter((term) => term.skill).map((term) => term.key))];
+
+const percent = (part: number, total: number) => Math.round((part / total) * 100);
+
+const coverage = (jobSkills: string[], resumeTerms: Set<string>, display: (key: string) => string): SkillCoverage => ({
+  matched: jobSkills.filter((key) => resumeTerms.has(key)).map(display),
+  missing: jobSkills.filter((key) => !resumeTerms.has(key)).map(display),
+});
+
+const SECTION_CHECKS: [string, (resume: ParsedResume) => boolean][] = [
+  ["Contact details", (resume) => !!(resume.email.trim() || resume.phone.trim())],
+  ["Summary", (resume) => !!resume.summary.trim()],
+  ["Experience with bullet points", (resume) => resume.experience.some((exp) => exp.bullets.length > 0)],
+  ["Education", (resume) => resume.education.length > 0],
+  ["Skills (at least 3)", (resume) => resume.skills.length >= 3],
+];
+
+/** Scores a parsed resume against a job description. Pure and deterministic. */
+export function scoreResume(resume: ParsedResume, jobDescription: string): AtsScore {
+  // The resume's own skills count as skills when the posting mentions them, even if the taxonomy does not know them
+  const resumeSkillPhrases = new Map<string, Phrase[]>();
+  const resumeSkillNames = new Map<string, string>();
+  for (const skill of resume.skills) {
+    const key = skillKey(skill);
+    if (!key) continue;
+    const known = findSkill(skill);
+    resumeSkillNames.set(key, known?.name ?? skill.trim());
+    if (known?.aliasesOnlyInText) continue;
+    const tokens = tokenize(skill);
+    const list = resumeSkillPhrases.get(tokens[0]) ?? [];
+    list.push({ tokens, key });
+    resumeSkillPhrases.set(tokens[0], list);
+  }
+  const display = (key: string) => findSkill(key)?.name ?? resumeSkillNames.get(key) ?? key;
+
+  const { required, preferred } = splitRequirements(jobDescription);
+  const requiredTerms = canonicalize(tokenize(required), resumeSkillPhrases);
+  const preferredTerms = canonicalize(tokenize(preferred), resumeSkillPhrases);
+  const resumeTerms = canonicalize(tokenize(resumeText(resume)), resumeSkillPhrases);
+  const resumeSkills = new Set([...skillKeys(resumeTerms), ...resumeSkillNames.keys()]);
+  // A skill implies its broader skills: React experience counts towards a JavaScript requirement
+  for (const key of [...resumeSkills]) {
+    for (const ancestor of skillAncestors(display(key))) resumeSkills.add(skillKey(ancestor));
+  }
+
+  const requiredSkills = skillKeys(requiredTerms);
+  const preferredSkills = skillKeys(preferredTerms).filter((key) => !requiredSkills.includes(key));
+
+  const requiredCoverage = coverage(requiredSkills, resumeSkills, display);
+  const preferredCoverage = coverage(preferredSkills, resumeSkills, display);
+
+  // Most frequent meaningful terms in the posting, ties broken alphabetically
+  const jobCounts = countTerms(
+    [...requiredTerms, ...preferredTerms].filter(
+      (term) => term.skill || (term.key.length >= 3 && !STOPWORDS.has(term.key) && !/^\d/.test(term.key)),
+    ),
+  );
+  const jobSkills = new Set([...requiredSkills, ...preferredSkills]);
+  const resumeCounts = countTerms(resumeTerms);
+  const keywords: KeywordCount[] = [...jobCounts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, TOP_KEYWORDS)
+    .map(([term, jobCount]) => ({
+      term: jobSkills.has(term) ? display(term) : term,
+      jobCount,
+      resumeCount: resumeCounts.get(term) ?? 0,
+    }));
+
+  // Each keyword earns full credit at two mentions, so repeating a term beyond that does not help
+  const densityScore = keywords.length
+    ? Math.round((keywords.reduce((sum, k) => sum + Math.min(k.resumeCount, 2) / 2, 0) / keywords.length) * 100)
+    : null;
+  const keywordsFound = keywords.filter((k) => k.resumeCount > 0).length;
+
+  const missingSections = SECTION_CHECKS.filter(([, check]) => !check(resume)).map(([label]) => label);
+  const sectionScore = percent(SECTION_CHECKS.length - missingSections.length, SECTION_CHECKS.length);
+
+  const components: AtsComponent[] = [
+    {
+      id: "requiredSkills",
+      label: "Required skills",
+      weight: WEIGHTS.requiredSkills,
+      score: requiredSkills.length ? percent(requiredCoverage.matched.length, requiredSkills.length) : null,
+      detail: requiredSkills.length
+        ? `${requiredCoverage.matched.length} of ${requiredSkills.length} required skills found`
+        : "No required skills detected in the job description",
+    },
+    {
+      id: "preferredSkills",
+      label: "Preferred skills",
+      weight: WEIGHTS.preferredSkills,
+      score: preferredSkills.length ? percent(preferredCoverage.matched.length, preferredSkills.length) : null,
+      detail: preferredSkills.length
+        ? `${preferredCoverage.matched.length} of ${preferredSkills.length} preferred skills found`
+        : "No preferred skills detected in the job description",
+    },
+    {
+      id: "keywordDensity",
+      label: "Keyword density",
+      weight: WEIGHTS.keywordDensity,
+      score: densityScore,
+      detail: keywords.length
+        ? `${keywordsFound} of the posting's top ${keywords.length} keywords appear in the resume`
+        : "The job description has no keywords to compare",
+    },
+    {
+      id: "sectionCompleteness",
+      label: "Section completeness",
+      weight: WEIGHTS.sectionCompleteness,
+      score: sectionScore,
+      detail: missingSections.length ? `Missing: ${missingSections.join(", ")}` : "All standard sections present",
+    },
+  ];
+
+  const applicable = components.filter((component) => component.score !== null);
+  const totalWeight = applicable.reduce((sum, component) => sum + component.weight, 0);
+  const score = Math.round(
+    applicable.reduce((sum, component) => sum + component.weight * (component.score ?? 0), 0) / totalWeight,
+  );
+
+  return {
+    version: ATS_SCORE_VERSION,
+    taxonomyVersion: SKILL_TAXONOMY_VERSION,
+    score,
+    components,
+    requiredSkills: requiredCoverage,
+    preferredSkills: preferredCoverage,
+    keywords,
+    missingSections,
+  };
+}
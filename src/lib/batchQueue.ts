@@ -0,0 +1,137 @@
+/**
+ * Runs a list of async tasks with a concurrency limit and retries.
+ *
+ * Built for batch analysis, where every task makes AI calls that share one
+ * rate limit: when a task is rate limited, the whole queue pauses until the
+ * retry time rather than letting the other workers hit the same limit.
+ */
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 30_000;
+
+export type TaskStatus = "queued" | "running" | "retrying" | "done" | "failed" | "cancelled";
+
+export interface TaskState {
+  status: TaskStatus;
+  /** 1-based attempt currently running or last run */
+  attempt: number;
+  /** Milliseconds until the next attempt while retrying */
+  retryInMs?: number;
+  error?: string;
+}
+
+export interface TaskResult<R> {
+  status: "done" | "failed" | "cancelled";
+  value?: R;
+  error?: unknown;
+  attempts: number;
+}
+
+/** Thrown (or returned by classifyError) to mark a failure as worth retrying */
+export class RetryableError extends Error {
+  readonly retryAfterMs?: number;
+  readonly rateLimited: boolean;
+
+  constructor(message: string, options: { retryAfterMs?: number; rateLimited?: boolean } = {}) {
+    super(message);
+    this.name = "RetryableError";
+    this.retryAfterMs = options.retryAfterMs;
+    this.rateLimited = options.rateLimited ?? false;
+  }
+}
+
+export interface QueueOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  /** Maps a task failure to a RetryableError, or null when it should not be retried */
+  classifyError?: (error: unknown) => RetryableError | null;
+  onTaskChange?: (index: number, state: TaskState) => void;
+  /** Injectable for tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/** Exponential backoff with up to 25% jitter, capped; an explicit retry-after wins */
+export function backoffDelay(attempt: number, baseDelayMs = BASE_DELAY_MS, maxDelayMs = MAX_DELAY_MS, retryAfterMs?: number) {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, maxDelayMs);
+  const exponential = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+  return Math.round(exponential * (1 + Math.random() * 0.25));
+}
+
+/**
+ * Runs worker over every item, at most `concurrency` at a time. Results keep
+ * the order of items; a failed task never stops the others.
+ */
+export async function runQueue<T, R>(
+  items: readonly T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: QueueOptions = {},
+): Promise<TaskResult<R>[]> {
+  const {
+    concurrency = DEFAULT_CONCURRENCY,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    baseDelayMs = BASE_DELAY_MS,
+    maxDelayMs = MAX_DELAY_MS,
+    signal,
+    classifyError = (error) => (error instanceof RetryableError ? error : null),
+    onTaskChange,
+    sleep = defaultSleep,
+  } = options;
+
+  const results: TaskResult<R>[] = new Array(items.length);
+  let next = 0;
+  // Shared pause after a rate limit: no worker starts an attempt until it settles
+  let pause: Promise<unknown> = Promise.resolve();
+
+  items.forEach((_, index) => onTaskChange?.(index, { status: "queued", attempt: 0 }));
+
+  const runTask = async (index: number) => {
+    for (let attempt = 1; ; attempt++) {
+      await pause;
+      if (signal?.aborted) {
+        results[index] = { status: "cancelled", attempts: attempt - 1 };
+        onTaskChange?.(index, { status: "cancelled", attempt: attempt - 1 });
+        return;
+      }
+
+      onTaskChange?.(index, { status: "running", attempt });
+      try {
+        const value = await worker(items[index], index);
+        results[index] = { status: "done", value, attempts: attempt };
+        onTaskChange?.(index, { status: "done", attempt });
+        return;
+      } catch (error) {
+        const retryable = classifyError(error);
+        if (!retryable || attempt > maxRetries || signal?.aborted) {
+          results[index] = { status: "failed", error, attempts: attempt };
+          onTaskChange?.(index, { status: "failed", attempt, error: errorMessage(error) });
+          return;
+        }
+
+        const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs, retryable.retryAfterMs);
+        const wait = sleep(delay);
+        if (retryable.rateLimited) pause = Promise.all([pause, wait]);
+        onTaskChange?.(index, { status: "retrying", attempt, retryInMs: delay, error: errorMessage(error) });
+        await wait;
+      }
+    }
+  };
+
+  const runWorker = async () => {
+    while (next < items.length) {
+      await runTask(next++);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runWorker);
+  await Promise.all(workers);
+  return results;
+}
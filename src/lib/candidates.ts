@@ -0,0 +1,160 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { scoreResume, type AtsScore } from "@/lib/atsScore";
+import { extractTextFromFile, isJsonFile, validateResumeFile } from "@/lib/extractText";
+import { fromJsonResume } from "@/lib/jsonResume";
+import { toParsedResume, type ParsedResume } from "@/lib/parsedResume";
+import { toAnalysisError } from "@/lib/runAnalysis";
+import { sanitizeForJson } from "@/lib/sanitizeForJson";
+import { canonicalizeResumeSkills, skillKey } from "@/lib/skillTaxonomy";
+
+/**
+ * Recruiter mode: pools of candidate resumes ranked against one job.
+ *
+ * Candidates live in their own tables, apart from the user's resumes, and
+ * are ranked with the deterministic ATS score so a pool of fifty resumes
+ * needs fifty parse calls but no further AI calls to rank or re-rank.
+ */
+
+export type CandidatePool = Tables<"candidate_pools">;
+export type Candidate = Tables<"candidates">;
+
+export async function createCandidatePool(
+  userId: string,
+  name: string,
+  jobId: string | null = null,
+): Promise<CandidatePool> {
+  const { data, error } = await supabase
+    .from("candidate_pools")
+    .insert({ user_id: userId, name: name.trim(), job_id: jobId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+const parseCandidateFile = async (file: File): Promise<{ text: string; parsed: ParsedResume }> => {
+  // JSON Resume is already structured, so it skips the AI parser
+  if (isJsonFile(file)) {
+    const text = await file.text();
+    const result = fromJsonResume(text);
+    if (!result.success) throw new Error(result.error.message);
+    return { text, parsed: canonicalizeResumeSkills(result.data) };
+  }
+
+  const { text } = await extractTextFromFile(file);
+  if (!text.trim()) throw new Error("No selectable text found in this file");
+
+  const { data, error } = await supabase.functions.invoke("parse-resume", {
+    body: { resumeText: sanitizeForJson(text) },
+  });
+  if (error) throw await toAnalysisError(error);
+
+  return { text, parsed: toParsedResume(data.parsedData) };
+};
+
+/** File name without its extension and separators: "jane_doe-cv.pdf" → "jane doe cv" */
+export const nameFromFileName = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ").trim() || fileName;
+
+/**
+ * Extracts, parses and stores one candidate resume in a pool. Parse failures
+ * are thrown as AnalysisError so bulk uploads can retry rate limits.
+ */
+export async function importCandidate(userId: string, poolId: string, file: File): Promise<Candidate> {
+  const invalid = validateResumeFile(file);
+  if (invalid) throw new Error(invalid);
+
+  const { text, parsed } = await parseCandidateFile(file);
+
+  // Candidate files sit under the recruiter's folder, which the storage policies require
+  const filePath = `${userId}/candidates/${poolId}/${Date.now()}_${file.name}`;
+  const { error: uploadError } = await supabase.storage.from("resumes").upload(filePath, file);
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from("candidates")
+    .insert({
+      pool_id: poolId,
+      user_id: userId,
+      name: parsed.name || nameFromFileName(file.name),
+      email: parsed.email || null,
+      file_name: file.name,
+      file_path: filePath,
+      file_type: isJsonFile(file) ? "application/json" : file.type,
+      extracted_text: text,
+      parsed_data: parsed,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export interface RankedCandidate {
+  candidate: Candidate;
+  score: AtsScore;
+  /** Required and preferred skills from the posting found in the resume */
+  matchedSkills: string[];
+  missingSkills: string[];
+}
+
+export type CandidateSortKey = "score" | "name" | "matched" | "missing";
+
+export interface CandidateFilters {
+  search: string;
+  minScore: number;
+  /** Only candidates who have every one of these skills */
+  skills: string[];
+}
+
+export const emptyCandidateFilters = (): CandidateFilters => ({ search: "", minScore: 0, skills: [] });
+
+const byName = (a: RankedCandidate, b: RankedCandidate) => a.candidate.name.localeCompare(b.candidate.name);
+
+const SORTERS: Record<CandidateSortKey, (a: RankedCandidate, b: RankedCandidate) => number> = {
+  score: (a, b) => a.score.score - b.score.score || a.matchedSkills.length - b.matchedSkills.length,
+  name: byName,
+  matched: (a, b) => a.matchedSkills.length - b.matchedSkills.length,
+  missing: (a, b) => a.missingSkills.length - b.missingSkills.length,
+};
+
+/** Sorts a copy; ties fall back to name so the order is stable across renders */
+export function sortCandidates(
+  ranked: readonly RankedCandidate[],
+  key: CandidateSortKey,
+  direction: "asc" | "desc",
+): RankedCandidate[] {
+  const sign = direction === "asc" ? 1 : -1;
+  return [...ranked].sort((a, b) => sign * SORTERS[key](a, b) || byName(a, b));
+}
+
+/** Scores every candidate against the job description, best first */
+export function rankCandidates(candidates: readonly Candidate[], jobDescription: string): RankedCandidate[] {
+  const ranked = candidates.map((candidate) => {
+    const score = scoreResume(toParsedResume(candidate.parsed_data), jobDescription);
+    return {
+      candidate,
+      score,
+      matchedSkills: [...score.requiredSkills.matched, ...score.preferredSkills.matched],
+      missingSkills: [...score.requiredSkills.missing, ...score.preferredSkills.missing],
+    };
+  });
+  return sortCandidates(ranked, "score", "desc");
+}
+
+export function filterCandidates(ranked: readonly RankedCandidate[], filters: CandidateFilters): RankedCandidate[] {
+  const search = filters.search.trim().toLowerCase();
+  const skills = filters.skills.map(skillKey);
+
+  return ranked.filter(({ candidate, score, matchedSkills }) => {
+    if (score.score < filters.minScore) return false;
+    if (search && ![candidate.name, candidate.email, candidate.file_name].some((value) => value?.toLowerCase().includes(search))) {
+      return false;
+    }
+    const matched = new Set(matchedSkills.map(skillKey));
+    return skills.every((skill) => matched.has(skill));
+  });
+}
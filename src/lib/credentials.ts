@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+/** Sign-in and account settings validation, matching the Supabase auth password policy */
+export const emailSchema = z.string().trim().email("Please enter a valid email address");
+export const passwordSchema = z.string().min(6, "Password must be at least 6 characters");
+
+/** Digits in the one-time sign-in code Supabase emails */
+export const OTP_LENGTH = 6;
+
+/**
+ * The error Supabase puts in an auth redirect, such as an expired reset link.
+ * Implicit-flow links carry it in the hash, PKCE links in the query string.
+ */
+export function authRedirectError(location: Pick<Location, "hash" | "search">): string | null {
+  for (const params of [new URLSearchParams(location.hash.replace(/^#/, "")), new URLSearchParams(location.search)]) {
+    const description = params.get("error_description");
+    if (description) return description;
+    const error = params.get("error");
+    if (error) return error.replace(/_/g, " ");
+  }
+  return null;
+}
+
+/** Where to go after signing in when no page was requested */
+export const DEFAULT_SIGNED_IN_PATH = "/dashboard";
+
+/**
+ * The page to return to after signing in, from the ?redirect= parameter that
+ * RequireAuth adds. Only paths within the app are allowed, so the parameter
+ * cannot send users to another site.
+ */
+export function safeRedirectPath(redirect: string | null | undefined): string {
+  if (!redirect || !redirect.startsWith("/") || redirect.startsWith("//") || redirect.includes("\\")) {
+    return DEFAULT_SIGNED_IN_PATH;
+  }
+  // Sending a signed-in user back to the auth pages would loop
+  if (redirect === "/auth" || redirect.startsWith("/auth?") || redirect.startsWith("/auth/")) {
+    return DEFAULT_SIGNED_IN_PATH;
+  }
+  return redirect;
+}
+
+/** "/auth?redirect=..." for the given in-app location */
+export const signInPath = (from: string) =>
+  from === DEFAULT_SIGNED_IN_PATH ? "/auth" : `/auth?redirect=${encodeURIComponent(from)}`;
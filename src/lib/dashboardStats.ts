@@ -0,0 +1,158 @@
+import { canonicalSkillName, skillKey } from "@/lib/skillTaxonomy";
+
+/**
+ * Shapes the dashboard aggregates (the analysis_stats, missing_skill_counts
+ * and ats_score_distribution views plus lightweight analysis points) into
+ * chart data for components/ui/chart.tsx.
+ */
+
+export interface ScorePoint {
+  resume_id: string;
+  match_score: number | null;
+  ats_score: number | null;
+  created_at: string;
+}
+
+export interface AtsBucketRow {
+  bucket_start: number | null;
+  analysis_count: number | null;
+}
+
+export interface MissingSkillRow {
+  skill: string | null;
+  analysis_count: number | null;
+}
+
+export interface TrendPoint {
+  /** yyyy-mm-dd */
+  date: string;
+  matchScore: number;
+  atsScore: number | null;
+  analyses: number;
+}
+
+export interface AtsBucket {
+  /** "0-9", …, "90-100" */
+  range: string;
+  analyses: number;
+}
+
+export interface SkillCount {
+  skill: string;
+  analyses: number;
+}
+
+export interface ProgressionSeries {
+  resumeId: string;
+  label: string;
+  /** Recharts data key for this resume's line */
+  key: string;
+}
+
+export interface Progression {
+  series: ProgressionSeries[];
+  /** One row per attempt: { attempt: 1, r0: 62, r1: 70 } */
+  data: Record<string, number>[];
+}
+
+const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+// Group by the local calendar day so an evening analysis is not plotted on the next day
+const dayKey = (timestamp: string) => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/** Average match (and ATS) score per day, oldest first */
+export function matchScoreTrend(points: readonly ScorePoint[]): TrendPoint[] {
+  const days = new Map<string, ScorePoint[]>();
+  for (const point of points) {
+    if (point.match_score == null) continue;
+    const key = dayKey(point.created_at);
+    days.set(key, [...(days.get(key) ?? []), point]);
+  }
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayPoints]) => {
+      const ats = dayPoints.flatMap((point) => (point.ats_score == null ? [] : [point.ats_score]));
+      return {
+        date,
+        matchScore: average(dayPoints.map((point) => point.match_score as number)),
+        atsScore: ats.length > 0 ? average(ats) : null,
+        analyses: dayPoints.length,
+      };
+    });
+}
+
+/** All ten ATS buckets, including empty ones, so the histogram keeps its shape */
+export function atsDistribution(rows: readonly AtsBucketRow[]): AtsBucket[] {
+  return Array.from({ length: 10 }, (_, index) => {
+    const start = index * 10;
+    const row = rows.find((r) => r.bucket_start === start);
+    return { range: `${start}-${start === 90 ? 100 : start + 9}`, analyses: row?.analysis_count ?? 0 };
+  });
+}
+
+/**
+ * Most frequently missing skills. Rows written before skills were canonicalized
+ * ("ReactJS", "React.js") are merged under their canonical name.
+ */
+export function topMissingSkills(rows: readonly MissingSkillRow[], limit = 10): SkillCount[] {
+  const counts = new Map<string, SkillCount>();
+  for (const row of rows) {
+    if (!row.skill?.trim()) continue;
+    const key = skillKey(row.skill);
+    const entry = counts.get(key) ?? { skill: canonicalSkillName(row.skill), analyses: 0 };
+    entry.analyses += row.analysis_count ?? 0;
+    counts.set(key, entry);
+  }
+
+  return [...counts.values()]
+    .sort((a, b) => b.analyses - a.analyses || a.skill.localeCompare(b.skill))
+    .slice(0, limit);
+}
+
+/**
+ * Match score of each resume's 1st, 2nd, 3rd… analysis, for the resumes with
+ * the most analyses. Lines share an "attempt" axis so progress is comparable
+ * regardless of when each resume was analyzed.
+ */
+export function resumeProgression(
+  points: readonly ScorePoint[],
+  resumeNames: Record<string, string>,
+  maxResumes = 5,
+): Progression {
+  const byResume = new Map<string, ScorePoint[]>();
+  for (const point of points) {
+    if (point.match_score == null) continue;
+    byResume.set(point.resume_id, [...(byResume.get(point.resume_id) ?? []), point]);
+  }
+
+  const resumes = [...byResume.entries()]
+    .sort(([, a], [, b]) => b.length - a.length)
+    .slice(0, maxResumes)
+    .map(([resumeId, resumePoints]) => ({
+      resumeId,
+      points: [...resumePoints].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    }));
+
+  const series = resumes.map(({ resumeId }, index) => ({
+    resumeId,
+    label: resumeNames[resumeId] ?? "Deleted resume",
+    key: `r${index}`,
+  }));
+
+  const attempts = Math.max(0, ...resumes.map(({ points: resumePoints }) => resumePoints.length));
+  const data = Array.from({ length: attempts }, (_, attempt) => {
+    const row: Record<string, number> = { attempt: attempt + 1 };
+    resumes.forEach(({ points: resumePoints }, index) => {
+      const point = resumePoints[attempt];
+      if (point) row[series[index].key] = point.match_score as number;
+    });
+    return row;
+  });
+
+  return { series, data };
+}
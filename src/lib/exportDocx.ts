@@ -0,0 +1,299 @@
+import JSZip from "jszip";
+import type { ParsedResume } from "@/lib/parsedResume";
+import { DEFAULT_PDF_OPTIONS, type PdfExportOptions, type ResumeTemplate } from "@/lib/exportPdf";
+
+/**
+ * DOCX export for ParsedResume.
+ *
+ * Writes a minimal Office Open XML package by hand. Structure is carried by
+ * real Word styles rather than visual formatting, which is what ATS parsers
+ * (and our own extractDocxText) rely on:
+ * - Title for the name, Heading1 for sections, Heading2 for entries
+ * - ListBullet paragraphs backed by a numbering definition for bullets
+ * - One paragraph per fact; no tables, tabs or text boxes
+ *
+ * Template, page size and margins follow the PDF export options. Zip entries
+ * get a fixed timestamp so the same resume always produces the same bytes.
+ */
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const R_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PKG_RELS_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+const REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// DOS timestamps cannot go below 1980
+const FIXED_DATE = new Date(Date.UTC(1980, 0, 1));
+
+interface DocxTemplateStyle {
+  font: string;
+  /** Sizes in half-points, as Word stores them */
+  bodySize: number;
+  nameSize: number;
+  headingSize: number;
+  accent: string;
+  caps: boolean;
+  rule: boolean;
+  center: boolean;
+  spacingAfter: number;
+}
+
+const DOCX_TEMPLATES: Record<ResumeTemplate, DocxTemplateStyle> = {
+  classic: {
+    font: "Times New Roman",
+    bodySize: 21,
+    nameSize: 40,
+    headingSize: 22,
+    accent: "1A1A1A",
+    caps: true,
+    rule: true,
+    center: true,
+    spacingAfter: 60,
+  },
+  modern: {
+    font: "Calibri",
+    bodySize: 20,
+    nameSize: 48,
+    headingSize: 24,
+    accent: "1F4F99",
+    caps: false,
+    rule: true,
+    center: false,
+    spacingAfter: 80,
+  },
+  compact: {
+    font: "Arial",
+    bodySize: 18,
+    nameSize: 32,
+    headingSize: 19,
+    accent: "1A1A1A",
+    caps: true,
+    rule: false,
+    center: false,
+    spacingAfter: 40,
+  },
+};
+
+/** Page dimensions and margins in twentieths of a point */
+const PAGE_TWIPS = { letter: [12240, 15840], a4: [11906, 16838] } as const;
+const MARGIN_TWIPS = { narrow: 720, normal: 1080, wide: 1440 } as const;
+
+/** Escapes text for XML and drops characters XML 1.0 does not allow */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/[^\t\n\r\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const run = (text: string, props = "") =>
+  `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const paragraph = (style: string, content: string, extraProps = "") =>
+  `<w:p><w:pPr><w:pStyle w:val="${style}"/>${extraProps}</w:pPr>${content}</w:p>`;
+
+const isUrl = (value: string) => /^https?:\/\/\S+$/i.test(value);
+
+class DocumentBuilder {
+  private paragraphs: string[] = [];
+  private hyperlinks: string[] = [];
+
+  add(style: string, text: string) {
+    if (text.trim()) this.paragraphs.push(paragraph(style, run(text)));
+  }
+
+  bullet(text: string) {
+    if (!text.trim()) return;
+    this.paragraphs.push(
+      paragraph("ListBullet", run(text), '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>'),
+    );
+  }
+
+  /** Contact line; URLs become hyperlinks whose text is the URL itself */
+  contact(items: string[]) {
+    const parts = items.filter(Boolean).map((item, i) => {
+      const separator = i > 0 ? run(" | ") : "";
+      if (!isUrl(item)) return separator + run(item);
+      this.hyperlinks.push(item);
+      const id = `rIdLink${this.hyperlinks.length}`;
+      return `${separator}<w:hyperlink r:id="${id}" w:history="1">${run(item, '<w:rStyle w:val="Hyperlink"/>')}</w:hyperlink>`;
+    });
+    if (parts.length > 0) this.paragraphs.push(paragraph("Contact", parts.join("")));
+  }
+
+  documentXml(options: PdfExportOptions) {
+    const [width, height] = PAGE_TWIPS[options.pageSize];
+    const margin = MARGIN_TWIPS[options.margins];
+    const sectPr =
+      `<w:sectPr><w:pgSz w:w="${width}" w:h="${height}"/>` +
+      `<w:pgMar w:top="${margin}" w:right="${margin}" w:bottom="${margin}" w:left="${margin}" w:header="708" w:footer="708" w:gutter="0"/>` +
+      `</w:sectPr>`;
+    return (
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+      `<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>${this.paragraphs.join("")}${sectPr}</w:body></w:document>`
+    );
+  }
+
+  relationshipsXml() {
+    const links = this.hyperlinks.map(
+      (target, i) =>
+        `<Relationship Id="rIdLink${i + 1}" Type="${REL_TYPE}/hyperlink" Target="${escapeXml(target)}" TargetMode="External"/>`,
+    );
+    return (
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+      `<Relationships xmlns="${PKG_RELS_NS}">` +
+      `<Relationship Id="rIdStyles" Type="${REL_TYPE}/styles" Target="styles.xml"/>` +
+      `<Relationship Id="rIdNumbering" Type="${REL_TYPE}/numbering" Target="numbering.xml"/>` +
+      links.join("") +
+      `</Relationships>`
+    );
+  }
+}
+
+function stylesXml(template: ResumeTemplate): string {
+  const style = DOCX_TEMPLATES[template];
+  const font = `<w:rFonts w:ascii="${style.font}" w:hAnsi="${style.font}" w:cs="${style.font}"/>`;
+  const center = style.center ? '<w:jc w:val="center"/>' : "";
+  const caps = style.caps ? "<w:caps/>" : "";
+  const rule = style.rule
+    ? `<w:pBdr><w:bottom w:val="single" w:sz="4" w:space="1" w:color="${style.accent}"/></w:pBdr>`
+    : "";
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<w:styles xmlns:w="${W_NS}">` +
+    `<w:docDefaults>` +
+    `<w:rPrDefault><w:rPr>${font}<w:sz w:val="${style.bodySize}"/><w:szCs w:val="${style.bodySize}"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>` +
+    `<w:pPrDefault><w:pPr><w:spacing w:after="${style.spacingAfter}" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault>` +
+    `</w:docDefaults>` +
+    `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>` +
+    `<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Contact"/><w:qFormat/>` +
+    `<w:pPr>${center}<w:spacing w:after="40"/></w:pPr>` +
+    `<w:rPr><w:b/><w:color w:val="${style.accent}"/><w:sz w:val="${style.nameSize}"/><w:szCs w:val="${style.nameSize}"/></w:rPr></w:style>` +
+    `<w:style w:type="paragraph" w:customStyle="1" w:styleId="Contact"><w:name w:val="Contact"/><w:basedOn w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr>${center}</w:pPr><w:rPr><w:color w:val="595959"/></w:rPr></w:style>` +
+    `<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/>${rule}<w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="0"/></w:pPr>` +
+    `<w:rPr><w:b/>${caps}<w:color w:val="${style.accent}"/><w:sz w:val="${style.headingSize}"/><w:szCs w:val="${style.headingSize}"/></w:rPr></w:style>` +
+    `<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="120" w:after="0"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/></w:rPr></w:style>` +
+    `<w:style w:type="paragraph" w:customStyle="1" w:styleId="EntryDetails"><w:name w:val="Entry Details"/><w:basedOn w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/></w:pPr><w:rPr><w:i/><w:color w:val="595959"/></w:rPr></w:style>` +
+    `<w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:numPr><w:numId w:val="1"/></w:numPr><w:spacing w:after="20"/><w:ind w:left="360" w:hanging="360"/></w:pPr></w:style>` +
+    `<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>` +
+    `</w:styles>`
+  );
+}
+
+const NUMBERING_XML =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<w:numbering xmlns:w="${W_NS}">` +
+  `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/>` +
+  `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/>` +
+  `<w:pPr><w:ind w:left="360" w:hanging="360"/></w:pPr></w:lvl>` +
+  `</w:abstractNum>` +
+  `<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>` +
+  `</w:numbering>`;
+
+const CONTENT_TYPES_XML =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+  `<Default Extension="xml" ContentType="application/xml"/>` +
+  `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>` +
+  `<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>` +
+  `<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>` +
+  `<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>` +
+  `<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>` +
+  `</Types>`;
+
+const PACKAGE_RELS_XML =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<Relationships xmlns="${PKG_RELS_NS}">` +
+  `<Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="word/document.xml"/>` +
+  `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>` +
+  `<Relationship Id="rId3" Type="${REL_TYPE}/extended-properties" Target="docProps/app.xml"/>` +
+  `</Relationships>`;
+
+const APP_XML =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>Resume AI Pro</Application></Properties>`;
+
+// No created/modified dates, to keep output deterministic
+const coreXml = (resume: ParsedResume) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">` +
+  `<dc:title>${escapeXml(resume.name ? `${resume.name} - Resume` : "Resume")}</dc:title>` +
+  (resume.name ? `<dc:creator>${escapeXml(resume.name)}</dc:creator>` : "") +
+  `</cp:coreProperties>`;
+
+/** Lays out the resume as styled paragraphs, in the same section order as the PDF export */
+function buildDocument(resume: ParsedResume): DocumentBuilder {
+  const doc = new DocumentBuilder();
+
+  doc.add("Title", resume.name);
+  doc.contact([resume.email, resume.phone, resume.location, ...resume.links]);
+
+  if (resume.summary) {
+    doc.add("Heading1", "Summary");
+    doc.add("Normal", resume.summary);
+  }
+
+  if (resume.experience.length > 0) {
+    doc.add("Heading1", "Experience");
+    for (const exp of resume.experience) {
+      doc.add("Heading2", exp.title || exp.company);
+      doc.add("EntryDetails", [exp.title ? exp.company : "", exp.location, exp.duration].filter(Boolean).join(" | "));
+      exp.bullets.forEach((bullet) => doc.bullet(bullet));
+    }
+  }
+
+  if (resume.education.length > 0) {
+    doc.add("Heading1", "Education");
+    for (const edu of resume.education) {
+      const degree = [edu.degree, edu.field].filter(Boolean).join(" in ");
+      doc.add("Heading2", degree || edu.institution);
+      doc.add("EntryDetails", [degree ? edu.institution : "", edu.year].filter(Boolean).join(" | "));
+    }
+  }
+
+  if (resume.projects.length > 0) {
+    doc.add("Heading1", "Projects");
+    for (const project of resume.projects) {
+      doc.add("Heading2", project.name || "Project");
+      doc.add("EntryDetails", project.technologies.join(", "));
+      doc.add("Normal", project.description);
+    }
+  }
+
+  if (resume.skills.length > 0) {
+    doc.add("Heading1", "Skills");
+    doc.add("Normal", resume.skills.join(", "));
+  }
+
+  return doc;
+}
+
+export async function renderResumeDocx(
+  resume: ParsedResume,
+  options: PdfExportOptions = DEFAULT_PDF_OPTIONS,
+): Promise<Uint8Array> {
+  const doc = buildDocument(resume);
+  const zip = new JSZip();
+  const add = (path: string, content: string) => zip.file(path, content, { date: FIXED_DATE });
+
+  add("[Content_Types].xml", CONTENT_TYPES_XML);
+  add("_rels/.rels", PACKAGE_RELS_XML);
+  add("docProps/core.xml", coreXml(resume));
+  add("docProps/app.xml", APP_XML);
+  add("word/document.xml", doc.documentXml(options));
+  add("word/styles.xml", stylesXml(options.template));
+  add("word/numbering.xml", NUMBERING_XML);
+  add("word/_rels/document.xml.rels", doc.relationshipsXml());
+
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE", mimeType: DOCX_MIME_TYPE });
+}
@@ -0,0 +1,420 @@
+import type { ParsedResume } from "@/lib/parsedResume";
+
+/**
+ * Client-side PDF export for ParsedResume.
+ *
+ * Rendering happens in two steps so the output can be snapshot-tested:
+ * 1. layoutResume() is a pure function that turns a resume into positioned
+ *    draw operations, given a text measuring function
+ * 2. renderResumePdf() measures with pdf-lib's standard fonts and draws the
+ *    operations into a PDF without timestamps, so the same input always
+ *    produces the same bytes
+ *
+ * Output is ATS-safe: a single text column in reading order, real text with
+ * standard fonts, no images, tables or text boxes.
+ */
+
+export type ResumeTemplate = "classic" | "modern" | "compact";
+export type PageSize = "letter" | "a4";
+export type MarginSize = "narrow" | "normal" | "wide";
+
+export interface PdfExportOptions {
+  template: ResumeTemplate;
+  pageSize: PageSize;
+  margins: MarginSize;
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfExportOptions = {
+  template: "classic",
+  pageSize: "letter",
+  margins: "normal",
+};
+
+export const TEMPLATE_LABELS: Record<ResumeTemplate, string> = {
+  classic: "Classic",
+  modern: "Modern",
+  compact: "Compact",
+};
+
+export const PAGE_SIZE_LABELS: Record<PageSize, string> = {
+  letter: "US Letter",
+  a4: "A4",
+};
+
+export const MARGIN_LABELS: Record<MarginSize, string> = {
+  narrow: "Narrow (0.5 in)",
+  normal: "Normal (0.75 in)",
+  wide: "Wide (1 in)",
+};
+
+/** Page dimensions in PDF points (1/72 inch) */
+export const PAGE_SIZES: Record<PageSize, [number, number]> = {
+  letter: [612, 792],
+  a4: [595.28, 841.89],
+};
+
+const MARGINS: Record<MarginSize, number> = {
+  narrow: 36,
+  normal: 54,
+  wide: 72,
+};
+
+export type FontStyle = "regular" | "bold" | "italic";
+export type Rgb = [number, number, number];
+
+export interface TextOp {
+  kind: "text";
+  x: number;
+  y: number;
+  text: string;
+  font: FontStyle;
+  size: number;
+  color: Rgb;
+}
+
+export interface RuleOp {
+  kind: "rule";
+  x1: number;
+  x2: number;
+  y: number;
+  thickness: number;
+  color: Rgb;
+}
+
+export type DrawOp = TextOp | RuleOp;
+
+export interface LayoutPage {
+  width: number;
+  height: number;
+  ops: DrawOp[];
+}
+
+export type MeasureText = (text: string, font: FontStyle, size: number) => number;
+
+interface TemplateStyle {
+  family: "times" | "helvetica";
+  align: "left" | "center";
+  nameSize: number;
+  contactSize: number;
+  headingSize: number;
+  bodySize: number;
+  lineHeight: number;
+  sectionGap: number;
+  entryGap: number;
+  uppercaseHeadings: boolean;
+  rule: boolean;
+  accent: Rgb;
+}
+
+const TEXT_COLOR: Rgb = [0.1, 0.1, 0.1];
+const MUTED_COLOR: Rgb = [0.35, 0.35, 0.35];
+
+const TEMPLATES: Record<ResumeTemplate, TemplateStyle> = {
+  classic: {
+    family: "times",
+    align: "center",
+    nameSize: 20,
+    contactSize: 10,
+    headingSize: 11,
+    bodySize: 10.5,
+    lineHeight: 1.3,
+    sectionGap: 12,
+    entryGap: 6,
+    uppercaseHeadings: true,
+    rule: true,
+    accent: TEXT_COLOR,
+  },
+  modern: {
+    family: "helvetica",
+    align: "left",
+    nameSize: 24,
+    contactSize: 9.5,
+    headingSize: 12,
+    bodySize: 10,
+    lineHeight: 1.35,
+    sectionGap: 14,
+    entryGap: 8,
+    uppercaseHeadings: false,
+    rule: true,
+    accent: [0.12, 0.31, 0.6],
+  },
+  compact: {
+    family: "helvetica",
+    align: "left",
+    nameSize: 16,
+    contactSize: 8.5,
+    headingSize: 9.5,
+    bodySize: 9,
+    lineHeight: 1.2,
+    sectionGap: 8,
+    entryGap: 4,
+    uppercaseHeadings: true,
+    rule: false,
+    accent: TEXT_COLOR,
+  },
+};
+
+export const FONT_FAMILIES = {
+  times: { regular: "Times-Roman", bold: "Times-Bold", italic: "Times-Italic" },
+  helvetica: { regular: "Helvetica", bold: "Helvetica-Bold", italic: "Helvetica-Oblique" },
+} as const;
+
+export const templateFonts = (template: ResumeTemplate) => FONT_FAMILIES[TEMPLATES[template].family];
+
+const BULLET = "•";
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Greedy word wrap; words wider than the line are broken by character. */
+export function wrapText(text: string, width: number, measure: (text: string) => number): string[] {
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measure(candidate) <= width) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+
+    current = "";
+    for (const char of word) {
+      if (current && measure(current + char) > width) {
+        lines.push(current);
+        current = "";
+      }
+      current += char;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+export function layoutResume(resume: ParsedResume, options: PdfExportOptions, measure: MeasureText): LayoutPage[] {
+  const style = TEMPLATES[options.template];
+  const [width, height] = PAGE_SIZES[options.pageSize];
+  const margin = MARGINS[options.margins];
+  const left = margin;
+  const right = width - margin;
+  const contentWidth = right - left;
+
+  const pages: LayoutPage[] = [];
+  let page: LayoutPage;
+  let y = 0;
+
+  const newPage = () => {
+    page = { width, height, ops: [] };
+    pages.push(page);
+    y = height - margin;
+  };
+
+  // Start a new page unless the next block fits; never break on an empty page
+  const ensure = (needed: number) => {
+    if (y - needed < margin && y < height - margin) newPage();
+  };
+
+  const lineHeight = (size: number) => size * style.lineHeight;
+
+  const drawText = (text: string, x: number, size: number, font: FontStyle, color: Rgb = TEXT_COLOR) => {
+    page.ops.push({ kind: "text", x: round(x), y: round(y - size), text, font, size, color });
+  };
+
+  const alignedX = (text: string, size: number, font: FontStyle) =>
+    style.align === "center" ? left + (contentWidth - measure(text, font, size)) / 2 : left;
+
+  const paragraph = (text: string, size: number, font: FontStyle, indent = 0, color: Rgb = TEXT_COLOR) => {
+    for (const line of wrapText(text, contentWidth - indent, (t) => measure(t, font, size))) {
+      ensure(lineHeight(size));
+      drawText(line, left + indent, size, font, color);
+      y -= lineHeight(size);
+    }
+  };
+
+  // A bold line with an optional right-aligned note, e.g. title and dates
+  const entryHeader = (title: string, note: string) => {
+    const size = style.bodySize;
+    const noteWidth = note ? measure(note, "regular", size) : 0;
+    const titleLines = wrapText(title, contentWidth - (noteWidth ? noteWidth + 12 : 0), (t) => measure(t, "bold", size));
+    (titleLines.length > 0 ? titleLines : [""]).forEach((line, i) => {
+      ensure(lineHeight(size));
+      if (line) drawText(line, left, size, "bold");
+      if (i === 0 && note) drawText(note, right - noteWidth, size, "regular", MUTED_COLOR);
+      y -= lineHeight(size);
+    });
+  };
+
+  const bullets = (items: string[]) => {
+    const size = style.bodySize;
+    const indent = size * 1.4;
+    for (const item of items) {
+      const lines = wrapText(item, contentWidth - indent, (t) => measure(t, "regular", size));
+      lines.forEach((line, i) => {
+        ensure(lineHeight(size));
+        if (i === 0) drawText(BULLET, left + size * 0.4, size, "regular");
+        drawText(line, left + indent, size, "regular");
+        y -= lineHeight(size);
+      });
+    }
+  };
+
+  const sectionHeading = (title: string) => {
+    const size = style.headingSize;
+    // Keep the heading with at least two lines of its content
+    ensure(style.sectionGap + lineHeight(size) + lineHeight(style.bodySize) * 2);
+    if (y < height - margin) y -= style.sectionGap;
+    drawText(style.uppercaseHeadings ? title.toUpperCase() : title, left, size, "bold", style.accent);
+    y -= lineHeight(size);
+    if (style.rule) {
+      page.ops.push({ kind: "rule", x1: left, x2: right, y: round(y + size * 0.15), thickness: 0.6, color: style.accent });
+      y -= size * 0.3;
+    }
+  };
+
+  newPage();
+
+  // Header
+  if (resume.name) {
+    drawText(resume.name, alignedX(resume.name, style.nameSize, "bold"), style.nameSize, "bold", style.accent);
+    y -= lineHeight(style.nameSize);
+  }
+  const contact = [resume.email, resume.phone, resume.location, ...resume.links].filter(Boolean).join("  |  ");
+  if (contact) {
+    for (const line of wrapText(contact, contentWidth, (t) => measure(t, "regular", style.contactSize))) {
+      drawText(line, alignedX(line, style.contactSize, "regular"), style.contactSize, "regular", MUTED_COLOR);
+      y -= lineHeight(style.contactSize);
+    }
+  }
+
+  if (resume.summary) {
+    sectionHeading("Summary");
+    paragraph(resume.summary, style.bodySize, "regular");
+  }
+
+  if (resume.experience.length > 0) {
+    sectionHeading("Experience");
+    resume.experience.forEach((exp, i) => {
+      if (i > 0) y -= style.entryGap;
+      ensure(lineHeight(style.bodySize) * 3);
+      entryHeader(exp.title || exp.company, exp.duration);
+      const subtitle = [exp.title ? exp.company : "", exp.location].filter(Boolean).join(", ");
+      if (subtitle) paragraph(subtitle, style.bodySize, "italic");
+      bullets(exp.bullets);
+    });
+  }
+
+  if (resume.education.length > 0) {
+    sectionHeading("Education");
+    resume.education.forEach((edu, i) => {
+      if (i > 0) y -= style.entryGap;
+      ensure(lineHeight(style.bodySize) * 2);
+      const degree = [edu.degree, edu.field].filter(Boolean).join(" in ");
+      entryHeader(degree || edu.institution, edu.year);
+      if (degree && edu.institution) paragraph(edu.institution, style.bodySize, "italic");
+    });
+  }
+
+  if (resume.projects.length > 0) {
+    sectionHeading("Projects");
+    resume.projects.forEach((project, i) => {
+      if (i > 0) y -= style.entryGap;
+      ensure(lineHeight(style.bodySize) * 2);
+      entryHeader(project.name || "Project", "");
+      if (project.technologies.length > 0) {
+        paragraph(project.technologies.join(", "), style.bodySize, "italic", 0, MUTED_COLOR);
+      }
+      if (project.description) paragraph(project.description, style.bodySize, "regular");
+    });
+  }
+
+  if (resume.skills.length > 0) {
+    sectionHeading("Skills");
+    paragraph(resume.skills.join(", "), style.bodySize, "regular");
+  }
+
+  return pages;
+}
+
+// Code points outside Latin-1 that WinAnsiEncoding (used by the standard fonts) can still draw
+const WIN_ANSI_EXTRA = new Set([
+  0x20ac, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x017d, 0x2018,
+  0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x017e, 0x0178,
+]);
+
+const isWinAnsi = (codePoint: number) =>
+  (codePoint >= 0x20 && codePoint <= 0x7e) || (codePoint >= 0xa0 && codePoint <= 0xff) || WIN_ANSI_EXTRA.has(codePoint);
+
+/**
+ * Standard PDF fonts only cover WinAnsiEncoding. Characters outside it are
+ * replaced by their unaccented form when one exists, otherwise by "?".
+ */
+export function toWinAnsi(text: string): string {
+  let result = "";
+  for (const char of text) {
+    const codePoint = char.codePointAt(0) ?? 0;
+    if (isWinAnsi(codePoint)) {
+      result += char;
+    } else if (/\s/.test(char)) {
+      result += " ";
+    } else {
+      const base = char.normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+      result += base && [...base].every((c) => isWinAnsi(c.codePointAt(0) ?? 0)) ? base : "?";
+    }
+  }
+  return result;
+}
+
+const mapResumeText = (resume: ParsedResume, fn: (text: string) => string): ParsedResume =>
+  JSON.parse(JSON.stringify(resume), (_key, value) => (typeof value === "string" ? fn(value) : value));
+
+/** Builds a download name such as "jane-doe-resume.pdf" */
+export function exportFileName(resume: ParsedResume, extension: string): string {
+  const slug = resume.name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug ? `${slug}-` : ""}resume.${extension}`;
+}
+
+export async function renderResumePdf(
+  resume: ParsedResume,
+  options: PdfExportOptions = DEFAULT_PDF_OPTIONS,
+): Promise<Uint8Array> {
+  const { PDFDocument, rgb } = await import("pdf-lib");
+
+  // updateMetadata: false keeps creation/modification dates out of the file
+  const doc = await PDFDocument.create({ updateMetadata: false });
+  const names = templateFonts(options.template);
+  const fonts = {
+    regular: await doc.embedFont(names.regular),
+    bold: await doc.embedFont(names.bold),
+    italic: await doc.embedFont(names.italic),
+  };
+
+  const safeResume = mapResumeText(resume, toWinAnsi);
+  const pages = layoutResume(safeResume, options, (text, font, size) => fonts[font].widthOfTextAtSize(text, size));
+
+  for (const layout of pages) {
+    const page = doc.addPage([layout.width, layout.height]);
+    for (const op of layout.ops) {
+      if (op.kind === "text") {
+        page.drawText(op.text, { x: op.x, y: op.y, size: op.size, font: fonts[op.font], color: rgb(...op.color) });
+      } else {
+        page.drawLine({
+          start: { x: op.x1, y: op.y },
+          end: { x: op.x2, y: op.y },
+          thickness: op.thickness,
+          color: rgb(...op.color),
+        });
+      }
+    }
+  }
+
+  doc.setTitle(safeResume.name ? `${safeResume.name} - Resume` : "Resume");
+  if (safeResume.name) doc.setAuthor(safeResume.name);
+  doc.setCreator("Resume AI Pro");
+  doc.setProducer("Resume AI Pro");
+
+  return doc.save({ useObjectStreams: false });
+}
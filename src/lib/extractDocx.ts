@@ -0,0 +1,214 @@
+import JSZip from "jszip";
+
+/**
+ * In-browser DOCX text extraction.
+ *
+ * A DOCX file is a zip package of WordprocessingML parts. We read
+ * word/document.xml plus any header/footer parts and walk the XML in
+ * document order so that paragraphs, list items, tables and hyperlinks come
+ * out in the same reading order a person would see them:
+ *
+ *   headers → body → footers
+ *
+ * The result is plain text with one paragraph per line, meant to be passed
+ * through sanitizeForJson() and sent to the parse-resume edge function.
+ */
+
+const W_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const R_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+const BULLET = "•";
+
+/**
+ * Maps relationship ids (r:id) to their targets from a .rels part.
+ * Only hyperlink targets are needed for text extraction.
+ */
+export function parseRelationships(relsXml: string | null | undefined): Record<string, string> {
+  const relationships: Record<string, string> = {};
+  if (!relsXml) return relationships;
+
+  const doc = new DOMParser().parseFromString(relsXml, "application/xml");
+  const rels = doc.getElementsByTagName("Relationship");
+  for (let i = 0; i < rels.length; i++) {
+    const id = rels[i].getAttribute("Id");
+    const target = rels[i].getAttribute("Target");
+    if (id && target) relationships[id] = target;
+  }
+  return relationships;
+}
+
+const isW = (node: Node, name: string): node is Element =>
+  node.nodeType === Node.ELEMENT_NODE &&
+  (node as Element).namespaceURI === W_NS &&
+  (node as Element).localName === name;
+
+const wChild = (el: Element, name: string): Element | undefined =>
+  Array.from(el.childNodes).find((child): child is Element => isW(child, name));
+
+const wVal = (el: Element | undefined): string | null =>
+  el ? el.getAttributeNS(W_NS, "val") ?? el.getAttribute("w:val") : null;
+
+/**
+ * Collects the inline text of a paragraph (runs, hyperlinks, fields, tracked
+ * insertions). Deleted text and field instructions are skipped.
+ */
+function inlineText(node: Node, relationships: Record<string, string>): string {
+  if (node.nodeType !== Node.ELEMENT_NODE) return "";
+  const el = node as Element;
+
+  if (el.namespaceURI === W_NS) {
+    switch (el.localName) {
+      case "t":
+        return el.textContent ?? "";
+      case "tab":
+        return "\t";
+      case "br":
+      case "cr":
+        return "\n";
+      case "noBreakHyphen":
+        return "-";
+      case "del":
+      case "delText":
+      case "instrText":
+      case "pPr":
+      case "rPr":
+        return "";
+      case "hyperlink": {
+        const text = Array.from(el.childNodes).map((child) => inlineText(child, relationships)).join("");
+        const id = el.getAttributeNS(R_NS, "id") ?? el.getAttribute("r:id");
+        const target = id ? relationships[id] : undefined;
+        // Keep the URL visible unless the link text already is the URL
+        if (target && !text.includes(target) && !target.startsWith("#")) {
+          return text.trim() ? `${text} (${target})` : target;
+        }
+        return text;
+      }
+    }
+  }
+
+  return Array.from(el.childNodes).map((child) => inlineText(child, relationships)).join("");
+}
+
+function paragraphText(p: Element, relationships: Record<string, string>): string {
+  const pPr = wChild(p, "pPr");
+  const text = inlineText(p, relationships).replace(/[ \t]+$/g, "");
+  if (!text.trim()) return "";
+
+  const numPr = pPr ? wChild(pPr, "numPr") : undefined;
+  const style = wVal(pPr ? wChild(pPr, "pStyle") : undefined) ?? "";
+  const isListItem = !!numPr || /^List(Bullet|Number|Paragraph)/i.test(style);
+
+  if (isListItem) {
+    const level = parseInt(wVal(numPr ? wChild(numPr, "ilvl") : undefined) ?? "0", 10) || 0;
+    return `${"  ".repeat(level)}${BULLET} ${text.trim()}`;
+  }
+
+  return text;
+}
+
+function tableLines(tbl: Element, relationships: Record<string, string>): string[] {
+  const lines: string[] = [];
+  for (const row of Array.from(tbl.childNodes)) {
+    if (!isW(row, "tr")) continue;
+
+    const cells = Array.from(row.childNodes)
+      .filter((cell): cell is Element => isW(cell, "tc"))
+      .map((cell) => blockLines(cell, relationships).map((line) => line.trim()).filter(Boolean).join(" "))
+      .filter(Boolean);
+
+    if (cells.length > 0) lines.push(cells.join(" | "));
+  }
+  return lines;
+}
+
+/**
+ * Walks block-level content (body, table cell, header, footer, content
+ * control) and returns one line per paragraph or table row.
+ */
+function blockLines(container: Element, relationships: Record<string, string>): string[] {
+  const lines: string[] = [];
+  for (const child of Array.from(container.childNodes)) {
+    if (isW(child, "p")) {
+      const text = paragraphText(child, relationships);
+      if (text) lines.push(text);
+    } else if (isW(child, "tbl")) {
+      lines.push(...tableLines(child, relationships));
+    } else if (isW(child, "sdt")) {
+      const content = wChild(child, "sdtContent");
+      if (content) lines.push(...blockLines(content, relationships));
+    } else if (isW(child, "customXml") || isW(child, "ins")) {
+      lines.push(...blockLines(child, relationships));
+    }
+  }
+  return lines;
+}
+
+/**
+ * Converts a WordprocessingML part (document, header or footer) to text.
+ *
+ * @param xml - Contents of e.g. word/document.xml
+ * @param relationships - r:id → target map from the part's .rels file
+ */
+export function docxXmlToText(xml: string, relationships: Record<string, string> = {}): string {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("DOCX contains malformed XML");
+  }
+
+  const root = doc.documentElement;
+  const body = isW(root, "document") ? wChild(root, "body") : root;
+  if (!body) return "";
+
+  return blockLines(body, relationships).join("\n");
+}
+
+const partNumber = (path: string) => parseInt(path.match(/(\d+)\.xml$/)?.[1] ?? "0", 10);
+
+async function extractParts(zip: JSZip, pattern: RegExp): Promise<string[]> {
+  const paths = Object.keys(zip.files)
+    .filter((path) => pattern.test(path))
+    .sort((a, b) => partNumber(a) - partNumber(b));
+
+  const texts: string[] = [];
+  for (const path of paths) {
+    const xml = await zip.file(path)!.async("string");
+    const relsPath = path.replace(/^word\//, "word/_rels/") + ".rels";
+    const rels = await zip.file(relsPath)?.async("string");
+    const text = docxXmlToText(xml, parseRelationships(rels)).trim();
+    // First-page/even/default headers frequently repeat the same content
+    if (text && !texts.includes(text)) texts.push(text);
+  }
+  return texts;
+}
+
+/**
+ * Extracts readable text from a DOCX file in reading order.
+ *
+ * @param data - Raw bytes of the .docx file
+ * @returns Plain text with one paragraph, list item or table row per line
+ */
+export async function extractDocxText(data: ArrayBuffer | Uint8Array): Promise<string> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error("Not a valid DOCX file: could not open the archive");
+  }
+
+  const documentFile = zip.file("word/document.xml");
+  if (!documentFile) {
+    throw new Error("Not a valid DOCX file: word/document.xml is missing");
+  }
+
+  const documentXml = await documentFile.async("string");
+  const documentRels = await zip.file("word/_rels/document.xml.rels")?.async("string");
+
+  const headers = await extractParts(zip, /^word\/header\d*\.xml$/);
+  const body = docxXmlToText(documentXml, parseRelationships(documentRels));
+  const footers = await extractParts(zip, /^word\/footer\d*\.xml$/);
+
+  return [...headers, body, ...footers]
+    .filter((section) => section.trim())
+    .join("\n\n")
+    .replace(/\n{3,}/g, "\n\n");
+}
@@ -0,0 +1,352 @@
+/**
+ * Layout-aware PDF text extraction built on pdf.js text items.
+ *
+ * pdf.js returns text as positioned fragments in content-stream order, which
+ * is not reading order: joining them scrambles two-column resumes and drops
+ * line breaks. Instead we:
+ * 1. Detect a vertical gutter that splits the page into two columns
+ * 2. Rebuild lines from item baselines and join fragments by horizontal gap
+ * 3. Normalize bullet glyphs and mark likely section headings ("## Heading")
+ * 4. Report per-page quality so the UI can warn about scanned/image-only PDFs
+ */
+
+export interface PdfTextItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+export type PdfColumn = "full" | "left" | "right";
+
+export interface PdfLine {
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  column: PdfColumn;
+  isHeading: boolean;
+}
+
+export interface PdfPageLayout {
+  lines: PdfLine[];
+  columns: 1 | 2;
+  text: string;
+}
+
+export type PdfPageStatus = "ok" | "low_text" | "no_text";
+
+export interface PdfPageQuality {
+  pageNumber: number;
+  charCount: number;
+  lineCount: number;
+  columns: 1 | 2;
+  garbledRatio: number;
+  hasImages: boolean;
+  status: PdfPageStatus;
+}
+
+export interface PdfExtractionResult {
+  text: string;
+  pages: PdfPageQuality[];
+  warnings: string[];
+}
+
+const SECTION_HEADINGS =
+  /^(professional\s+)?(summary|profile|objective|experience|work experience|employment( history)?|education|skills|technical skills|core competencies|projects|certifications?|awards|publications|languages|interests|volunteer(ing)?|references|contact)\s*:?$/i;
+
+// Common bullet glyphs, including private-use Symbol/Wingdings code points emitted by Word
+const BULLET_GLYPHS = /^[\u2022\u2023\u2043\u2219\u25AA\u25AB\u25A0\u25A1\u25CF\u25E6\u00B7\uF0A7\uF0B7\uF076\uF0D8\uF0FC]\s*/;
+
+// Replacement characters and private-use code points mean the font had no usable text map
+const GARBLED_CHARS = /[\uFFFD\uE000-\uF8FF]/g;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Converts raw pdf.js getTextContent() items to positioned fragments.
+ * Marked-content entries and empty strings are dropped.
+ */
+export function toTextItems(items: unknown[]): PdfTextItem[] {
+  const result: PdfTextItem[] = [];
+  for (const raw of items) {
+    const item = raw as { str?: string; transform?: number[]; width?: number; height?: number };
+    if (typeof item.str !== "string" || !item.transform || item.str.length === 0) continue;
+
+    const [a, b, c, d, e, f] = item.transform;
+    result.push({
+      str: item.str,
+      x: e,
+      y: f,
+      width: item.width ?? 0,
+      fontSize: Math.hypot(c, d) || Math.hypot(a, b) || item.height || 0,
+    });
+  }
+  return result;
+}
+
+/**
+ * Groups fragments sharing a baseline into lines, top to bottom.
+ */
+function buildLines(items: PdfTextItem[], column: PdfColumn): PdfLine[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const groups: PdfTextItem[][] = [];
+
+  for (const item of sorted) {
+    const current = groups[groups.length - 1];
+    const tolerance = Math.max(item.fontSize, current?.[0].fontSize ?? 0) * 0.5;
+    if (current && Math.abs(current[0].y - item.y) <= tolerance) {
+      current.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+
+  return groups
+    .map((group) => {
+      const parts = [...group].sort((a, b) => a.x - b.x);
+      let text = "";
+      let prevEnd: number | null = null;
+
+      for (const part of parts) {
+        const gap = prevEnd === null ? 0 : part.x - prevEnd;
+        if (prevEnd !== null && gap > part.fontSize * 0.2 && !text.endsWith(" ") && !part.str.startsWith(" ")) {
+          text += " ";
+        }
+        text += part.str;
+        prevEnd = part.x + part.width;
+      }
+
+      text = text.replace(/\s+/g, " ").trim().replace(BULLET_GLYPHS, "• ");
+
+      return {
+        text,
+        x: parts[0].x,
+        y: parts[0].y,
+        fontSize: Math.max(...parts.map((p) => p.fontSize)),
+        column,
+        isHeading: false,
+      };
+    })
+    .filter((line) => line.text.length > 0);
+}
+
+/**
+ * Finds the x position of a vertical gutter between two columns, or null for
+ * single-column pages. The split must be crossed by (almost) no fragments and
+ * leave a meaningful share of the text on both sides.
+ */
+export function detectColumnSplit(items: PdfTextItem[], pageWidth: number): number | null {
+  if (items.length < 8 || pageWidth <= 0) return null;
+
+  const steps = 100;
+  const counts: { x: number; crossing: number }[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const x = pageWidth * (0.25 + (0.5 * i) / steps);
+    const crossing = items.filter((item) => item.x < x - 1 && item.x + item.width > x + 1).length;
+    counts.push({ x, crossing });
+  }
+
+  const minCrossing = Math.min(...counts.map((c) => c.crossing));
+  if (minCrossing > Math.max(2, items.length * 0.1)) return null;
+
+  // Use the middle of the widest run of least-crossed positions
+  let best = { start: -1, end: -1 };
+  let runStart = -1;
+  for (let i = 0; i < counts.length; i++) {
+    if (counts[i].crossing !== minCrossing) {
+      runStart = -1;
+      continue;
+    }
+    if (runStart === -1) runStart = i;
+    if (best.start === -1 || i - runStart > best.end - best.start) best = { start: runStart, end: i };
+  }
+  const split = (counts[best.start].x + counts[best.end].x) / 2;
+
+  const left = items.filter((item) => item.x + item.width <= split);
+  const right = items.filter((item) => item.x >= split);
+  if (left.length < items.length * 0.15 || right.length < items.length * 0.15) return null;
+
+  const gutter = Math.min(...right.map((i) => i.x)) - Math.max(...left.map((i) => i.x + i.width));
+  if (gutter < median(items.map((i) => i.fontSize))) return null;
+
+  // Right-aligned dates or locations next to job titles share baselines with the
+  // left side and only appear on some rows. That is a table-like row layout,
+  // not two independent columns.
+  const leftLines = buildLines(left, "left");
+  const rightLines = buildLines(right, "right");
+  const [smaller, larger] = leftLines.length <= rightLines.length ? [leftLines, rightLines] : [rightLines, leftLines];
+  const aligned = smaller.filter((line) =>
+    larger.some((other) => Math.abs(other.y - line.y) <= line.fontSize * 0.5),
+  ).length;
+  const avgLength = smaller.reduce((sum, line) => sum + line.text.length, 0) / Math.max(smaller.length, 1);
+  const isRowLayout =
+    smaller.length > 0 && aligned / smaller.length >= 0.7 && avgLength < 25 && smaller.length <= larger.length * 0.6;
+  if (isRowLayout) return null;
+
+  return split;
+}
+
+const isLikelyHeading = (line: PdfLine, bodySize: number) => {
+  const text = line.text.replace(/:$/, "");
+  if (text.length > 60 || text.split(/\s+/).length > 6 || text.startsWith("•") || /[.,;]$/.test(text)) {
+    return false;
+  }
+  if (SECTION_HEADINGS.test(text)) return true;
+
+  const letters = text.replace(/[^A-Za-z]/g, "");
+  const isAllCaps = letters.length >= 5 && letters === letters.toUpperCase();
+  return isAllCaps || (bodySize > 0 && line.fontSize >= bodySize * 1.15);
+};
+
+const renderLines = (lines: PdfLine[]) => {
+  const output: string[] = [];
+  lines.forEach((line, i) => {
+    const prev = lines[i - 1];
+    const paragraphGap = prev && prev.column === line.column && prev.y - line.y > Math.max(prev.fontSize, line.fontSize) * 1.8;
+    if (output.length > 0 && (line.isHeading || paragraphGap || (prev && prev.column !== line.column))) {
+      output.push("");
+    }
+    output.push(line.isHeading ? `## ${line.text}` : line.text);
+  });
+  return output.join("\n").replace(/\n{3,}/g, "\n\n");
+};
+
+/**
+ * Rebuilds the reading order of a single page.
+ *
+ * Full-width content above the columns (typically name and contact details)
+ * comes first, then the left column, then the right column, then any
+ * full-width content below.
+ */
+export function layoutPage(items: PdfTextItem[], pageWidth: number): PdfPageLayout {
+  const usable = items.filter((item) => item.str.trim().length > 0);
+  const split = detectColumnSplit(usable, pageWidth);
+
+  let lines: PdfLine[];
+  if (split === null) {
+    lines = buildLines(usable, "full");
+  } else {
+    const left = usable.filter((item) => item.x + item.width <= split);
+    const right = usable.filter((item) => item.x >= split);
+    const spanning = usable.filter((item) => !left.includes(item) && !right.includes(item));
+
+    const columnTop = Math.max(...[...left, ...right].map((item) => item.y + item.fontSize * 0.5));
+    const spanningLines = buildLines(spanning, "full");
+
+    lines = [
+      ...spanningLines.filter((line) => line.y >= columnTop),
+      ...buildLines(left, "left"),
+      ...buildLines(right, "right"),
+      ...spanningLines.filter((line) => line.y < columnTop),
+    ];
+  }
+
+  // Body size is the font size carrying the most characters on the page
+  const sizeWeights = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 2) / 2;
+    sizeWeights.set(size, (sizeWeights.get(size) ?? 0) + line.text.length);
+  }
+  const bodySize = [...sizeWeights.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+
+  lines = lines.map((line) => ({ ...line, isHeading: isLikelyHeading(line, bodySize) }));
+
+  return { lines, columns: split === null ? 1 : 2, text: renderLines(lines) };
+}
+
+/**
+ * Scores how usable the extracted text of a page is.
+ *
+ * @param hasImages - Whether the page paints images; only meaningful for pages with little text
+ */
+export function assessPageQuality(
+  pageNumber: number,
+  layout: PdfPageLayout,
+  hasImages = false,
+): PdfPageQuality {
+  const chars = layout.lines.map((line) => line.text).join("").replace(/\s/g, "");
+  const garbled = chars.match(GARBLED_CHARS)?.length ?? 0;
+  const garbledRatio = chars.length > 0 ? garbled / chars.length : 0;
+
+  let status: PdfPageStatus = "ok";
+  if (chars.length === 0) status = "no_text";
+  else if (chars.length < 50 || garbledRatio > 0.3) status = "low_text";
+
+  return {
+    pageNumber,
+    charCount: chars.length,
+    lineCount: layout.lines.length,
+    columns: layout.columns,
+    garbledRatio: Math.round(garbledRatio * 100) / 100,
+    hasImages,
+    status,
+  };
+}
+
+/**
+ * Builds user-facing warnings from per-page quality reports.
+ */
+export function qualityWarnings(pages: PdfPageQuality[]): string[] {
+  const warnings: string[] = [];
+  for (const page of pages) {
+    if (page.status === "no_text") {
+      warnings.push(
+        page.hasImages
+          ? `Page ${page.pageNumber} appears to be a scanned image with no selectable text.`
+          : `Page ${page.pageNumber} has no extractable text.`,
+      );
+    } else if (page.garbledRatio > 0.3) {
+      warnings.push(`Page ${page.pageNumber} contains unreadable characters (the PDF may use an embedded font without a text map).`);
+    } else if (page.status === "low_text") {
+      warnings.push(`Page ${page.pageNumber} has very little extractable text${page.hasImages ? " and may be partly scanned" : ""}.`);
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Extracts text from a PDF in reading order using pdf.js.
+ *
+ * @param data - Raw bytes of the PDF file
+ */
+export async function extractPdfText(data: ArrayBuffer): Promise<PdfExtractionResult> {
+  // Lazy load pdf.js to reduce initial bundle size
+  const pdfjsLib = await import("pdfjs-dist");
+
+  // Use local worker file served from same origin to avoid CDN/module issues
+  pdfjsLib.GlobalWorkerOptions.workerSrc = "/assets/pdf.worker.min.mjs";
+
+  const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(data) }).promise;
+  const pageTexts: string[] = [];
+  const pages: PdfPageQuality[] = [];
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const { width } = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+    const layout = layoutPage(toTextItems(content.items), width);
+
+    let quality = assessPageQuality(i, layout);
+    if (quality.status !== "ok") {
+      // Only inspect the operator list when text is sparse; it is comparatively expensive
+      const operators = await page.getOperatorList();
+      const imageOps = [pdfjsLib.OPS.paintImageXObject, pdfjsLib.OPS.paintInlineImageXObject, pdfjsLib.OPS.paintImageMaskXObject];
+      quality = assessPageQuality(i, layout, operators.fnArray.some((fn) => imageOps.includes(fn)));
+    }
+
+    pageTexts.push(layout.text);
+    pages.push(quality);
+  }
+
+  return {
+    text: pageTexts.filter((text) => text.trim()).join("\n\n"),
+    pages,
+    warnings: qualityWarnings(pages),
+  };
+}
@@ -0,0 +1,49 @@
+import { extractDocxText } from "@/lib/extractDocx";
+import { extractPdfText } from "@/lib/extractPdf";
+
+export const DOCX_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+export const MAX_RESUME_FILE_SIZE = 10 * 1024 * 1024;
+
+// Browsers often report an empty type for .json files, so fall back to the extension
+export const isJsonFile = (file: File) => file.type === "application/json" || file.name.toLowerCase().endsWith(".json");
+
+/** Returns why a file cannot be uploaded as a resume, or null when it can */
+export function validateResumeFile(file: File): string | null {
+  // Validate file type
+  const validTypes = ["application/pdf", DOCX_TYPE];
+  if (!validTypes.includes(file.type) && !isJsonFile(file)) {
+    return "Please upload a PDF, DOCX or JSON Resume file";
+  }
+
+  // Validate file size (10MB max)
+  if (file.size > MAX_RESUME_FILE_SIZE) {
+    return "File size must be less than 10MB";
+  }
+
+  return null;
+}
+
+export async function extractTextFromFile(file: File): Promise<{ text: string; warnings: string[] }> {
+  // PRODUCTION: Binary-safe file handling with proper UTF-8 decoding
+  if (file.type === "application/pdf") {
+    // Layout-aware extraction: rebuilds lines and columns from pdf.js item positions
+    const arrayBuffer = await file.arrayBuffer();
+    const result = await extractPdfText(arrayBuffer);
+    return { text: result.text, warnings: result.warnings };
+  } else if (file.type === DOCX_TYPE) {
+    // DOCX is a zip package: unzip and walk word/document.xml in reading order
+    const arrayBuffer = await file.arrayBuffer();
+    return { text: await extractDocxText(arrayBuffer), warnings: [] };
+  } else {
+    // TXT: Read as UTF-8 text
+    // FileReader.readAsText() automatically decodes as UTF-8
+    const text = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsText(file, 'UTF-8'); // Explicit UTF-8 encoding
+    });
+    return { text, warnings: [] };
+  }
+}
@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+
+export type Job = Tables<"jobs">;
+
+export const JOB_STATUSES = ["saved", "applied", "interviewing", "offer", "rejected", "archived"] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  saved: "Saved",
+  applied: "Applied",
+  interviewing: "Interviewing",
+  offer: "Offer",
+  rejected: "Rejected",
+  archived: "Archived",
+};
+
+export const SALARY_CURRENCIES = ["USD", "EUR", "GBP", "CAD", "AUD", "INR"] as const;
+
+const toSalary = (value: string) => (value.trim() ? parseInt(value.replace(/,/g, ""), 10) : null);
+
+const orNull = (value: string) => value.trim() || null;
+
+// Salary inputs are text fields, so they are validated as digit strings and converted on save
+const salarySchema = z
+  .string()
+  .trim()
+  .regex(/^(\d[\d,]*)?$/, "Enter a whole number");
+
+export const jobFormSchema = z
+  .object({
+    title: z.string().trim().min(1, "Title is required"),
+    company: z.string().trim(),
+    location: z.string().trim(),
+    description: z.string().trim().min(1, "Description is required"),
+    source: z.string().trim(),
+    salaryMin: salarySchema,
+    salaryMax: salarySchema,
+    salaryCurrency: z.string(),
+    status: z.enum(JOB_STATUSES),
+  })
+  .refine(
+    (values) => {
+      const min = toSalary(values.salaryMin);
+      const max = toSalary(values.salaryMax);
+      return min === null || max === null || min <= max;
+    },
+    { message: "Maximum must be at least the minimum", path: ["salaryMax"] },
+  );
+
+export type JobFormValues = z.infer<typeof jobFormSchema>;
+
+export const emptyJobFormValues = (): JobFormValues => ({
+  title: "",
+  company: "",
+  location: "",
+  description: "",
+  source: "",
+  salaryMin: "",
+  salaryMax: "",
+  salaryCurrency: "USD",
+  status: "saved",
+});
+
+export const toJobFormValues = (job: Job): JobFormValues => ({
+  title: job.title,
+  company: job.company ?? "",
+  location: job.location ?? "",
+  description: job.description,
+  source: job.source ?? "",
+  salaryMin: job.salary_min?.toString() ?? "",
+  salaryMax: job.salary_max?.toString() ?? "",
+  salaryCurrency: job.salary_currency,
+  status: isJobStatus(job.status) ? job.status : "saved",
+});
+
+export const toJobRow = (values: JobFormValues): Omit<TablesInsert<"jobs">, "user_id"> => ({
+  title: values.title.trim(),
+  company: orNull(values.company),
+  location: orNull(values.location),
+  description: values.description.trim(),
+  source: orNull(values.source),
+  salary_min: toSalary(values.salaryMin),
+  salary_max: toSalary(values.salaryMax),
+  salary_currency: values.salaryCurrency,
+  status: values.status,
+});
+
+export const isJobStatus = (value: string): value is JobStatus => (JOB_STATUSES as readonly string[]).includes(value);
+
+/** "$90k – $120k", "From €60k", "Up to £80k", or null when no salary is known */
+export function formatSalary(job: Pick<Job, "salary_min" | "salary_max" | "salary_currency">): string | null {
+  const format = (amount: number) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: job.salary_currency || "USD",
+      notation: amount >= 10_000 ? "compact" : "standard",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: amount >= 10_000 ? 1 : 0,
+    })
+      .format(amount)
+      .replace("K", "k");
+
+  const { salary_min: min, salary_max: max } = job;
+  if (min != null && max != null) return min === max ? format(min) : `${format(min)} – ${format(max)}`;
+  if (min != null) return `From ${format(min)}`;
+  if (max != null) return `Up to ${format(max)}`;
+  return null;
+}
+
+/** "Acme · Berlin" from whichever of company and location are set */
+export const jobSubtitle = (job: Pick<Job, "company" | "location">) =>
+  [job.company, job.location].filter(Boolean).join(" · ");
+
+/** Creates a job for the user, or updates it when an id is given */
+export async function saveJob(userId: string, values: JobFormValues, id?: string): Promise<Job> {
+  const row = toJobRow(values);
+
+  if (id) {
+    const { data, error } = await supabase.from("jobs").update(row).eq("id", id).select().single();
+    if (error) throw error;
+    return data;
+  }
+
+  const { data, error } = await supabase
+    .from("jobs")
+    .insert({ ...row, user_id: userId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,269 @@
+import { z } from "zod";
+import {
+  normalizeParsedResume,
+  type EducationEntry,
+  type ExperienceEntry,
+  type ParsedResume,
+  type ParsedResumeResult,
+} from "@/lib/parsedResume";
+
+/**
+ * Import and export of the open JSON Resume format (https://jsonresume.org).
+ *
+ * JSON Resume is richer than ParsedResume (awards, languages, dates as
+ * ISO 8601), so import keeps what maps onto our schema and ignores the rest.
+ * Export is lossless for ParsedResume: every field survives
+ * toJsonResume → fromJsonResume. Durations and years that would not come back
+ * unchanged from ISO dates are kept in non-standard `duration`/`year`
+ * properties, which the schema allows.
+ */
+
+export const JSON_RESUME_SCHEMA_URL = "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json";
+
+const str = z.string().optional().catch(undefined);
+const strList = z.array(z.string()).optional().catch(undefined);
+const list = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .array(z.unknown())
+    .optional()
+    .catch(undefined)
+    .transform((items) =>
+      (items ?? []).flatMap((entry) => {
+        const parsed = item.safeParse(entry);
+        return parsed.success ? [parsed.data as z.infer<T>] : [];
+      }),
+    );
+
+// Lenient: real-world files often omit fields or use the wrong type for one
+const jsonResumeSchema = z.object({
+  basics: z
+    .object({
+      name: str,
+      label: str,
+      email: str,
+      phone: str,
+      url: str,
+      summary: str,
+      location: z
+        .object({ address: str, postalCode: str, city: str, countryCode: str, region: str })
+        .optional()
+        .catch(undefined),
+      profiles: list(z.object({ network: str, username: str, url: str })),
+    })
+    .optional()
+    .catch(undefined),
+  work: list(
+    z.object({
+      name: str,
+      position: str,
+      location: str,
+      startDate: str,
+      endDate: str,
+      summary: str,
+      highlights: strList,
+      duration: str,
+    }),
+  ),
+  education: list(
+    z.object({
+      institution: str,
+      area: str,
+      studyType: str,
+      startDate: str,
+      endDate: str,
+      year: str,
+    }),
+  ),
+  skills: list(z.object({ name: str, keywords: strList })),
+  projects: list(z.object({ name: str, description: str, highlights: strList, keywords: strList })),
+});
+
+export type JsonResume = z.infer<typeof jsonResumeSchema> & { $schema?: string };
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const PRESENT = /^(present|current|now|today)$/i;
+
+/** "2020-03-15" or "2020-03" → "Mar 2020", "2020" → "2020"; anything else is returned as is */
+export function formatIsoDate(value: string): string {
+  const match = value.trim().match(/^(\d{4})(?:-(\d{2})(?:-\d{2})?)?$/);
+  if (!match) return value.trim();
+  const month = match[2] ? MONTHS[parseInt(match[2], 10) - 1] : undefined;
+  return month ? `${month} ${match[1]}` : match[1];
+}
+
+/** Inverse of formatIsoDate; also accepts "03/2020" and full month names. Returns null when unparseable. */
+export function parseToIsoDate(value: string): string | null {
+  const text = value.trim();
+  if (/^\d{4}(-\d{2}(-\d{2})?)?$/.test(text)) return text;
+
+  const numeric = text.match(/^(\d{1,2})\/(\d{4})$/);
+  if (numeric && +numeric[1] >= 1 && +numeric[1] <= 12) return `${numeric[2]}-${numeric[1].padStart(2, "0")}`;
+
+  const named = text.match(/^([A-Za-z]{3,})\.?\s+(\d{4})$/);
+  if (named) {
+    const index = MONTHS.findIndex((month) => named[1].toLowerCase().startsWith(month.toLowerCase()));
+    if (index !== -1) return `${named[2]}-${String(index + 1).padStart(2, "0")}`;
+  }
+  return null;
+}
+
+const formatDuration = (startDate?: string, endDate?: string) => {
+  if (!startDate) return endDate ? formatIsoDate(endDate) : "";
+  return `${formatIsoDate(startDate)} - ${endDate ? formatIsoDate(endDate) : "Present"}`;
+};
+
+/** Splits "Mar 2020 - Present" into ISO start/end dates, or returns null if either side is unparseable */
+const parseDuration = (duration: string): { startDate?: string; endDate?: string } | null => {
+  if (!duration.trim()) return {};
+  const parts = duration.split(/\s+[-–—]\s+|\s+to\s+/i);
+  if (parts.length === 1) {
+    const date = parseToIsoDate(parts[0]);
+    return date ? { endDate: date } : null;
+  }
+  if (parts.length !== 2) return null;
+
+  const startDate = parseToIsoDate(parts[0]);
+  if (!startDate) return null;
+  if (PRESENT.test(parts[1].trim())) return { startDate };
+  const endDate = parseToIsoDate(parts[1]);
+  return endDate ? { startDate, endDate } : null;
+};
+
+const yearOf = (date?: string) => date?.match(/^\d{4}/)?.[0] ?? date ?? "";
+
+/** Heuristic check used by Upload to tell JSON Resume files from other JSON */
+export function isJsonResume(value: unknown): boolean {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const record = value as Record<string, unknown>;
+  return (
+    (typeof record.$schema === "string" && record.$schema.includes("jsonresume")) ||
+    (!!record.basics && typeof record.basics === "object") ||
+    Array.isArray(record.work)
+  );
+}
+
+/**
+ * Maps a JSON Resume document (object or JSON string) onto ParsedResume and
+ * validates the result with the same rules as AI-parsed resumes.
+ */
+export function fromJsonResume(input: unknown): ParsedResumeResult {
+  let value = input;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return {
+        success: false,
+        error: { code: "INVALID_PARSED_RESUME", message: "File is not valid JSON", issues: [] },
+      };
+    }
+  }
+
+  if (!isJsonResume(value)) {
+    return {
+      success: false,
+      error: {
+        code: "INVALID_PARSED_RESUME",
+        message: "This JSON file is not in JSON Resume format (expected a \"basics\" or \"work\" section)",
+        issues: [],
+      },
+    };
+  }
+
+  const doc = jsonResumeSchema.parse(value);
+  const basics = doc.basics ?? { profiles: [] };
+  const location = basics.location;
+
+  const experience: ExperienceEntry[] = doc.work.map((work) => ({
+    company: work.name ?? "",
+    title: work.position ?? "",
+    duration: work.startDate || work.endDate ? formatDuration(work.startDate, work.endDate) : work.duration ?? "",
+    location: work.location ?? "",
+    bullets: [...(work.summary ? [work.summary] : []), ...(work.highlights ?? [])],
+  }));
+
+  const education: EducationEntry[] = doc.education.map((edu) => ({
+    institution: edu.institution ?? "",
+    degree: edu.studyType ?? "",
+    field: edu.area ?? "",
+    year: yearOf(edu.endDate || edu.startDate) || edu.year || "",
+  }));
+
+  const links = [basics.url, ...basics.profiles.map((profile) => profile.url)].filter(
+    (link, i, all): link is string => !!link && all.indexOf(link) === i,
+  );
+
+  return normalizeParsedResume({
+    name: basics.name ?? "",
+    email: basics.email ?? "",
+    phone: basics.phone ?? "",
+    location: location
+      ? [location.address, location.city, location.region, location.countryCode].filter(Boolean).join(", ")
+      : "",
+    links,
+    summary: basics.summary ?? "",
+    skills: doc.skills.flatMap((skill) => (skill.keywords?.length ? skill.keywords : skill.name ? [skill.name] : [])),
+    experience,
+    education,
+    projects: doc.projects.map((project) => ({
+      name: project.name ?? "",
+      description: project.description || (project.highlights ?? []).join("; "),
+      technologies: project.keywords ?? [],
+    })),
+  });
+}
+
+const PROFILE_NETWORKS: [RegExp, string][] = [
+  [/linkedin\.com/i, "LinkedIn"],
+  [/github\.com/i, "GitHub"],
+  [/gitlab\.com/i, "GitLab"],
+  [/twitter\.com|x\.com/i, "Twitter"],
+  [/stackoverflow\.com/i, "Stack Overflow"],
+  [/behance\.net/i, "Behance"],
+  [/dribbble\.com/i, "Dribbble"],
+];
+
+const networkFor = (url: string) => PROFILE_NETWORKS.find(([pattern]) => pattern.test(url))?.[1] ?? "Website";
+
+/** Serializes a resume as a JSON Resume v1.0.0 document */
+export function toJsonResume(resume: ParsedResume): JsonResume {
+  return {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+      name: resume.name,
+      email: resume.email,
+      phone: resume.phone,
+      summary: resume.summary,
+      // Our location is free text, so it goes into the free-text address field
+      location: resume.location ? { address: resume.location } : undefined,
+      profiles: resume.links.map((url) => ({ network: networkFor(url), url })),
+    },
+    work: resume.experience.map((exp) => {
+      const parsed = parseDuration(exp.duration);
+      const dates = parsed && formatDuration(parsed.startDate, parsed.endDate) === exp.duration.trim() ? parsed : null;
+      return {
+        name: exp.company,
+        position: exp.title,
+        location: exp.location || undefined,
+        ...(dates ?? { duration: exp.duration }),
+        highlights: exp.bullets,
+      };
+    }),
+    education: resume.education.map((edu) => {
+      const parsed = parseToIsoDate(edu.year);
+      const date = parsed && yearOf(parsed) === edu.year.trim() ? parsed : null;
+      return {
+        institution: edu.institution,
+        area: edu.field,
+        studyType: edu.degree,
+        ...(date ? { endDate: date } : edu.year ? { year: edu.year } : {}),
+      };
+    }),
+    skills: resume.skills.map((name) => ({ name })),
+    projects: resume.projects.map((project) => ({
+      name: project.name,
+      description: project.description,
+      keywords: project.technologies,
+    })),
+  };
+}
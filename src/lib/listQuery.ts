@@ -0,0 +1,113 @@
+import { addDays, startOfDay } from "date-fns";
+import type { DateRange } from "react-day-picker";
+
+/**
+ * Helpers for the paginated /resumes and /analyses pages. Filtering, sorting and
+ * paging all happen in the Supabase query; these turn UI state into query bounds.
+ */
+
+export const PAGE_SIZE = 20;
+
+/** Inclusive row offsets for PostgREST's .range() */
+export function pageRange(page: number, pageSize = PAGE_SIZE): { from: number; to: number } {
+  const from = (Math.max(page, 1) - 1) * pageSize;
+  return { from, to: from + pageSize - 1 };
+}
+
+export function pageCount(total: number, pageSize = PAGE_SIZE): number {
+  return Math.max(1, Math.ceil(total / pageSize));
+}
+
+/**
+ * Page numbers to render, with "ellipsis" standing in for skipped runs. The first,
+ * last and the pages next to the current one are always shown.
+ */
+export function paginationItems(current: number, total: number, siblings = 1): (number | "ellipsis")[] {
+  const pages = new Set([1, total]);
+  for (let page = current - siblings; page <= current + siblings; page++) {
+    if (page >= 1 && page <= total) pages.add(page);
+  }
+
+  const sorted = [...pages].sort((a, b) => a - b);
+  return sorted.flatMap((page, index) => {
+    const previous = sorted[index - 1];
+    if (previous === undefined || page === previous + 1) return [page];
+    // A gap of one page is shown as that page rather than an ellipsis
+    return page === previous + 2 ? [previous + 1, page] : ["ellipsis" as const, page];
+  });
+}
+
+/** ilike pattern matching the search text anywhere, with wildcards in the input taken literally */
+export function containsPattern(search: string): string | null {
+  const trimmed = search.trim();
+  if (!trimmed) return null;
+  return `%${trimmed.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+export const SCORE_BANDS = ["all", "strong", "good", "fair", "weak"] as const;
+
+export type ScoreBand = (typeof SCORE_BANDS)[number];
+
+export const SCORE_BAND_LABELS: Record<ScoreBand, string> = {
+  all: "All scores",
+  strong: "Strong (80-100)",
+  good: "Good (60-79)",
+  fair: "Fair (40-59)",
+  weak: "Weak (0-39)",
+};
+
+// Same thresholds as the match badges on the Dashboard and Results pages
+const SCORE_BAND_BOUNDS: Record<ScoreBand, { min: number; max: number } | null> = {
+  all: null,
+  strong: { min: 80, max: 100 },
+  good: { min: 60, max: 79 },
+  fair: { min: 40, max: 59 },
+  weak: { min: 0, max: 39 },
+};
+
+export function scoreBandBounds(band: ScoreBand): { min: number; max: number } | null {
+  return SCORE_BAND_BOUNDS[band];
+}
+
+export function isScoreBand(value: string): value is ScoreBand {
+  return (SCORE_BANDS as readonly string[]).includes(value);
+}
+
+/**
+ * created_at bounds for a picked date range: from the start of the first day up
+ * to, but not including, the day after the last one. A single picked day covers
+ * that whole day.
+ */
+export function dateRangeBounds(range: DateRange | undefined): { gte?: string; lt?: string } {
+  if (!range?.from) return {};
+  const last = range.to ?? range.from;
+  return {
+    gte: startOfDay(range.from).toISOString(),
+    lt: startOfDay(addDays(last, 1)).toISOString(),
+  };
+}
+
+export interface SortOption {
+  label: string;
+  column: string;
+  ascending: boolean;
+}
+
+export const RESUME_SORTS = {
+  newest: { label: "Newest first", column: "created_at", ascending: false },
+  oldest: { label: "Oldest first", column: "created_at", ascending: true },
+  name: { label: "File name (A-Z)", column: "file_name", ascending: true },
+  updated: { label: "Recently edited", column: "updated_at", ascending: false },
+} satisfies Record<string, SortOption>;
+
+export type ResumeSort = keyof typeof RESUME_SORTS;
+
+export const ANALYSIS_SORTS = {
+  newest: { label: "Newest first", column: "created_at", ascending: false },
+  oldest: { label: "Oldest first", column: "created_at", ascending: true },
+  match: { label: "Highest match score", column: "match_score", ascending: false },
+  ats: { label: "Highest ATS score", column: "ats_score", ascending: false },
+  title: { label: "Job title (A-Z)", column: "job_title", ascending: true },
+} satisfies Record<string, SortOption>;
+
+export type AnalysisSort = keyof typeof ANALYSIS_SORTS;
@@ -0,0 +1,112 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { TEMPLATE_LABELS, type PageSize, type ResumeTemplate } from "@/lib/exportPdf";
+
+/**
+ * The signed-in user's profile and the defaults stored on it.
+ *
+ * The analysis defaults are sent with every analysis and turned into prompt
+ * instructions by the edge functions. The value lists are mirrored in
+ * supabase/functions/_shared/preferences.ts - keep both in sync.
+ */
+
+export type Profile = Tables<"profiles">;
+
+export const SENIORITY_LEVELS = ["entry", "mid", "senior", "lead", "executive"] as const;
+export const AI_STRICTNESS_LEVELS = ["lenient", "balanced", "strict"] as const;
+
+export type Seniority = (typeof SENIORITY_LEVELS)[number];
+export type AiStrictness = (typeof AI_STRICTNESS_LEVELS)[number];
+
+export interface AnalysisPreferences {
+  targetRole: string | null;
+  seniority: Seniority | null;
+  /** BCP 47 tag such as "en-GB" */
+  locale: string;
+  strictness: AiStrictness;
+}
+
+export const DEFAULT_ANALYSIS_PREFERENCES: AnalysisPreferences = {
+  targetRole: null,
+  seniority: null,
+  locale: "en-US",
+  strictness: "balanced",
+};
+
+export const SENIORITY_LABELS: Record<Seniority, string> = {
+  entry: "Entry level",
+  mid: "Mid level",
+  senior: "Senior",
+  lead: "Lead / Principal",
+  executive: "Executive",
+};
+
+export const AI_STRICTNESS_LABELS: Record<AiStrictness, string> = {
+  lenient: "Lenient",
+  balanced: "Balanced",
+  strict: "Strict",
+};
+
+export const AI_STRICTNESS_DESCRIPTIONS: Record<AiStrictness, string> = {
+  lenient: "Credits transferable skills and suggests bolder rewrites",
+  balanced: "The default scoring and suggestions",
+  strict: "Only counts skills the resume states, and never invents achievements",
+};
+
+/** Locales the analysis text can be written in */
+export const LOCALE_LABELS: Record<string, string> = {
+  "en-US": "English (US)",
+  "en-GB": "English (UK)",
+  "de-DE": "Deutsch",
+  "fr-FR": "Français",
+  "es-ES": "Español",
+  "it-IT": "Italiano",
+  "nl-NL": "Nederlands",
+  "pt-BR": "Português (Brasil)",
+};
+
+const oneOf = <T extends string>(values: readonly T[], value: unknown): T | null =>
+  values.includes(value as T) ? (value as T) : null;
+
+export const isResumeTemplate = (value: unknown): value is ResumeTemplate =>
+  oneOf(Object.keys(TEMPLATE_LABELS), value) !== null;
+
+/** The analysis defaults stored on a profile, with anything unexpected replaced by the default */
+export function toAnalysisPreferences(profile: Profile | null): AnalysisPreferences {
+  if (!profile) return DEFAULT_ANALYSIS_PREFERENCES;
+
+  return {
+    targetRole: profile.target_role?.trim() || null,
+    seniority: oneOf(SENIORITY_LEVELS, profile.seniority),
+    locale: oneOf(Object.keys(LOCALE_LABELS), profile.locale) ?? DEFAULT_ANALYSIS_PREFERENCES.locale,
+    strictness: oneOf(AI_STRICTNESS_LEVELS, profile.ai_strictness) ?? DEFAULT_ANALYSIS_PREFERENCES.strictness,
+  };
+}
+
+/** The export dialog's starting template */
+export const preferredTemplate = (profile: Profile | null): ResumeTemplate =>
+  isResumeTemplate(profile?.preferred_template) ? profile.preferred_template : "classic";
+
+// Letter paper is the norm in North America, A4 nearly everywhere else
+const LETTER_REGIONS = new Set(["US", "CA"]);
+
+/** The export dialog's starting paper size, from the locale's region */
+export const preferredPageSize = (profile: Profile | null): PageSize => {
+  const region = toAnalysisPreferences(profile).locale.split("-")[1];
+  return LETTER_REGIONS.has(region) ? "letter" : "a4";
+};
+
+/** "Jane" for "Jane Doe"; null when no name is set */
+export const firstName = (fullName: string | null | undefined) => fullName?.trim().split(/\s+/)[0] || null;
+
+export async function fetchProfile(userId: string): Promise<Profile | null> {
+  const { data, error } = await supabase.from("profiles").select("*").eq("id", userId).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateProfile(userId: string, values: TablesUpdate<"profiles">): Promise<Profile> {
+  const { data, error } = await supabase.from("profiles").update(values).eq("id", userId).select().single();
+  if (error) throw error;
+  return data;
+}
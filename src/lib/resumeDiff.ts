@@ -0,0 +1,196 @@
+import type { ExperienceEntry, ParsedResume } from "@/lib/parsedResume";
+
+/**
+ * Field-level diff between two ParsedResume versions.
+ *
+ * Experience, education and project entries are matched by identity (company
+ * and title, institution and degree, project name) rather than position, so
+ * reordering entries does not show up as a wall of removals and additions.
+ * Bullets within a matched experience entry are diffed line by line with an
+ * LCS so that each added, removed or kept bullet can be shown.
+ */
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface ListChange {
+  added: string[];
+  removed: string[];
+}
+
+export type BulletOp = { type: "unchanged" | "added" | "removed"; text: string };
+
+export type EntryStatus = "added" | "removed" | "changed";
+
+export interface ExperienceDiff {
+  status: EntryStatus;
+  label: string;
+  fields: FieldChange[];
+  bullets: BulletOp[];
+}
+
+export interface EntryDiff {
+  status: EntryStatus;
+  label: string;
+  fields: FieldChange[];
+}
+
+export interface ResumeDiff {
+  fields: FieldChange[];
+  skills: ListChange;
+  links: ListChange;
+  experience: ExperienceDiff[];
+  education: EntryDiff[];
+  projects: EntryDiff[];
+  hasChanges: boolean;
+}
+
+const norm = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Line-level LCS diff. Inputs are short (a handful of bullets), so the
+ * quadratic table is fine.
+ */
+export function diffLines(before: string[], after: string[]): BulletOp[] {
+  const n = before.length;
+  const m = after.length;
+  const table: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] =
+        norm(before[i]) === norm(after[j]) ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const ops: BulletOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (norm(before[i]) === norm(after[j])) {
+      ops.push({ type: "unchanged", text: after[j] });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      ops.push({ type: "removed", text: before[i++] });
+    } else {
+      ops.push({ type: "added", text: after[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: "removed", text: before[i++] });
+  while (j < m) ops.push({ type: "added", text: after[j++] });
+  return ops;
+}
+
+export function diffList(before: string[], after: string[]): ListChange {
+  const beforeSet = new Set(before.map(norm));
+  const afterSet = new Set(after.map(norm));
+  return {
+    added: after.filter((item) => !beforeSet.has(norm(item))),
+    removed: before.filter((item) => !afterSet.has(norm(item))),
+  };
+}
+
+function diffFields<T extends object>(before: T, after: T, keys: (keyof T & string)[]): FieldChange[] {
+  return keys
+    .filter((key) => String(before[key] ?? "") !== String(after[key] ?? ""))
+    .map((key) => ({ field: key, before: String(before[key] ?? ""), after: String(after[key] ?? "") }));
+}
+
+/**
+ * Pairs entries across versions by key. Unmatched entries become additions
+ * or removals; order follows the newer version.
+ */
+function matchEntries<T>(before: T[], after: T[], key: (entry: T) => string) {
+  const remaining = [...before];
+  const pairs: { before?: T; after?: T }[] = [];
+
+  for (const entry of after) {
+    const index = remaining.findIndex((candidate) => key(candidate) === key(entry));
+    if (index === -1) {
+      pairs.push({ after: entry });
+    } else {
+      pairs.push({ before: remaining[index], after: entry });
+      remaining.splice(index, 1);
+    }
+  }
+  for (const entry of remaining) pairs.push({ before: entry });
+  return pairs;
+}
+
+const experienceLabel = (exp: ExperienceEntry) =>
+  [exp.title, exp.company].filter(Boolean).join(" at ") || "Untitled position";
+
+export function diffResumes(before: ParsedResume, after: ParsedResume): ResumeDiff {
+  const fields = diffFields(before, after, ["name", "email", "phone", "location", "summary"]);
+  const skills = diffList(before.skills, after.skills);
+  const links = diffList(before.links, after.links);
+
+  const experience: ExperienceDiff[] = [];
+  for (const pair of matchEntries(before.experience, after.experience, (e) => `${norm(e.company)}|${norm(e.title)}`)) {
+    if (!pair.before) {
+      experience.push({
+        status: "added",
+        label: experienceLabel(pair.after),
+        fields: [],
+        bullets: pair.after.bullets.map((text) => ({ type: "added", text })),
+      });
+    } else if (!pair.after) {
+      experience.push({
+        status: "removed",
+        label: experienceLabel(pair.before),
+        fields: [],
+        bullets: pair.before.bullets.map((text) => ({ type: "removed", text })),
+      });
+    } else {
+      const entryFields = diffFields(pair.before, pair.after, ["duration", "location"]);
+      const bullets = diffLines(pair.before.bullets, pair.after.bullets);
+      if (entryFields.length > 0 || bullets.some((op) => op.type !== "unchanged")) {
+        experience.push({ status: "changed", label: experienceLabel(pair.after), fields: entryFields, bullets });
+      }
+    }
+  }
+
+  const diffEntries = <T extends object>(
+    beforeEntries: T[],
+    afterEntries: T[],
+    key: (entry: T) => string,
+    label: (entry: T) => string,
+    keys: (keyof T & string)[],
+  ): EntryDiff[] =>
+    matchEntries(beforeEntries, afterEntries, key).flatMap((pair): EntryDiff[] => {
+      if (!pair.before) return [{ status: "added", label: label(pair.after), fields: [] }];
+      if (!pair.after) return [{ status: "removed", label: label(pair.before), fields: [] }];
+      const changed = diffFields(pair.before, pair.after, keys);
+      return changed.length > 0 ? [{ status: "changed", label: label(pair.after), fields: changed }] : [];
+    });
+
+  const education = diffEntries(
+    before.education,
+    after.education,
+    (e) => `${norm(e.institution)}|${norm(e.degree)}`,
+    (e) => [e.degree, e.institution].filter(Boolean).join(", "),
+    ["field", "year"],
+  );
+
+  const projects = diffEntries(
+    before.projects.map((p) => ({ ...p, technologies: p.technologies.join(", ") })),
+    after.projects.map((p) => ({ ...p, technologies: p.technologies.join(", ") })),
+    (p) => norm(p.name),
+    (p) => p.name || "Untitled project",
+    ["description", "technologies"],
+  );
+
+  const hasChanges =
+    fields.length > 0 ||
+    skills.added.length + skills.removed.length > 0 ||
+    links.added.length + links.removed.length > 0 ||
+    experience.length > 0 ||
+    education.length > 0 ||
+    projects.length > 0;
+
+  return { fields, skills, links, experience, education, projects, hasChanges };
+}
@@ -0,0 +1,43 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { ParsedResume } from "@/lib/parsedResume";
+
+export type ResumeVersion = Tables<"resume_versions">;
+
+export type ResumeVersionSource = "upload" | "edit" | "ai_tailored" | "restore" | "import";
+
+export const VERSION_SOURCE_LABELS: Record<ResumeVersionSource, string> = {
+  upload: "Uploaded",
+  edit: "Edited",
+  ai_tailored: "AI tailored",
+  restore: "Restored",
+  import: "Imported",
+};
+
+/**
+ * Records a new version of a resume. A database trigger assigns the version
+ * number and copies the data into resumes.parsed_data, so callers never
+ * overwrite parsed_data directly.
+ */
+export async function saveResumeVersion(
+  userId: string,
+  resumeId: string,
+  parsedData: ParsedResume,
+  source: ResumeVersionSource,
+  label?: string,
+): Promise<ResumeVersion> {
+  const { data, error } = await supabase
+    .from("resume_versions")
+    .insert({
+      resume_id: resumeId,
+      user_id: userId,
+      parsed_data: parsedData,
+      source,
+      label: label ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
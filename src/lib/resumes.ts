@@ -0,0 +1,24 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Deletes resumes together with their uploaded files. Versions and analyses
+ * cascade with the rows.
+ *
+ * The rows go first: if removing a file fails afterwards, it is only an orphan,
+ * and the scheduled reconcile-storage function purges it. Removing files first
+ * could instead leave resumes pointing at files that no longer exist.
+ */
+export async function deleteResumes(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const { data, error } = await supabase.from("resumes").delete().in("id", ids).select("file_path");
+  if (error) throw error;
+
+  const paths = (data || []).map((resume) => resume.file_path).filter(Boolean);
+  if (paths.length === 0) return;
+
+  const { error: storageError } = await supabase.storage.from("resumes").remove(paths);
+  if (storageError) {
+    console.error("Failed to remove resume files, leaving them for reconciliation:", storageError);
+  }
+}
@@ -0,0 +1,172 @@
+import { FunctionsFetchError, FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { RetryableError } from "@/lib/batchQueue";
+import { sanitizeForJson } from "@/lib/sanitizeForJson";
+import { toParsedResume } from "@/lib/parsedResume";
+import type { AnalysisPreferences } from "@/lib/profile";
+
+export type Analysis = Tables<"analyses">;
+
+export interface AnalysisInput {
+  /** The signed-in user, from useSession() */
+  userId: string;
+  resume: Tables<"resumes">;
+  jobTitle: string;
+  jobDescription: string;
+  jobId?: string | null;
+  /** The defaults from the user's profile; omitted means the built-in defaults */
+  preferences?: AnalysisPreferences;
+}
+
+interface JobFitResponse {
+  analysis: {
+    matchScore: number;
+    matchedSkills: string[];
+    missingSkills: string[];
+    recommendations: string;
+    atsScore: number;
+    atsBreakdown: Json;
+  };
+}
+
+interface ImproveResponse {
+  improvements: {
+    improvedSummary: string;
+    improvedBullets: Json;
+    suggestedSkills: string[];
+  };
+}
+
+/** An edge function failure with the status and AI error code it returned */
+export class AnalysisError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly retryAfterMs?: number;
+  /** The request never reached the function (offline, DNS, CORS) */
+  readonly network: boolean;
+
+  constructor(
+    message: string,
+    options: { status?: number; code?: string; retryAfterMs?: number; network?: boolean } = {},
+  ) {
+    super(message);
+    this.name = "AnalysisError";
+    this.status = options.status;
+    this.code = options.code;
+    this.retryAfterMs = options.retryAfterMs;
+    this.network = options.network ?? false;
+  }
+}
+
+const STATUS_MESSAGES: Record<number, string> = {
+  429: "AI rate limit exceeded. Please try again in a moment.",
+  402: "AI credits depleted. Please contact support.",
+};
+
+/** Reads the status and JSON error body ({ error, code, retryAfter }) from a failed functions.invoke */
+export async function toAnalysisError(error: unknown): Promise<AnalysisError> {
+  if (error instanceof AnalysisError) return error;
+
+  if (error instanceof FunctionsHttpError && error.context instanceof Response) {
+    const response = error.context;
+    let body: { error?: string; code?: string; retryAfter?: number } = {};
+    try {
+      body = await response.json();
+    } catch {
+      // Not every failure has a JSON body
+    }
+
+    const header = Number(response.headers.get("Retry-After"));
+    const retryAfter = typeof body.retryAfter === "number" ? body.retryAfter : header || undefined;
+
+    return new AnalysisError(STATUS_MESSAGES[response.status] ?? body.error ?? error.message, {
+      status: response.status,
+      code: body.code,
+      retryAfterMs: retryAfter !== undefined ? retryAfter * 1000 : undefined,
+    });
+  }
+
+  if (error instanceof FunctionsFetchError) {
+    return new AnalysisError("Could not reach the analysis service", { network: true });
+  }
+
+  return new AnalysisError(error instanceof Error ? error.message : String(error));
+}
+
+/** Rate limits, gateway errors and network failures are worth retrying; bad input and depleted credits are not */
+export function classifyAnalysisError(error: unknown): RetryableError | null {
+  if (!(error instanceof AnalysisError)) return null;
+  if (error.status === 429) {
+    return new RetryableError(error.message, { retryAfterMs: error.retryAfterMs, rateLimited: true });
+  }
+  if (error.network || (error.status !== undefined && error.status >= 502 && error.status <= 504)) {
+    return new RetryableError(error.message, { retryAfterMs: error.retryAfterMs });
+  }
+  return null;
+}
+
+const invoke = async <T>(name: string, body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) throw await toAnalysisError(error);
+  return data;
+};
+
+/**
+ * Runs analyze-job-fit and improve-resume for one resume and job, then saves
+ * the analysis. Failures are thrown as AnalysisError.
+ */
+export async function runAnalysis({
+  userId,
+  resume,
+  jobTitle,
+  jobDescription,
+  jobId = null,
+  preferences,
+}: AnalysisInput): Promise<Analysis> {
+  // Sanitize inputs to prevent Unicode escape sequence errors
+  const sanitizedJobTitle = sanitizeForJson(jobTitle.trim());
+  const sanitizedJobDescription = sanitizeForJson(jobDescription.trim());
+  const body = {
+    parsedResume: toParsedResume(resume.parsed_data),
+    jobTitle: sanitizedJobTitle,
+    jobDescription: sanitizedJobDescription,
+    preferences,
+  };
+
+  const fitData = await invoke<JobFitResponse>("analyze-job-fit", body);
+  const improveData = await invoke<ImproveResponse>("improve-resume", body);
+
+  // Save analysis (use sanitized versions for storage)
+  const { data, error } = await supabase
+    .from("analyses")
+    .insert({
+      user_id: userId,
+      resume_id: resume.id,
+      resume_version_id: resume.current_version_id,
+      job_id: jobId,
+      job_title: sanitizedJobTitle,
+      job_description: sanitizedJobDescription,
+      match_score: fitData.analysis.matchScore,
+      matched_skills: fitData.analysis.matchedSkills,
+      missing_skills: fitData.analysis.missingSkills,
+      recommendations: fitData.analysis.recommendations,
+      improved_summary: improveData.improvements.improvedSummary,
+      improved_bullets: improveData.improvements.improvedBullets,
+      suggested_skills: improveData.improvements.suggestedSkills,
+      ats_score: fitData.analysis.atsScore,
+      ats_breakdown: fitData.analysis.atsBreakdown,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/** Best match first; ties go to the higher ATS score */
+export function rankAnalyses<T extends Pick<Analysis, "match_score" | "ats_score">>(analyses: readonly T[]): T[] {
+  return [...analyses].sort(
+    (a, b) => (b.match_score ?? 0) - (a.match_score ?? 0) || (b.ats_score ?? 0) - (a.ats_score ?? 0),
+  );
+}
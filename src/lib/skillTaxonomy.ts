@@ -0,0 +1,237 @@
+import type { ParsedResume } from "@/lib/parsedResume";
+
+/**
+ * Versioned skills taxonomy shared by the frontend and edge functions.
+ * Mirrored in supabase/functions/_shared/skillTaxonomy.ts - keep both in sync.
+ *
+ * Every skill has one canonical name, the aliases it is written as
+ * ("React.js", "ReactJS"), a category and optionally a parent
+ * (Next.js → React → JavaScript). The canonicalizer runs after parsing and
+ * after analysis, so stored skills, skill comparisons and dashboard
+ * aggregates all use the same names.
+ *
+ * Bump SKILL_TAXONOMY_VERSION when entries change in a way that alters
+ * canonical names, categories or parents.
+ */
+
+export const SKILL_TAXONOMY_VERSION = 1;
+
+export type SkillCategory =
+  | "language"
+  | "framework"
+  | "database"
+  | "cloud"
+  | "tool"
+  | "data"
+  | "practice"
+  | "soft_skill";
+
+export const SKILL_CATEGORY_LABELS: Record<SkillCategory, string> = {
+  language: "Languages",
+  framework: "Frameworks & Libraries",
+  database: "Databases",
+  cloud: "Cloud & Infrastructure",
+  tool: "Tools",
+  data: "Data & ML",
+  practice: "Practices",
+  soft_skill: "Soft Skills",
+};
+
+export interface SkillDefinition {
+  name: string;
+  category: SkillCategory;
+  aliases?: string[];
+  /** Canonical name of the broader skill this one implies */
+  parent?: string;
+  /** The name is a common word ("Go"), so only aliases are matched in free text */
+  aliasesOnlyInText?: boolean;
+}
+
+export const SKILL_TAXONOMY: readonly SkillDefinition[] = [
+  // Languages
+  { name: "JavaScript", category: "language", aliases: ["js", "ecmascript", "es6"] },
+  { name: "TypeScript", category: "language", aliases: ["ts"], parent: "JavaScript" },
+  { name: "Python", category: "language", aliases: ["python3"] },
+  { name: "Java", category: "language" },
+  { name: "Kotlin", category: "language" },
+  { name: "Swift", category: "language" },
+  { name: "Go", category: "language", aliases: ["golang"], aliasesOnlyInText: true },
+  { name: "Rust", category: "language" },
+  { name: "Ruby", category: "language" },
+  { name: "PHP", category: "language" },
+  { name: "C++", category: "language", aliases: ["cpp"] },
+  { name: "C#", category: "language", aliases: ["csharp"] },
+  { name: "Scala", category: "language" },
+  { name: "SQL", category: "language" },
+  { name: "HTML", category: "language", aliases: ["html5"] },
+  { name: "CSS", category: "language", aliases: ["css3"] },
+
+  // Frameworks & libraries
+  { name: ".NET", category: "framework", aliases: ["dotnet", "asp.net", ".net core"], parent: "C#" },
+  { name: "React", category: "framework", aliases: ["react.js", "reactjs"], parent: "JavaScript" },
+  { name: "Next.js", category: "framework", aliases: ["nextjs"], parent: "React" },
+  { name: "Angular", category: "framework", aliases: ["angular.js", "angularjs"], parent: "TypeScript" },
+  { name: "Vue", category: "framework", aliases: ["vue.js", "vuejs"], parent: "JavaScript" },
+  { name: "Node.js", category: "framework", aliases: ["node", "nodejs"], parent: "JavaScript" },
+  {
+    name: "Express",
+    category: "framework",
+    aliases: ["express.js", "expressjs"],
+    parent: "Node.js",
+    aliasesOnlyInText: true,
+  },
+  { name: "Django", category: "framework", parent: "Python" },
+  { name: "Flask", category: "framework", parent: "Python" },
+  { name: "FastAPI", category: "framework", parent: "Python" },
+  {
+    name: "Spring",
+    category: "framework",
+    aliases: ["spring boot", "spring framework"],
+    parent: "Java",
+    aliasesOnlyInText: true,
+  },
+  { name: "Ruby on Rails", category: "framework", aliases: ["rails"], parent: "Ruby" },
+  { name: "Tailwind CSS", category: "framework", aliases: ["tailwind", "tailwindcss"], parent: "CSS" },
+  { name: "GraphQL", category: "framework" },
+  { name: "REST", category: "practice", aliases: ["rest api", "rest apis", "restful"], aliasesOnlyInText: true },
+  { name: "gRPC", category: "framework" },
+
+  // Databases
+  { name: "PostgreSQL", category: "database", aliases: ["postgres", "psql"], parent: "SQL" },
+  { name: "MySQL", category: "database", parent: "SQL" },
+  { name: "MongoDB", category: "database", aliases: ["mongo"] },
+  { name: "Redis", category: "database" },
+  { name: "Elasticsearch", category: "database", aliases: ["elastic search"] },
+  { name: "DynamoDB", category: "database", parent: "AWS" },
+
+  // Cloud & infrastructure
+  { name: "AWS", category: "cloud", aliases: ["amazon web services"] },
+  { name: "Azure", category: "cloud", aliases: ["microsoft azure"] },
+  { name: "GCP", category: "cloud", aliases: ["google cloud", "google cloud platform"] },
+  { name: "Docker", category: "cloud" },
+  { name: "Kubernetes", category: "cloud", aliases: ["k8s"] },
+  { name: "Terraform", category: "cloud" },
+  { name: "Kafka", category: "cloud", aliases: ["apache kafka"] },
+  { name: "RabbitMQ", category: "cloud" },
+  { name: "Linux", category: "cloud" },
+  { name: "Microservices", category: "practice", aliases: ["microservice"] },
+  { name: "CI/CD", category: "practice", aliases: ["continuous integration", "continuous delivery"] },
+
+  // Tools
+  { name: "Git", category: "tool" },
+  { name: "Jira", category: "tool" },
+  { name: "Figma", category: "tool" },
+  { name: "Tableau", category: "tool" },
+  { name: "Power BI", category: "tool", aliases: ["powerbi"] },
+  { name: "Excel", category: "tool", aliases: ["microsoft excel", "ms excel"], aliasesOnlyInText: true },
+  { name: "Salesforce", category: "tool" },
+
+  // Data & ML
+  { name: "Machine Learning", category: "data", aliases: ["ml"] },
+  { name: "Deep Learning", category: "data", parent: "Machine Learning" },
+  { name: "NLP", category: "data", aliases: ["natural language processing"], parent: "Machine Learning" },
+  { name: "TensorFlow", category: "data", parent: "Deep Learning" },
+  { name: "PyTorch", category: "data", parent: "Deep Learning" },
+  { name: "Pandas", category: "data", parent: "Python" },
+  { name: "Spark", category: "data", aliases: ["apache spark", "pyspark"], aliasesOnlyInText: true },
+  { name: "Data Analysis", category: "data", aliases: ["data analytics"] },
+
+  // Practices
+  { name: "Testing", category: "practice", aliases: ["unit testing", "test automation", "automated testing"] },
+  { name: "Jest", category: "tool", parent: "Testing" },
+  { name: "Cypress", category: "tool", parent: "Testing" },
+  { name: "Selenium", category: "tool", parent: "Testing" },
+  { name: "Agile", category: "practice" },
+  { name: "Scrum", category: "practice", parent: "Agile" },
+  { name: "Kanban", category: "practice", parent: "Agile" },
+  { name: "SEO", category: "practice", aliases: ["search engine optimization"] },
+  { name: "Project Management", category: "practice" },
+  { name: "Product Management", category: "practice" },
+
+  // Soft skills
+  { name: "Communication", category: "soft_skill", aliases: ["communication skills"] },
+  { name: "Leadership", category: "soft_skill", aliases: ["team leadership"] },
+  { name: "Stakeholder Management", category: "soft_skill" },
+  { name: "Problem Solving", category: "soft_skill" },
+  { name: "Mentoring", category: "soft_skill", aliases: ["mentorship"] },
+];
+
+/** Lowercased word tokens; keeps the symbols in names like "c++", "c#", ".net" and "node.js" */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/\.?[a-z0-9][a-z0-9+#.]*/g) ?? [])
+    .map((token) => token.replace(/\.+$/, ""))
+    .filter(Boolean);
+}
+
+const keyOf = (name: string) => tokenize(name).join(" ");
+
+const SKILLS_BY_KEY = new Map<string, SkillDefinition>();
+for (const skill of SKILL_TAXONOMY) {
+  for (const form of [skill.name, ...(skill.aliases ?? [])]) {
+    if (!SKILLS_BY_KEY.has(keyOf(form))) SKILLS_BY_KEY.set(keyOf(form), skill);
+  }
+}
+
+/** Looks a skill up by its canonical name or any alias, ignoring case and punctuation */
+export function findSkill(name: string): SkillDefinition | undefined {
+  return SKILLS_BY_KEY.get(keyOf(name));
+}
+
+/** Comparison key: "JS" → "javascript", "Postgres" → "postgresql", unknown skills lowercased */
+export function skillKey(name: string): string {
+  const skill = findSkill(name);
+  return skill ? keyOf(skill.name) : keyOf(name);
+}
+
+/** "ReactJS" → "React"; unknown skills keep their spelling with whitespace tidied */
+export function canonicalSkillName(name: string): string {
+  return findSkill(name)?.name ?? name.trim().replace(/\s+/g, " ");
+}
+
+/** Canonical names with duplicates ("React", "React.js", "ReactJS") and blanks removed, first spelling kept */
+export function canonicalizeSkills(names: readonly unknown[] | null | undefined): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const name of names ?? []) {
+    if (typeof name !== "string") continue;
+    const canonical = canonicalSkillName(name);
+    const key = skillKey(canonical);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    result.push(canonical);
+  }
+  return result;
+}
+
+export function skillCategory(name: string): SkillCategory | undefined {
+  return findSkill(name)?.category;
+}
+
+/** Broader skills implied by this one, nearest first: "Next.js" → ["React", "JavaScript"] */
+export function skillAncestors(name: string): string[] {
+  const ancestors: string[] = [];
+  let parent = findSkill(name)?.parent;
+  while (parent && !ancestors.includes(parent)) {
+    ancestors.push(parent);
+    parent = findSkill(parent)?.parent;
+  }
+  return ancestors;
+}
+
+/** Skills whose parent is this one: "Python" → ["Django", "Flask", "FastAPI", "Pandas"] */
+export function skillChildren(name: string): string[] {
+  const canonical = canonicalSkillName(name);
+  return SKILL_TAXONOMY.filter((skill) => skill.parent === canonical).map((skill) => skill.name);
+}
+
+/** Canonicalizes the skill lists inside a parsed resume */
+export function canonicalizeResumeSkills(resume: ParsedResume): ParsedResume {
+  return {
+    ...resume,
+    skills: canonicalizeSkills(resume.skills),
+    projects: resume.projects.map((project) => ({
+      ...project,
+      technologies: canonicalizeSkills(project.technologies),
+    })),
+  };
+}
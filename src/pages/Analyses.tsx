@@ -0,0 +1,377 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import type { DateRange } from "react-day-picker";
+import { supabase } from "@/integrations/supabase/client";
+import DashboardLayout from "@/components/DashboardLayout";
+import DateRangeFilter from "@/components/DateRangeFilter";
+import ListPagination from "@/components/ListPagination";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Search, Sparkles, Target, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { useSession } from "@/hooks/use-session";
+import {
+  ANALYSIS_SORTS,
+  PAGE_SIZE,
+  SCORE_BANDS,
+  SCORE_BAND_LABELS,
+  containsPattern,
+  dateRangeBounds,
+  isScoreBand,
+  pageCount,
+  pageRange,
+  scoreBandBounds,
+  type AnalysisSort,
+  type ScoreBand,
+} from "@/lib/listQuery";
+
+interface AnalysisRow {
+  id: string;
+  job_title: string;
+  match_score: number | null;
+  ats_score: number | null;
+  created_at: string;
+  resume_id: string;
+  resumes: { file_name: string } | null;
+}
+
+const Analyses = () => {
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const [analyses, setAnalyses] = useState<AnalysisRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState("");
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [scoreBand, setScoreBand] = useState<ScoreBand>("all");
+  const [sort, setSort] = useState<AnalysisSort>("newest");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const debouncedSearch = useDebouncedValue(search);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    fetchAnalyses();
+  }, [page, debouncedSearch, dateRange, scoreBand, sort]);
+
+  const fetchAnalyses = async () => {
+    // Filters can change while a page is loading; only the latest response is shown
+    const request = ++latestRequest.current;
+    setLoading(true);
+    try {
+      if (!user) return;
+
+      const { from, to } = pageRange(page);
+      const { column, ascending } = ANALYSIS_SORTS[sort];
+      const pattern = containsPattern(debouncedSearch);
+      const { gte, lt } = dateRangeBounds(dateRange);
+      const band = scoreBandBounds(scoreBand);
+
+      let query = supabase
+        .from("analyses")
+        .select("id, job_title, match_score, ats_score, created_at, resume_id, resumes(file_name)", { count: "exact" })
+        .eq("user_id", user.id);
+
+      if (pattern) query = query.ilike("job_title", pattern);
+      if (gte) query = query.gte("created_at", gte);
+      if (lt) query = query.lt("created_at", lt);
+      if (band) query = query.gte("match_score", band.min).lte("match_score", band.max);
+
+      const { data, count, error } = await query
+        .order(column, { ascending, nullsFirst: false })
+        .order("id")
+        .range(from, to);
+
+      if (error) throw error;
+      if (request !== latestRequest.current) return;
+
+      setAnalyses((data as AnalysisRow[]) || []);
+      setTotal(count ?? 0);
+      setSelected(new Set());
+    } catch (error) {
+      console.error("Error fetching analyses:", error);
+      toast.error("Failed to load analyses");
+    } finally {
+      if (request === latestRequest.current) setLoading(false);
+    }
+  };
+
+  // Any change to the filters starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const deleteSelected = async () => {
+    const ids = [...selected];
+    setDeleting(true);
+    try {
+      const { error } = await supabase.from("analyses").delete().in("id", ids);
+      if (error) throw error;
+
+      toast.success(`Deleted ${ids.length} analys${ids.length === 1 ? "is" : "es"}`);
+      setConfirmOpen(false);
+
+      // Step back if the current page was emptied
+      const lastPage = pageCount(total - ids.length);
+      if (page > lastPage) {
+        setPage(lastPage);
+      } else {
+        fetchAnalyses();
+      }
+    } catch (error) {
+      console.error("Error deleting analyses:", error);
+      toast.error("Failed to delete analyses");
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = analyses.length > 0 && analyses.every((analysis) => selected.has(analysis.id));
+  const filtered = Boolean(debouncedSearch.trim() || dateRange?.from || scoreBand !== "all");
+  const firstShown = total === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold">Analyses</h1>
+            <p className="text-muted-foreground mt-2">
+              Every job fit analysis you have run.
+            </p>
+          </div>
+          <Button onClick={() => navigate("/resumes")} size="lg" className="gap-2">
+            <Sparkles className="w-5 h-5" />
+            New Analysis
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Analysis History</CardTitle>
+            <CardDescription>
+              {total === 0
+                ? "No analyses to show"
+                : `Showing ${firstShown}-${firstShown + analyses.length - 1} of ${total}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {/* Filters */}
+            <div className="grid md:grid-cols-2 xl:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="analysis-search">Search</Label>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="analysis-search"
+                    placeholder="Job title"
+                    className="pl-9"
+                    value={search}
+                    onChange={(e) => updateFilter(setSearch)(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Analyzed</Label>
+                <DateRangeFilter value={dateRange} onChange={updateFilter(setDateRange)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Match Score</Label>
+                <Select
+                  value={scoreBand}
+                  onValueChange={(value) => isScoreBand(value) && updateFilter(setScoreBand)(value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCORE_BANDS.map((band) => (
+                      <SelectItem key={band} value={band}>
+                        {SCORE_BAND_LABELS[band]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Sort By</Label>
+                <Select value={sort} onValueChange={(value) => updateFilter(setSort)(value as AnalysisSort)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ANALYSIS_SORTS).map(([key, option]) => (
+                      <SelectItem key={key} value={key}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Bulk actions */}
+            {analyses.length > 0 && (
+              <div className="flex justify-end">
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  disabled={selected.size === 0}
+                  onClick={() => setConfirmOpen(true)}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete{selected.size > 0 ? ` (${selected.size})` : ""}
+                </Button>
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : analyses.length === 0 ? (
+              filtered ? (
+                <p className="text-center py-8 text-muted-foreground">No analyses match these filters</p>
+              ) : (
+                <div className="text-center py-12">
+                  <Target className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground mb-4">No analyses yet</p>
+                  <Button onClick={() => navigate("/resumes")}>Analyze a Resume</Button>
+                </div>
+              )
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) =>
+                          setSelected(checked ? new Set(analyses.map((analysis) => analysis.id)) : new Set())
+                        }
+                        aria-label="Select all on this page"
+                      />
+                    </TableHead>
+                    <TableHead>Job Title</TableHead>
+                    <TableHead>Resume</TableHead>
+                    <TableHead>Analyzed</TableHead>
+                    <TableHead className="text-right">ATS</TableHead>
+                    <TableHead className="text-right">Match</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analyses.map((analysis) => (
+                    <TableRow
+                      key={analysis.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/results/${analysis.id}`)}
+                    >
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        <Checkbox
+                          checked={selected.has(analysis.id)}
+                          onCheckedChange={() => toggleSelected(analysis.id)}
+                          aria-label={`Select ${analysis.job_title}`}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{analysis.job_title}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {analysis.resumes?.file_name ?? "Deleted resume"}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground whitespace-nowrap">
+                        {formatDistanceToNow(new Date(analysis.created_at), { addSuffix: true })}
+                      </TableCell>
+                      <TableCell className="text-right">{analysis.ats_score ?? "–"}</TableCell>
+                      <TableCell className="text-right">
+                        {analysis.match_score == null ? (
+                          "–"
+                        ) : (
+                          <Badge
+                            variant={
+                              analysis.match_score >= 80
+                                ? "default"
+                                : analysis.match_score >= 60
+                                ? "secondary"
+                                : "outline"
+                            }
+                            className={analysis.match_score >= 80 ? "bg-success text-success-foreground" : ""}
+                          >
+                            {analysis.match_score}%
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <ListPagination page={page} totalPages={pageCount(total)} onPageChange={setPage} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={confirmOpen} onOpenChange={(open) => !deleting && setConfirmOpen(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {selected.size} analys{selected.size === 1 ? "is" : "es"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The resumes they were run against are kept. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={deleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={(e) => {
+                e.preventDefault();
+                deleteSelected();
+              }}
+            >
+              {deleting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+};
+
+export default Analyses;
@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { Link, useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import DashboardLayout from "@/components/DashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,22 +7,47 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2, Sparkles } from "lucide-react";
 import { toast } from "sonner";
-import { sanitizeForJson } from "@/lib/sanitizeForJson";
+import { runAnalysis } from "@/lib/runAnalysis";
+import { emptyJobFormValues, jobSubtitle, saveJob, type Job } from "@/lib/jobs";
+import {
+  AI_STRICTNESS_LABELS,
+  DEFAULT_ANALYSIS_PREFERENCES,
+  LOCALE_LABELS,
+  SENIORITY_LABELS,
+  fetchProfile,
+  toAnalysisPreferences,
+  type AnalysisPreferences,
+} from "@/lib/profile";
+import type { Tables } from "@/integrations/supabase/types";
+import { useSession } from "@/hooks/use-session";
 
 const Analyze = () => {
   const { resumeId } = useParams();
   const navigate = useNavigate();
-  const [resume, setResume] = useState<any>(null);
+  const { user } = useSession();
+  const [searchParams] = useSearchParams();
+  const [resume, setResume] = useState<Tables<"resumes"> | null>(null);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [saveToJobs, setSaveToJobs] = useState(false);
   const [jobTitle, setJobTitle] = useState("");
   const [jobDescription, setJobDescription] = useState("");
   const [analyzing, setAnalyzing] = useState(false);
+  const [preferences, setPreferences] = useState<AnalysisPreferences>(DEFAULT_ANALYSIS_PREFERENCES);
 
   useEffect(() => {
     fetchResume();
   }, [resumeId]);
 
+  useEffect(() => {
+    fetchJobs();
+    fetchPreferences();
+  }, []);
+
   const fetchResume = async () => {
     try {
       const { data, error } = await supabase
@@ -39,89 +64,75 @@ const Analyze = () => {
     }
   };
 
+  const fetchJobs = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("jobs")
+        .select("*")
+        .neq("status", "archived")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setJobs(data || []);
+
+      // Preselect the job passed from the Jobs page
+      const requested = data?.find((job) => job.id === searchParams.get("job"));
+      if (requested) selectJob(requested);
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      toast.error("Failed to load saved jobs");
+    }
+  };
+
+  const fetchPreferences = async () => {
+    try {
+      const defaults = toAnalysisPreferences(await fetchProfile(user.id));
+      setPreferences(defaults);
+      // The target role is a starting point for a new posting, never over a chosen one
+      if (defaults.targetRole) setJobTitle((title) => title || defaults.targetRole);
+    } catch (error) {
+      console.error("Error fetching analysis defaults:", error);
+    }
+  };
+
+  const selectJob = (job: Job | null) => {
+    setJobId(job?.id ?? null);
+    setJobTitle(job?.title ?? "");
+    setJobDescription(job?.description ?? "");
+  };
+
   const handleAnalyze = async () => {
     if (!jobTitle.trim() || !jobDescription.trim()) {
       toast.error("Please enter both job title and description");
       return;
     }
-    
-    // Sanitize inputs to prevent Unicode escape sequence errors
-    const sanitizedJobTitle = sanitizeForJson(jobTitle.trim());
-    const sanitizedJobDescription = sanitizeForJson(jobDescription.trim());
+
+    if (!resume) return;
 
     setAnalyzing(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      // Analyze job fit
-      const { data: fitData, error: fitError } = await supabase.functions.invoke(
-        "analyze-job-fit",
-        {
-          body: {
-            parsedResume: resume.parsed_data,
-            jobTitle: sanitizedJobTitle,
-            jobDescription: sanitizedJobDescription,
-          },
-        }
-      );
-
-      if (fitError) {
-        if (fitError.message?.includes('Rate limit')) {
-          throw new Error('AI rate limit exceeded. Please try again in a moment.');
-        } else if (fitError.message?.includes('credits')) {
-          throw new Error('AI credits depleted. Please contact support.');
-        }
-        throw fitError;
+      // Save a pasted posting first so the analysis can reference it
+      let analysisJobId = jobId;
+      if (!analysisJobId && saveToJobs) {
+        const job = await saveJob(user.id, { ...emptyJobFormValues(), title: jobTitle, description: jobDescription });
+        analysisJobId = job.id;
+        setJobId(job.id);
       }
 
-      // Get improvements
-      const { data: improveData, error: improveError } = await supabase.functions.invoke(
-        "improve-resume",
-        {
-          body: {
-            parsedResume: resume.parsed_data,
-            jobTitle: sanitizedJobTitle,
-            jobDescription: sanitizedJobDescription,
-          },
-        }
-      );
-
-      if (improveError) {
-        if (improveError.message?.includes('Rate limit')) {
-          throw new Error('AI rate limit exceeded. Please try again in a moment.');
-        } else if (improveError.message?.includes('credits')) {
-          throw new Error('AI credits depleted. Please contact support.');
-        }
-        throw improveError;
-      }
-
-      // Save analysis (use sanitized versions for storage)
-      const { data: analysisData, error: analysisError } = await supabase
-        .from("analyses")
-        .insert({
-          user_id: user.id,
-          resume_id: resumeId,
-          job_title: sanitizedJobTitle,
-          job_description: sanitizedJobDescription,
-          match_score: fitData.analysis.matchScore,
-          matched_skills: fitData.analysis.matchedSkills,
-          missing_skills: fitData.analysis.missingSkills,
-          recommendations: fitData.analysis.recommendations,
-          improved_summary: improveData.improvements.improvedSummary,
-          improved_bullets: improveData.improvements.improvedBullets,
-          ats_score: fitData.analysis.atsScore,
-        })
-        .select()
-        .single();
-
-      if (analysisError) throw analysisError;
+      const analysis = await runAnalysis({
+        userId: user.id,
+        resume,
+        jobTitle,
+        jobDescription,
+        jobId: analysisJobId,
+        preferences,
+      });
 
       toast.success("Analysis complete!");
-      navigate(`/results/${analysisData.id}`);
-    } catch (error: any) {
+      navigate(`/results/${analysis.id}`);
+    } catch (error) {
       console.error("Analysis error:", error);
-      toast.error(error.message || "Analysis failed");
+      toast.error(error instanceof Error ? error.message : "Analysis failed");
     } finally {
       setAnalyzing(false);
     }
@@ -142,6 +153,28 @@ const Analyze = () => {
             <CardTitle>Job Details</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            {jobs.length > 0 && (
+              <div className="space-y-2">
+                <Label>Saved Job</Label>
+                <Select
+                  value={jobId ?? "none"}
+                  onValueChange={(value) => selectJob(jobs.find((job) => job.id === value) ?? null)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Paste a new posting</SelectItem>
+                    {jobs.map((job) => (
+                      <SelectItem key={job.id} value={job.id}>
+                        {[job.title, jobSubtitle(job)].filter(Boolean).join(" · ")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="job-title">Job Title</Label>
               <Input
@@ -149,6 +182,7 @@ const Analyze = () => {
                 placeholder="e.g., Senior Software Engineer"
                 value={jobTitle}
                 onChange={(e) => setJobTitle(e.target.value)}
+                disabled={jobId !== null}
               />
             </div>
 
@@ -160,9 +194,37 @@ const Analyze = () => {
                 value={jobDescription}
                 onChange={(e) => setJobDescription(e.target.value)}
                 rows={12}
+                disabled={jobId !== null}
               />
             </div>
 
+            {jobId === null && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="save-job"
+                  checked={saveToJobs}
+                  onCheckedChange={(checked) => setSaveToJobs(checked === true)}
+                />
+                <Label htmlFor="save-job" className="font-normal">
+                  Save this posting to Jobs
+                </Label>
+              </div>
+            )}
+
+            <p className="text-sm text-muted-foreground">
+              {[
+                preferences.seniority && SENIORITY_LABELS[preferences.seniority],
+                `${AI_STRICTNESS_LABELS[preferences.strictness]} scoring`,
+                LOCALE_LABELS[preferences.locale],
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+              {" · "}
+              <Link to="/settings" className="text-primary hover:underline">
+                Change defaults
+              </Link>
+            </p>
+
             <Button onClick={handleAnalyze} disabled={analyzing} size="lg" className="w-full">
               {analyzing ? (
                 <>
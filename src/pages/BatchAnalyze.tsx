@@ -0,0 +1,448 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Eye, Layers, Loader2, Plus, Sparkles, Square, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { Tables } from "@/integrations/supabase/types";
+import { jobSubtitle, type Job } from "@/lib/jobs";
+import { runQueue, type TaskState } from "@/lib/batchQueue";
+import { classifyAnalysisError, rankAnalyses, runAnalysis, type Analysis } from "@/lib/runAnalysis";
+import {
+  DEFAULT_ANALYSIS_PREFERENCES,
+  fetchProfile,
+  toAnalysisPreferences,
+  type AnalysisPreferences,
+} from "@/lib/profile";
+import { useSession } from "@/hooks/use-session";
+
+// Each job makes two AI calls, so two jobs at a time keeps well inside the gateway's rate limit
+const BATCH_CONCURRENCY = 2;
+const MAX_BATCH_JOBS = 10;
+
+interface PastedJob {
+  title: string;
+  description: string;
+}
+
+interface BatchTask {
+  title: string;
+  subtitle: string;
+  description: string;
+  jobId: string | null;
+  state: TaskState;
+  analysis?: Analysis;
+}
+
+const STATUS_LABELS: Record<TaskState["status"], string> = {
+  queued: "Queued",
+  running: "Analyzing",
+  retrying: "Retrying",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const statusDetail = (state: TaskState) => {
+  if (state.status === "running" && state.attempt > 1) return `Attempt ${state.attempt}`;
+  if (state.status === "retrying") return `${state.error} Retrying in ${Math.ceil((state.retryInMs ?? 0) / 1000)}s`;
+  if (state.status === "failed") return state.error;
+  return null;
+};
+
+const BatchAnalyze = () => {
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const [searchParams] = useSearchParams();
+  const [resumes, setResumes] = useState<Tables<"resumes">[]>([]);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resumeId, setResumeId] = useState("");
+  const [selectedJobIds, setSelectedJobIds] = useState<string[]>([]);
+  const [pastedJobs, setPastedJobs] = useState<PastedJob[]>([]);
+  const [tasks, setTasks] = useState<BatchTask[]>([]);
+  const [running, setRunning] = useState(false);
+  const [preferences, setPreferences] = useState<AnalysisPreferences>(DEFAULT_ANALYSIS_PREFERENCES);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    fetchData();
+    fetchPreferences();
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const fetchPreferences = async () => {
+    try {
+      setPreferences(toAnalysisPreferences(await fetchProfile(user.id)));
+    } catch (error) {
+      console.error("Error fetching analysis defaults:", error);
+    }
+  };
+
+  const fetchData = async () => {
+    try {
+      if (!user) return;
+
+      const { data: resumesData, error: resumesError } = await supabase
+        .from("resumes")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (resumesError) throw resumesError;
+
+      const { data: jobsData, error: jobsError } = await supabase
+        .from("jobs")
+        .select("*")
+        .eq("user_id", user.id)
+        .neq("status", "archived")
+        .order("created_at", { ascending: false });
+
+      if (jobsError) throw jobsError;
+
+      setResumes(resumesData || []);
+      setJobs(jobsData || []);
+
+      const requested = searchParams.get("resume");
+      setResumeId(resumesData?.find((resume) => resume.id === requested)?.id ?? resumesData?.[0]?.id ?? "");
+    } catch (error) {
+      console.error("Error fetching batch data:", error);
+      toast.error("Failed to load resumes and jobs");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleJob = (id: string, checked: boolean) => {
+    setSelectedJobIds((ids) => (checked ? [...ids, id] : ids.filter((jobId) => jobId !== id)));
+  };
+
+  const updatePastedJob = (index: number, patch: Partial<PastedJob>) => {
+    setPastedJobs((pasted) => pasted.map((job, i) => (i === index ? { ...job, ...patch } : job)));
+  };
+
+  const updateTask = (index: number, patch: Partial<BatchTask>) => {
+    setTasks((current) => current.map((task, i) => (i === index ? { ...task, ...patch } : task)));
+  };
+
+  const handleStart = async () => {
+    const resume = resumes.find((r) => r.id === resumeId);
+    if (!resume) {
+      toast.error("Please select a resume");
+      return;
+    }
+
+    const queued: BatchTask[] = [
+      ...jobs
+        .filter((job) => selectedJobIds.includes(job.id))
+        .map((job) => ({
+          title: job.title,
+          subtitle: jobSubtitle(job),
+          description: job.description,
+          jobId: job.id,
+          state: { status: "queued" as const, attempt: 0 },
+        })),
+      ...pastedJobs
+        .filter((job) => job.title.trim() && job.description.trim())
+        .map((job) => ({
+          title: job.title.trim(),
+          subtitle: "Pasted",
+          description: job.description,
+          jobId: null,
+          state: { status: "queued" as const, attempt: 0 },
+        })),
+    ];
+
+    if (queued.length === 0) {
+      toast.error("Select saved jobs or paste at least one job with a title and description");
+      return;
+    }
+    if (queued.length > MAX_BATCH_JOBS) {
+      toast.error(`A batch can include up to ${MAX_BATCH_JOBS} jobs`);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setTasks(queued);
+    setRunning(true);
+
+    try {
+      const results = await runQueue(
+        queued,
+        async (task, index) => {
+          const analysis = await runAnalysis({
+            userId: user.id,
+            resume,
+            jobTitle: task.title,
+            jobDescription: task.description,
+            jobId: task.jobId,
+            preferences,
+          });
+          updateTask(index, { analysis });
+          return analysis;
+        },
+        {
+          concurrency: BATCH_CONCURRENCY,
+          signal: controller.signal,
+          classifyError: classifyAnalysisError,
+          onTaskChange: (index, state) => updateTask(index, { state }),
+        },
+      );
+
+      const done = results.filter((result) => result.status === "done").length;
+      if (done === queued.length) {
+        toast.success(`Analyzed ${done} jobs`);
+      } else if (!controller.signal.aborted) {
+        toast.error(`${queued.length - done} of ${queued.length} analyses failed`);
+      }
+    } catch (error) {
+      console.error("Batch analysis error:", error);
+      toast.error("Batch analysis failed");
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    toast.info("Cancelling: analyses already running will finish");
+  };
+
+  const finished = tasks.filter((task) => ["done", "failed", "cancelled"].includes(task.state.status)).length;
+  const ranked = rankAnalyses(tasks.flatMap((task) => (task.analysis ? [{ ...task.analysis, subtitle: task.subtitle }] : [])));
+  const selectedCount = selectedJobIds.length + pastedJobs.filter((job) => job.title.trim() && job.description.trim()).length;
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center py-24">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-5xl mx-auto space-y-8">
+        <div>
+          <h1 className="text-4xl font-bold">Batch Analyze</h1>
+          <p className="text-muted-foreground mt-2">
+            Compare one resume against several openings at once
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Resume</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {resumes.length === 0 ? (
+              <div className="text-center py-6">
+                <p className="text-muted-foreground mb-4">No resumes uploaded yet</p>
+                <Button onClick={() => navigate("/upload")}>Upload Your First Resume</Button>
+              </div>
+            ) : (
+              <Select value={resumeId} onValueChange={setResumeId} disabled={running}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a resume" />
+                </SelectTrigger>
+                <SelectContent>
+                  {resumes.map((resume) => (
+                    <SelectItem key={resume.id} value={resume.id}>
+                      {resume.file_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Jobs</CardTitle>
+            <CardDescription>
+              Pick saved jobs and paste any others, up to {MAX_BATCH_JOBS} per batch
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {jobs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No saved jobs.{" "}
+                <button type="button" className="underline" onClick={() => navigate("/jobs")}>
+                  Save postings on the Jobs page
+                </button>{" "}
+                to reuse them here.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {jobs.map((job) => (
+                  <div key={job.id} className="flex items-center gap-3 p-3 rounded-lg border border-border">
+                    <Checkbox
+                      id={`job-${job.id}`}
+                      checked={selectedJobIds.includes(job.id)}
+                      onCheckedChange={(checked) => toggleJob(job.id, checked === true)}
+                      disabled={running}
+                    />
+                    <Label htmlFor={`job-${job.id}`} className="flex-1 font-normal cursor-pointer">
+                      <span className="font-medium">{job.title}</span>
+                      {jobSubtitle(job) && <span className="text-muted-foreground"> · {jobSubtitle(job)}</span>}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {pastedJobs.map((job, index) => (
+              <div key={index} className="space-y-2 p-4 rounded-lg border border-border">
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Job title"
+                    value={job.title}
+                    onChange={(e) => updatePastedJob(index, { title: e.target.value })}
+                    disabled={running}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove job"
+                    disabled={running}
+                    onClick={() => setPastedJobs((pasted) => pasted.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <Textarea
+                  placeholder="Paste the full job description here..."
+                  rows={6}
+                  value={job.description}
+                  onChange={(e) => updatePastedJob(index, { description: e.target.value })}
+                  disabled={running}
+                />
+              </div>
+            ))}
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={running}
+              onClick={() => setPastedJobs((pasted) => [...pasted, { title: "", description: "" }])}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Paste a Job
+            </Button>
+          </CardContent>
+        </Card>
+
+        {running ? (
+          <Button onClick={handleCancel} variant="outline" size="lg" className="w-full">
+            <Square className="mr-2 h-5 w-5" />
+            Cancel Remaining
+          </Button>
+        ) : (
+          <Button onClick={handleStart} disabled={!resumeId || selectedCount === 0} size="lg" className="w-full">
+            <Sparkles className="mr-2 h-5 w-5" />
+            Analyze {selectedCount > 0 ? `${selectedCount} ` : ""}Jobs
+          </Button>
+        )}
+
+        {tasks.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Progress</CardTitle>
+              <CardDescription>
+                {finished} of {tasks.length} finished
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Progress value={(finished / tasks.length) * 100} />
+              <div className="space-y-2">
+                {tasks.map((task, index) => {
+                  const detail = statusDetail(task.state);
+                  return (
+                    <div key={index} className="flex items-center justify-between gap-4 p-3 rounded-lg border border-border">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{task.title}</p>
+                        {detail && <p className="text-sm text-muted-foreground">{detail}</p>}
+                      </div>
+                      <Badge
+                        variant={task.state.status === "failed" ? "destructive" : task.state.status === "done" ? "default" : "secondary"}
+                        className="shrink-0 gap-1"
+                      >
+                        {(task.state.status === "running" || task.state.status === "retrying") && (
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        )}
+                        {STATUS_LABELS[task.state.status]}
+                      </Badge>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {ranked.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Layers className="w-5 h-5" />
+                Comparison
+              </CardTitle>
+              <CardDescription>Ranked by match score, then ATS score</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Job</TableHead>
+                    <TableHead className="text-right">Match</TableHead>
+                    <TableHead className="text-right">ATS</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ranked.map((analysis, index) => (
+                    <TableRow key={analysis.id}>
+                      <TableCell className="font-medium">{index + 1}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{analysis.job_title}</p>
+                        {analysis.subtitle && <p className="text-sm text-muted-foreground">{analysis.subtitle}</p>}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">{analysis.match_score ?? "–"}%</TableCell>
+                      <TableCell className="text-right">{analysis.ats_score ?? "–"}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => navigate(`/results/${analysis.id}`)}>
+                          <Eye className="w-4 h-4 mr-2" />
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default BatchAnalyze;
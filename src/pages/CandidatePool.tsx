@@ -0,0 +1,358 @@
+import { useEffect, useMemo, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDown, ArrowLeft, ArrowUp, ArrowUpDown, Loader2, Plus, Search, Trash2, Users } from "lucide-react";
+import { toast } from "sonner";
+import type { Job } from "@/lib/jobs";
+import {
+  emptyCandidateFilters,
+  filterCandidates,
+  rankCandidates,
+  sortCandidates,
+  type Candidate,
+  type CandidateFilters,
+  type CandidatePool as Pool,
+  type CandidateSortKey,
+} from "@/lib/candidates";
+
+const VISIBLE_SKILLS = 6;
+
+interface SortState {
+  key: CandidateSortKey;
+  direction: "asc" | "desc";
+}
+
+const CandidatePool = () => {
+  const { poolId } = useParams();
+  const navigate = useNavigate();
+  const [pool, setPool] = useState<Pool | null>(null);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<CandidateFilters>(emptyCandidateFilters);
+  const [sort, setSort] = useState<SortState>({ key: "score", direction: "desc" });
+
+  useEffect(() => {
+    fetchPool();
+  }, [poolId]);
+
+  const fetchPool = async () => {
+    try {
+      const { data: poolData, error: poolError } = await supabase
+        .from("candidate_pools")
+        .select("*")
+        .eq("id", poolId)
+        .single();
+
+      if (poolError) throw poolError;
+
+      const { data: candidatesData, error: candidatesError } = await supabase
+        .from("candidates")
+        .select("*")
+        .eq("pool_id", poolId);
+
+      if (candidatesError) throw candidatesError;
+
+      const { data: jobsData, error: jobsError } = await supabase
+        .from("jobs")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (jobsError) throw jobsError;
+
+      setPool(poolData);
+      setCandidates(candidatesData || []);
+      // Archived jobs stay selectable only for the pool already ranked against them
+      setJobs((jobsData || []).filter((job) => job.status !== "archived" || job.id === poolData.job_id));
+    } catch (error) {
+      console.error("Error fetching candidate pool:", error);
+      toast.error("Failed to load candidate pool");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const job = jobs.find((j) => j.id === pool?.job_id) ?? null;
+
+  const ranked = useMemo(() => (job ? rankCandidates(candidates, job.description) : []), [candidates, job]);
+
+  // Position in score order, kept when the table is re-sorted by another column
+  const rankById = useMemo(() => new Map(ranked.map((entry, index) => [entry.candidate.id, index + 1])), [ranked]);
+
+  const postingSkills = useMemo(
+    () => (ranked[0] ? [...ranked[0].matchedSkills, ...ranked[0].missingSkills].sort() : []),
+    [ranked],
+  );
+
+  const visible = sortCandidates(filterCandidates(ranked, filters), sort.key, sort.direction);
+
+  const selectJob = async (jobId: string) => {
+    if (!pool) return;
+    try {
+      const { data, error } = await supabase
+        .from("candidate_pools")
+        .update({ job_id: jobId })
+        .eq("id", pool.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      setPool(data);
+      setFilters(emptyCandidateFilters());
+    } catch (error) {
+      console.error("Error updating candidate pool:", error);
+      toast.error("Failed to update job");
+    }
+  };
+
+  const deleteCandidate = async (candidate: Candidate) => {
+    try {
+      const { error } = await supabase.from("candidates").delete().eq("id", candidate.id);
+      if (error) throw error;
+
+      // The row is gone, so a leftover file is only an orphan for reconcile-storage
+      const { error: storageError } = await supabase.storage.from("resumes").remove([candidate.file_path]);
+      if (storageError) {
+        console.error("Failed to remove candidate file, leaving it for reconciliation:", storageError);
+      }
+      setCandidates((current) => current.filter((c) => c.id !== candidate.id));
+      toast.success("Candidate removed");
+    } catch (error) {
+      console.error("Error deleting candidate:", error);
+      toast.error("Failed to remove candidate");
+    }
+  };
+
+  const toggleSort = (key: CandidateSortKey) => {
+    setSort((current) =>
+      current.key === key
+        ? { key, direction: current.direction === "asc" ? "desc" : "asc" }
+        : { key, direction: key === "name" || key === "missing" ? "asc" : "desc" },
+    );
+  };
+
+  const toggleSkill = (skill: string) => {
+    setFilters((current) => ({
+      ...current,
+      skills: current.skills.includes(skill)
+        ? current.skills.filter((s) => s !== skill)
+        : [...current.skills, skill],
+    }));
+  };
+
+  const sortHeader = (key: CandidateSortKey, label: string, className?: string) => {
+    const Icon = sort.key !== key ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown;
+    return (
+      <TableHead className={className}>
+        <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(key)}>
+          {label}
+          <Icon className="w-3 h-3" />
+        </button>
+      </TableHead>
+    );
+  };
+
+  const skillBadges = (skills: string[], variant: "secondary" | "outline") => (
+    <div className="flex flex-wrap gap-1">
+      {skills.slice(0, VISIBLE_SKILLS).map((skill) => (
+        <Badge key={skill} variant={variant} className="font-normal">
+          {skill}
+        </Badge>
+      ))}
+      {skills.length > VISIBLE_SKILLS && (
+        <span className="text-xs text-muted-foreground">+{skills.length - VISIBLE_SKILLS} more</span>
+      )}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center py-24">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!pool) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-24">
+          <p className="text-muted-foreground mb-4">Candidate pool not found</p>
+          <Button onClick={() => navigate("/candidates")}>Back to Candidates</Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        {/* Header */}
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <Button variant="ghost" size="sm" className="mb-2 -ml-3" onClick={() => navigate("/candidates")}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Candidates
+            </Button>
+            <h1 className="text-4xl font-bold">{pool.name}</h1>
+            <p className="text-muted-foreground mt-2">
+              {candidates.length} candidate{candidates.length === 1 ? "" : "s"}
+            </p>
+          </div>
+          <Button onClick={() => navigate(`/upload?mode=candidates&pool=${pool.id}`)} variant="outline" size="lg" className="gap-2">
+            <Plus className="w-5 h-5" />
+            Add Candidates
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Job</CardTitle>
+            <CardDescription>Candidates are scored against this posting's required and preferred skills</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {jobs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No saved jobs.{" "}
+                <button type="button" className="underline" onClick={() => navigate("/jobs")}>
+                  Save a posting on the Jobs page
+                </button>{" "}
+                to rank this pool.
+              </p>
+            ) : (
+              <Select value={pool.job_id ?? undefined} onValueChange={selectJob}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a job" />
+                </SelectTrigger>
+                <SelectContent>
+                  {jobs.map((j) => (
+                    <SelectItem key={j.id} value={j.id}>
+                      {j.title}
+                      {j.company ? ` · ${j.company}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </CardContent>
+        </Card>
+
+        {job && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Shortlist</CardTitle>
+              <CardDescription>
+                Showing {visible.length} of {ranked.length} candidates
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {/* Filters */}
+              <div className="grid md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <Label htmlFor="candidate-search">Search</Label>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      id="candidate-search"
+                      placeholder="Name, email or file"
+                      className="pl-9"
+                      value={filters.search}
+                      onChange={(e) => setFilters((current) => ({ ...current, search: e.target.value }))}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Minimum score: {filters.minScore}</Label>
+                  <Slider
+                    value={[filters.minScore]}
+                    onValueChange={([minScore]) => setFilters((current) => ({ ...current, minScore }))}
+                    max={100}
+                    step={5}
+                    className="py-2"
+                  />
+                </div>
+              </div>
+
+              {postingSkills.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Must have</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {postingSkills.map((skill) => (
+                      <Badge
+                        key={skill}
+                        variant={filters.skills.includes(skill) ? "default" : "outline"}
+                        className="cursor-pointer font-normal"
+                        onClick={() => toggleSkill(skill)}
+                      >
+                        {skill}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {ranked.length === 0 ? (
+                <div className="text-center py-12">
+                  <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No candidates in this pool yet</p>
+                </div>
+              ) : visible.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">No candidates match these filters</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">#</TableHead>
+                      {sortHeader("name", "Candidate")}
+                      {sortHeader("score", "Score", "text-right")}
+                      {sortHeader("matched", "Matched Skills")}
+                      {sortHeader("missing", "Missing Skills")}
+                      <TableHead className="w-12" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visible.map(({ candidate, score, matchedSkills, missingSkills }) => (
+                      <TableRow key={candidate.id}>
+                        <TableCell className="font-medium">{rankById.get(candidate.id)}</TableCell>
+                        <TableCell>
+                          <p className="font-medium">{candidate.name}</p>
+                          <p className="text-sm text-muted-foreground">{candidate.email || candidate.file_name}</p>
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">{score.score}</TableCell>
+                        <TableCell>{skillBadges(matchedSkills, "secondary")}</TableCell>
+                        <TableCell>{skillBadges(missingSkills, "outline")}</TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={`Remove ${candidate.name}`}
+                            onClick={() => deleteCandidate(candidate)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default CandidatePool;
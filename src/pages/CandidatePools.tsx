@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Briefcase, Plus, Trash2, Users } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import type { CandidatePool } from "@/lib/candidates";
+
+interface PoolSummary extends CandidatePool {
+  jobs: { title: string } | null;
+  candidates: { count: number }[];
+}
+
+const CandidatePools = () => {
+  const navigate = useNavigate();
+  const [pools, setPools] = useState<PoolSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchPools();
+  }, []);
+
+  const fetchPools = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("candidate_pools")
+        .select("*, jobs(title), candidates(count)")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setPools((data as PoolSummary[]) || []);
+    } catch (error) {
+      console.error("Error fetching candidate pools:", error);
+      toast.error("Failed to load candidate pools");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deletePool = async (pool: PoolSummary) => {
+    try {
+      // Collect the file paths before the candidate rows cascade with the pool
+      const { data: candidates, error: candidatesError } = await supabase
+        .from("candidates")
+        .select("file_path")
+        .eq("pool_id", pool.id);
+      if (candidatesError) throw candidatesError;
+
+      const { error } = await supabase.from("candidate_pools").delete().eq("id", pool.id);
+      if (error) throw error;
+
+      // Files left behind by a failed removal are cleaned up by reconcile-storage
+      if (candidates && candidates.length > 0) {
+        const { error: storageError } = await supabase.storage
+          .from("resumes")
+          .remove(candidates.map((candidate) => candidate.file_path));
+        if (storageError) {
+          console.error("Failed to remove candidate files, leaving them for reconciliation:", storageError);
+        }
+      }
+      toast.success("Candidate pool deleted");
+      fetchPools();
+    } catch (error) {
+      console.error("Error deleting candidate pool:", error);
+      toast.error("Failed to delete candidate pool");
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold">Candidates</h1>
+            <p className="text-muted-foreground mt-2">
+              Rank pools of candidate resumes against a job.
+            </p>
+          </div>
+          <Button onClick={() => navigate("/upload?mode=candidates")} size="lg" className="gap-2">
+            <Plus className="w-5 h-5" />
+            Upload Candidates
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Candidate Pools</CardTitle>
+            <CardDescription>Each pool is ranked against one job</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-center py-8 text-muted-foreground">Loading...</p>
+            ) : pools.length === 0 ? (
+              <div className="text-center py-12">
+                <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground mb-4">No candidate pools yet</p>
+                <Button onClick={() => navigate("/upload?mode=candidates")}>Upload Your First Candidates</Button>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {pools.map((pool) => (
+                  <div
+                    key={pool.id}
+                    className="flex items-center justify-between gap-4 p-4 rounded-lg border border-border hover:bg-muted/50 transition-colors cursor-pointer"
+                    onClick={() => navigate(`/candidates/${pool.id}`)}
+                  >
+                    <div className="flex items-center gap-4 flex-1 min-w-0">
+                      <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+                        <Users className="w-5 h-5 text-primary" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium">{pool.name}</p>
+                        <p className="text-sm text-muted-foreground flex items-center gap-1 truncate">
+                          <Briefcase className="w-3 h-3" />
+                          {pool.jobs?.title ?? "No job selected"}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Created {formatDistanceToNow(new Date(pool.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                    </div>
+                    <Badge variant="secondary">{pool.candidates[0]?.count ?? 0} candidates</Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      aria-label="Delete pool"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deletePool(pool);
+                      }}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default CandidatePools;
@@ -4,16 +4,29 @@ import { supabase } from "@/integrations/supabase/client";
 import DashboardLayout from "@/components/DashboardLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { FileText, Upload, Target, TrendingUp, Plus, Eye, Trash2 } from "lucide-react";
+import { FileText, Upload, Target, TrendingUp, Plus, Eye, Trash2, Pencil } from "lucide-react";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
+import DashboardCharts from "@/components/DashboardCharts";
+import { deleteResumes } from "@/lib/resumes";
+import { fetchProfile, firstName } from "@/lib/profile";
+import {
+  atsDistribution,
+  matchScoreTrend,
+  resumeProgression,
+  topMissingSkills,
+  type AtsBucket,
+  type Progression,
+  type SkillCount,
+  type TrendPoint,
+} from "@/lib/dashboardStats";
+import { useSession } from "@/hooks/use-session";
 
 interface Resume {
   id: string;
   file_name: string;
   created_at: string;
-  parsed_data: any;
 }
 
 interface Analysis {
@@ -24,58 +37,118 @@ interface Analysis {
   resume_id: string;
 }
 
+interface ChartData {
+  trend: TrendPoint[];
+  distribution: AtsBucket[];
+  missingSkills: SkillCount[];
+  progression: Progression;
+}
+
+// Enough history for the charts without pulling every row for heavy users
+const MAX_SCORE_POINTS = 500;
+// Extra rows so spelling variants of a skill can be merged before taking the top ten
+const MISSING_SKILL_ROWS = 50;
+
 const Dashboard = () => {
   const navigate = useNavigate();
+  const { user } = useSession();
   const [resumes, setResumes] = useState<Resume[]>([]);
   const [analyses, setAnalyses] = useState<Analysis[]>([]);
   const [loading, setLoading] = useState(true);
+  const [name, setName] = useState<string | null>(null);
   const [stats, setStats] = useState({
     totalResumes: 0,
     totalAnalyses: 0,
     avgMatchScore: 0,
   });
+  const [charts, setCharts] = useState<ChartData>({
+    trend: [],
+    distribution: atsDistribution([]),
+    missingSkills: [],
+    progression: { series: [], data: [] },
+  });
 
   useEffect(() => {
     fetchDashboardData();
+    fetchProfile(user.id)
+      .then((profile) => setName(firstName(profile?.full_name)))
+      .catch((error) => console.error("Error fetching profile:", error));
   }, []);
 
   const fetchDashboardData = async () => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Fetch resumes
-      const { data: resumesData, error: resumesError } = await supabase
-        .from("resumes")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false })
-        .limit(5);
+      // The queries are independent; the count covers every resume although only five rows are listed
+      const [resumesResult, analysesResult, statsResult, distributionResult, missingResult, pointsResult] =
+        await Promise.all([
+          supabase
+            .from("resumes")
+            .select("id, file_name, created_at", { count: "exact" })
+            .eq("user_id", user.id)
+            .order("created_at", { ascending: false })
+            .limit(5),
+          supabase
+            .from("analyses")
+            .select("id, job_title, match_score, created_at, resume_id")
+            .eq("user_id", user.id)
+            .order("created_at", { ascending: false })
+            .limit(5),
+          // Aggregates over all analyses come from the dashboard views
+          supabase
+            .from("analysis_stats")
+            .select("total_analyses, avg_match_score")
+            .eq("user_id", user.id)
+            .maybeSingle(),
+          supabase.from("ats_score_distribution").select("bucket_start, analysis_count").eq("user_id", user.id),
+          supabase
+            .from("missing_skill_counts")
+            .select("skill, analysis_count")
+            .eq("user_id", user.id)
+            .order("analysis_count", { ascending: false })
+            .limit(MISSING_SKILL_ROWS),
+          // Score history for the trend charts, newest first so the limit keeps recent analyses
+          supabase
+            .from("analyses")
+            .select("resume_id, match_score, ats_score, created_at")
+            .eq("user_id", user.id)
+            .order("created_at", { ascending: false })
+            .limit(MAX_SCORE_POINTS),
+        ]);
 
-      if (resumesError) throw resumesError;
+      const failed = [resumesResult, analysesResult, statsResult, distributionResult, missingResult, pointsResult].find(
+        (result) => result.error,
+      );
+      if (failed?.error) throw failed.error;
 
-      // Fetch analyses
-      const { data: analysesData, error: analysesError } = await supabase
-        .from("analyses")
-        .select("*")
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false })
-        .limit(5);
+      const resumesData = resumesResult.data;
+      const analysesData = analysesResult.data;
+      const statsData = statsResult.data;
+      const points = pointsResult.data || [];
 
-      if (analysesError) throw analysesError;
+      // Names label the progression chart, so only the resumes it plots are needed
+      const chartedIds = [...new Set(points.map((point) => point.resume_id))];
+      const { data: namesData, error: namesError } = chartedIds.length
+        ? await supabase.from("resumes").select("id, file_name").in("id", chartedIds)
+        : { data: [], error: null };
+
+      if (namesError) throw namesError;
+
+      const resumeNames = Object.fromEntries((namesData || []).map((resume) => [resume.id, resume.file_name]));
 
       setResumes(resumesData || []);
       setAnalyses(analysesData || []);
-
-      // Calculate stats
-      const avgScore = analysesData && analysesData.length > 0
-        ? analysesData.reduce((sum, a) => sum + (a.match_score || 0), 0) / analysesData.length
-        : 0;
+      setCharts({
+        trend: matchScoreTrend(points),
+        distribution: atsDistribution(distributionResult.data || []),
+        missingSkills: topMissingSkills(missingResult.data || []),
+        progression: resumeProgression(points, resumeNames),
+      });
 
       setStats({
-        totalResumes: resumesData?.length || 0,
-        totalAnalyses: analysesData?.length || 0,
-        avgMatchScore: Math.round(avgScore),
+        totalResumes: resumesResult.count ?? 0,
+        totalAnalyses: statsData?.total_analyses ?? 0,
+        avgMatchScore: statsData?.avg_match_score ?? 0,
       });
     } catch (error) {
       console.error("Error fetching dashboard data:", error);
@@ -87,8 +160,7 @@ const Dashboard = () => {
 
   const deleteResume = async (id: string) => {
     try {
-      const { error } = await supabase.from("resumes").delete().eq("id", id);
-      if (error) throw error;
+      await deleteResumes([id]);
       toast.success("Resume deleted successfully");
       fetchDashboardData();
     } catch (error) {
@@ -105,7 +177,7 @@ const Dashboard = () => {
           <div>
             <h1 className="text-4xl font-bold">Dashboard</h1>
             <p className="text-muted-foreground mt-2">
-              Welcome back! Here's an overview of your resume analysis journey.
+              Welcome back{name ? `, ${name}` : ""}! Here's an overview of your resume analysis journey.
             </p>
           </div>
           <Button onClick={() => navigate("/upload")} size="lg" className="gap-2">
@@ -155,13 +227,23 @@ const Dashboard = () => {
           </Card>
         </div>
 
+        {/* Trends */}
+        {!loading && stats.totalAnalyses > 0 && <DashboardCharts {...charts} />}
+
         {/* Recent Resumes */}
         <Card>
-          <CardHeader>
-            <CardTitle>Recent Resumes</CardTitle>
-            <CardDescription>
-              Your most recently uploaded resumes
-            </CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>Recent Resumes</CardTitle>
+              <CardDescription>
+                Your most recently uploaded resumes
+              </CardDescription>
+            </div>
+            {stats.totalResumes > resumes.length && (
+              <Button variant="ghost" size="sm" onClick={() => navigate("/resumes")}>
+                View all
+              </Button>
+            )}
           </CardHeader>
           <CardContent>
             {loading ? (
@@ -186,7 +268,13 @@ const Dashboard = () => {
                         <FileText className="w-5 h-5 text-primary" />
                       </div>
                       <div className="flex-1">
-                        <p className="font-medium">{resume.file_name}</p>
+                        <button
+                          type="button"
+                          className="font-medium hover:underline text-left"
+                          onClick={() => navigate(`/resumes/${resume.id}`)}
+                        >
+                          {resume.file_name}
+                        </button>
                         <p className="text-sm text-muted-foreground">
                           Uploaded {formatDistanceToNow(new Date(resume.created_at), { addSuffix: true })}
                         </p>
@@ -201,6 +289,13 @@ const Dashboard = () => {
                         <Eye className="w-4 h-4 mr-2" />
                         Analyze
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(`/resumes/${resume.id}/edit`)}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -218,11 +313,18 @@ const Dashboard = () => {
 
         {/* Recent Analyses */}
         <Card>
-          <CardHeader>
-            <CardTitle>Recent Analyses</CardTitle>
-            <CardDescription>
-              Your latest job fit analyses
-            </CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>Recent Analyses</CardTitle>
+              <CardDescription>
+                Your latest job fit analyses
+              </CardDescription>
+            </div>
+            {stats.totalAnalyses > analyses.length && (
+              <Button variant="ghost" size="sm" onClick={() => navigate("/analyses")}>
+                View all
+              </Button>
+            )}
           </CardHeader>
           <CardContent>
             {analyses.length === 0 ? (
@@ -0,0 +1,558 @@
+import { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useFieldArray, useForm, type Control } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { ArrowDown, ArrowLeft, ArrowUp, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { PARSED_RESUME_VERSION, toParsedResume, type ParsedResume } from "@/lib/parsedResume";
+import { saveResumeVersion } from "@/lib/resumeVersions";
+import { useSession } from "@/hooks/use-session";
+
+// react-hook-form field arrays need objects, so string lists are wrapped as { value }
+const valueListSchema = z.array(z.object({ value: z.string() }));
+
+const editorSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  email: z.union([z.string().trim().email("Please enter a valid email address"), z.literal("")]),
+  phone: z.string().trim(),
+  location: z.string().trim(),
+  links: valueListSchema,
+  summary: z.string().trim(),
+  skills: valueListSchema,
+  experience: z.array(
+    z.object({
+      company: z.string().trim(),
+      title: z.string().trim(),
+      duration: z.string().trim(),
+      location: z.string().trim(),
+      bullets: valueListSchema,
+    }),
+  ),
+  education: z.array(
+    z.object({
+      institution: z.string().trim(),
+      degree: z.string().trim(),
+      field: z.string().trim(),
+      year: z.string().trim(),
+    }),
+  ),
+  projects: z.array(
+    z.object({
+      name: z.string().trim(),
+      description: z.string().trim(),
+      technologies: z.string().trim(),
+    }),
+  ),
+});
+
+type EditorValues = z.infer<typeof editorSchema>;
+
+const wrap = (values: string[]) => values.map((value) => ({ value }));
+const unwrap = (values: { value?: string }[]) => values.map((item) => (item.value ?? "").trim()).filter(Boolean);
+
+const toEditorValues = (resume: ParsedResume): EditorValues => ({
+  name: resume.name,
+  email: resume.email,
+  phone: resume.phone,
+  location: resume.location,
+  links: wrap(resume.links),
+  summary: resume.summary,
+  skills: wrap(resume.skills),
+  experience: resume.experience.map((exp) => ({ ...exp, bullets: wrap(exp.bullets) })),
+  education: resume.education,
+  projects: resume.projects.map((project) => ({ ...project, technologies: project.technologies.join(", ") })),
+});
+
+const fromEditorValues = (values: EditorValues): ParsedResume => ({
+  version: PARSED_RESUME_VERSION,
+  name: values.name,
+  email: values.email,
+  phone: values.phone,
+  location: values.location,
+  links: unwrap(values.links),
+  summary: values.summary,
+  skills: [...new Set(unwrap(values.skills))],
+  experience: values.experience
+    .map((exp) => ({ ...exp, bullets: unwrap(exp.bullets) }))
+    .filter((exp) => exp.company || exp.title || exp.bullets.length > 0),
+  education: values.education.filter((edu) => edu.institution || edu.degree),
+  projects: values.projects
+    .map((project) => ({
+      ...project,
+      technologies: project.technologies.split(",").map((t) => t.trim()).filter(Boolean),
+    }))
+    .filter((project) => project.name || project.description),
+});
+
+interface BulletListFieldProps {
+  control: Control<EditorValues>;
+  experienceIndex: number;
+}
+
+const BulletListField = ({ control, experienceIndex }: BulletListFieldProps) => {
+  const { fields, append, remove, move } = useFieldArray({
+    control,
+    name: `experience.${experienceIndex}.bullets`,
+  });
+
+  return (
+    <div className="space-y-2">
+      <FormLabel>Bullets</FormLabel>
+      {fields.map((field, index) => (
+        <div key={field.id} className="flex gap-2 items-start">
+          <FormField
+            control={control}
+            name={`experience.${experienceIndex}.bullets.${index}.value`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormControl>
+                  <Textarea rows={2} {...field} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          <div className="flex flex-col gap-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Move bullet up"
+              disabled={index === 0}
+              onClick={() => move(index, index - 1)}
+            >
+              <ArrowUp className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Move bullet down"
+              disabled={index === fields.length - 1}
+              onClick={() => move(index, index + 1)}
+            >
+              <ArrowDown className="w-4 h-4" />
+            </Button>
+          </div>
+          <Button type="button" variant="ghost" size="icon" aria-label="Remove bullet" onClick={() => remove(index)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ value: "" })}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add Bullet
+      </Button>
+    </div>
+  );
+};
+
+const EditResume = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const [fileName, setFileName] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<EditorValues>({
+    resolver: zodResolver(editorSchema),
+    defaultValues: toEditorValues(toParsedResume(null)),
+  });
+
+  const links = useFieldArray({ control: form.control, name: "links" });
+  const skills = useFieldArray({ control: form.control, name: "skills" });
+  const experience = useFieldArray({ control: form.control, name: "experience" });
+  const education = useFieldArray({ control: form.control, name: "education" });
+  const projects = useFieldArray({ control: form.control, name: "projects" });
+
+  useEffect(() => {
+    fetchResume();
+  }, [id]);
+
+  const fetchResume = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("resumes")
+        .select("file_name, parsed_data")
+        .eq("id", id)
+        .single();
+
+      if (error) throw error;
+      setFileName(data.file_name);
+      form.reset(toEditorValues(toParsedResume(data.parsed_data)));
+    } catch (error) {
+      console.error("Error fetching resume:", error);
+      toast.error("Failed to load resume");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onSubmit = async (values: EditorValues) => {
+    setSaving(true);
+    try {
+      await saveResumeVersion(user.id, id, fromEditorValues(values), "edit");
+      toast.success("Resume saved");
+      form.reset(values);
+    } catch (error) {
+      console.error("Error saving resume:", error);
+      toast.error("Failed to save resume");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const textField = (name: "name" | "email" | "phone" | "location", label: string, placeholder?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center py-24">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="max-w-4xl mx-auto space-y-8">
+          {/* Header */}
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <Button type="button" variant="ghost" size="sm" className="mb-2 -ml-3" onClick={() => navigate("/dashboard")}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Dashboard
+              </Button>
+              <h1 className="text-4xl font-bold">Edit Resume</h1>
+              <p className="text-muted-foreground mt-2">
+                Correct the parsed details of {fileName || "your resume"}. Future analyses use the saved data.
+              </p>
+            </div>
+            <Button type="submit" size="lg" disabled={saving || !form.formState.isDirty} className="gap-2">
+              {saving ? <Loader2 className="w-5 h-5 animate-spin" /> : <Save className="w-5 h-5" />}
+              Save
+            </Button>
+          </div>
+
+          {/* Contact */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Contact</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                {textField("name", "Full Name")}
+                {textField("email", "Email", "you@example.com")}
+                {textField("phone", "Phone")}
+                {textField("location", "Location", "City, Country")}
+              </div>
+              <div className="space-y-2">
+                <FormLabel>Links</FormLabel>
+                {links.fields.map((field, index) => (
+                  <div key={field.id} className="flex gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`links.${index}.value`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input placeholder="https://" {...field} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="button" variant="ghost" size="icon" aria-label="Remove link" onClick={() => links.remove(index)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={() => links.append({ value: "" })}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Link
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Summary */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Summary</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <FormField
+                control={form.control}
+                name="summary"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Textarea rows={5} placeholder="Professional summary" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Skills */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Skills</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="grid sm:grid-cols-2 md:grid-cols-3 gap-2">
+                {skills.fields.map((field, index) => (
+                  <div key={field.id} className="flex gap-1">
+                    <FormField
+                      control={form.control}
+                      name={`skills.${index}.value`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input {...field} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="button" variant="ghost" size="icon" aria-label="Remove skill" onClick={() => skills.remove(index)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={() => skills.append({ value: "" })}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Skill
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Experience */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Experience</CardTitle>
+              <CardDescription>Use the arrows to reorder entries and bullets</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {experience.fields.map((field, index) => (
+                <div key={field.id} className="p-4 rounded-lg border border-border space-y-4">
+                  <div className="flex justify-between items-center">
+                    <p className="font-medium">Position {index + 1}</p>
+                    <div className="flex gap-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Move position up"
+                        disabled={index === 0}
+                        onClick={() => experience.move(index, index - 1)}
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Move position down"
+                        disabled={index === experience.fields.length - 1}
+                        onClick={() => experience.move(index, index + 1)}
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Remove position"
+                        onClick={() => experience.remove(index)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="grid md:grid-cols-2 gap-4">
+                    {(["title", "company", "duration", "location"] as const).map((key) => (
+                      <FormField
+                        key={key}
+                        control={form.control}
+                        name={`experience.${index}.${key}`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="capitalize">{key === "duration" ? "Dates" : key}</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                  <BulletListField control={form.control} experienceIndex={index} />
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => experience.append({ company: "", title: "", duration: "", location: "", bullets: [] })}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Position
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Education */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Education</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {education.fields.map((field, index) => (
+                <div key={field.id} className="p-4 rounded-lg border border-border space-y-4">
+                  <div className="flex justify-between items-center">
+                    <p className="font-medium">Education {index + 1}</p>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove education"
+                      onClick={() => education.remove(index)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="grid md:grid-cols-2 gap-4">
+                    {(["institution", "degree", "field", "year"] as const).map((key) => (
+                      <FormField
+                        key={key}
+                        control={form.control}
+                        name={`education.${index}.${key}`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="capitalize">{key}</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => education.append({ institution: "", degree: "", field: "", year: "" })}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Education
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Projects */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Projects</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {projects.fields.map((field, index) => (
+                <div key={field.id} className="p-4 rounded-lg border border-border space-y-4">
+                  <div className="flex justify-between items-center">
+                    <p className="font-medium">Project {index + 1}</p>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove project"
+                      onClick={() => projects.remove(index)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name={`projects.${index}.name`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`projects.${index}.description`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Description</FormLabel>
+                        <FormControl>
+                          <Textarea rows={3} {...field} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`projects.${index}.technologies`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Technologies</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Comma-separated, e.g. React, PostgreSQL" {...field} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => projects.append({ name: "", description: "", technologies: "" })}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Project
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Button type="submit" size="lg" className="w-full gap-2" disabled={saving || !form.formState.isDirty}>
+            {saving ? <Loader2 className="w-5 h-5 animate-spin" /> : <Save className="w-5 h-5" />}
+            Save Changes
+          </Button>
+        </form>
+      </Form>
+    </DashboardLayout>
+  );
+};
+
+export default EditResume;
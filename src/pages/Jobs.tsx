@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import DashboardLayout from "@/components/DashboardLayout";
+import JobFormDialog from "@/components/JobFormDialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Archive, ArchiveRestore, Briefcase, ExternalLink, Layers, Pencil, Plus, Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { JOB_STATUS_LABELS, formatSalary, isJobStatus, jobSubtitle, type Job } from "@/lib/jobs";
+import { useSession } from "@/hooks/use-session";
+
+interface ResumeOption {
+  id: string;
+  file_name: string;
+}
+
+type JobFilter = "active" | "archived";
+
+const Jobs = () => {
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [resumes, setResumes] = useState<ResumeOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<JobFilter>("active");
+  const [editing, setEditing] = useState<Job | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [analyzing, setAnalyzing] = useState<Job | null>(null);
+  const [resumeId, setResumeId] = useState("");
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  const fetchJobs = async () => {
+    try {
+      if (!user) return;
+
+      const { data: jobsData, error: jobsError } = await supabase
+        .from("jobs")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (jobsError) throw jobsError;
+
+      const { data: resumesData, error: resumesError } = await supabase
+        .from("resumes")
+        .select("id, file_name")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (resumesError) throw resumesError;
+
+      setJobs(jobsData || []);
+      setResumes(resumesData || []);
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      toast.error("Failed to load jobs");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setArchived = async (job: Job, archived: boolean) => {
+    try {
+      const { error } = await supabase
+        .from("jobs")
+        .update({ status: archived ? "archived" : "saved" })
+        .eq("id", job.id);
+
+      if (error) throw error;
+      toast.success(archived ? "Job archived" : "Job restored");
+      fetchJobs();
+    } catch (error) {
+      console.error("Error updating job:", error);
+      toast.error("Failed to update job");
+    }
+  };
+
+  const openForm = (job: Job | null) => {
+    setEditing(job);
+    setFormOpen(true);
+  };
+
+  const openAnalyze = (job: Job) => {
+    if (resumes.length === 0) {
+      toast.error("Upload a resume first");
+      return;
+    }
+    setResumeId(resumes[0].id);
+    setAnalyzing(job);
+  };
+
+  const visibleJobs = jobs.filter((job) => (job.status === "archived") === (filter === "archived"));
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold">Jobs</h1>
+            <p className="text-muted-foreground mt-2">
+              Saved postings you can analyze any resume against.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={() => navigate("/batch")} variant="outline" size="lg" className="gap-2">
+              <Layers className="w-5 h-5" />
+              Batch Analyze
+            </Button>
+            <Button onClick={() => openForm(null)} size="lg" className="gap-2">
+              <Plus className="w-5 h-5" />
+              New Job
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <div>
+              <CardTitle>Saved Jobs</CardTitle>
+              <CardDescription>
+                {filter === "active" ? "Postings you are tracking" : "Postings you have archived"}
+              </CardDescription>
+            </div>
+            <Tabs value={filter} onValueChange={(value) => setFilter(value as JobFilter)}>
+              <TabsList>
+                <TabsTrigger value="active">Active</TabsTrigger>
+                <TabsTrigger value="archived">Archived</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-center py-8 text-muted-foreground">Loading...</p>
+            ) : visibleJobs.length === 0 ? (
+              <div className="text-center py-12">
+                <Briefcase className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground mb-4">
+                  {filter === "active" ? "No saved jobs yet" : "No archived jobs"}
+                </p>
+                {filter === "active" && <Button onClick={() => openForm(null)}>Save Your First Job</Button>}
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {visibleJobs.map((job) => {
+                  const salary = formatSalary(job);
+                  const subtitle = jobSubtitle(job);
+                  const archived = job.status === "archived";
+
+                  return (
+                    <div
+                      key={job.id}
+                      className="flex items-center justify-between gap-4 p-4 rounded-lg border border-border hover:bg-muted/50 transition-colors"
+                    >
+                      <div className="flex items-center gap-4 flex-1 min-w-0">
+                        <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+                          <Briefcase className="w-5 h-5 text-primary" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            <button
+                              type="button"
+                              className="font-medium hover:underline text-left"
+                              onClick={() => openForm(job)}
+                            >
+                              {job.title}
+                            </button>
+                            <Badge variant="secondary">
+                              {isJobStatus(job.status) ? JOB_STATUS_LABELS[job.status] : job.status}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-muted-foreground truncate">
+                            {[subtitle, salary].filter(Boolean).join(" · ") || "No company details"}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            Saved {formatDistanceToNow(new Date(job.created_at), { addSuffix: true })}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        {!archived && (
+                          <Button variant="outline" size="sm" onClick={() => openAnalyze(job)}>
+                            <Sparkles className="w-4 h-4 mr-2" />
+                            Analyze
+                          </Button>
+                        )}
+                        {job.source?.startsWith("http") && (
+                          <Button variant="outline" size="sm" asChild>
+                            <a href={job.source} target="_blank" rel="noopener noreferrer" aria-label="Open posting">
+                              <ExternalLink className="w-4 h-4" />
+                            </a>
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" aria-label="Edit job" onClick={() => openForm(job)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          aria-label={archived ? "Restore job" : "Archive job"}
+                          onClick={() => setArchived(job, !archived)}
+                        >
+                          {archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <JobFormDialog job={editing} open={formOpen} onOpenChange={setFormOpen} onSaved={() => fetchJobs()} />
+
+      {/* Pick a resume to analyze against the selected job */}
+      <Dialog open={analyzing !== null} onOpenChange={(open) => !open && setAnalyzing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Analyze Resume</DialogTitle>
+            <DialogDescription>
+              Choose the resume to analyze against {analyzing?.title}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Resume</Label>
+            <Select value={resumeId} onValueChange={setResumeId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a resume" />
+              </SelectTrigger>
+              <SelectContent>
+                {resumes.map((resume) => (
+                  <SelectItem key={resume.id} value={resume.id}>
+                    {resume.file_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAnalyzing(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!resumeId}
+              onClick={() => analyzing && navigate(`/analyze/${resumeId}?job=${analyzing.id}`)}
+            >
+              <Sparkles className="w-4 h-4 mr-2" />
+              Continue
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+};
+
+export default Jobs;
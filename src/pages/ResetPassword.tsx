@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { KeyRound, Loader2 } from "lucide-react";
+import { z } from "zod";
+import { authRedirectError, passwordSchema } from "@/lib/credentials";
+import { useSession } from "@/hooks/use-session";
+
+/**
+ * Landing page for password reset emails. The Supabase client turns the link
+ * into a recovery session on load; with that session the user sets a new
+ * password and carries on signed in.
+ */
+const ResetPassword = () => {
+  const navigate = useNavigate();
+  const { session, loading } = useSession();
+  const [linkError] = useState(() => authRedirectError(window.location));
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // The session provider has read the recovery link from the URL by the time loading ends
+  const status = linkError ? "invalid" : loading ? "checking" : session ? "ready" : "invalid";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      passwordSchema.parse(password);
+      if (password !== confirmPassword) throw new Error("Passwords do not match");
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else if (error instanceof Error) {
+        toast.error(error.message);
+      }
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+
+      toast.success("Password updated");
+      navigate("/dashboard", { replace: true });
+    } catch (error) {
+      console.error("Password update error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update password");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-primary/5 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-4 text-center">
+          <div className="mx-auto w-16 h-16 rounded-xl bg-gradient-to-br from-primary to-accent flex items-center justify-center">
+            <KeyRound className="w-8 h-8 text-primary-foreground" />
+          </div>
+          <CardTitle className="text-3xl">Choose a new password</CardTitle>
+          {status === "ready" && <CardDescription>Enter a new password for your account</CardDescription>}
+        </CardHeader>
+        <CardContent>
+          {status === "checking" && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          )}
+
+          {status === "invalid" && (
+            <div className="space-y-4 text-center">
+              <p className="text-sm text-muted-foreground">
+                {linkError ? `${linkError}.` : "This reset link is invalid or has expired."} Request a new one from
+                the sign-in page.
+              </p>
+              <Button asChild className="w-full">
+                <Link to="/auth">Back to sign in</Link>
+              </Button>
+            </div>
+          )}
+
+          {status === "ready" && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder="••••••••"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  disabled={saving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm new password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder="••••••••"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  disabled={saving}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={saving}>
+                {saving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Set new password"
+                )}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
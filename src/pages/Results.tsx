@@ -0,0 +1,507 @@
+import { useEffect, useMemo, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
+import ExportResumeDialog from "@/components/ExportResumeDialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, ArrowLeft, CheckCircle2, GitBranch, Loader2, Plus, RefreshCw, Sparkles, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import type { Json } from "@/integrations/supabase/types";
+import { toParsedResume, type ParsedResume } from "@/lib/parsedResume";
+import {
+  applySuggestions,
+  applySuggestionsToLaterVersion,
+  bulletKey,
+  buildSuggestions,
+  countAccepted,
+  type AcceptedSuggestions,
+} from "@/lib/applySuggestions";
+import { saveResumeVersion } from "@/lib/resumeVersions";
+import { isAtsScore } from "@/lib/atsScore";
+import { useSession } from "@/hooks/use-session";
+
+interface Analysis {
+  id: string;
+  resume_id: string;
+  resume_version_id: string | null;
+  job_title: string;
+  job_description: string;
+  match_score: number | null;
+  ats_score: number | null;
+  ats_breakdown: Json | null;
+  matched_skills: string[] | null;
+  missing_skills: string[] | null;
+  recommendations: string | null;
+  improved_summary: string | null;
+  improved_bullets: Json | null;
+  suggested_skills: string[] | null;
+  created_at: string | null;
+}
+
+const scoreColor = (score: number) =>
+  score >= 80 ? "text-success" : score >= 60 ? "text-warning" : "text-destructive";
+
+const noneAccepted = (): AcceptedSuggestions => ({ summary: false, bullets: new Set(), skills: new Set() });
+
+const toggle = (set: Set<string>, key: string, on: boolean) => {
+  const next = new Set(set);
+  if (on) next.add(key);
+  else next.delete(key);
+  return next;
+};
+
+const Results = () => {
+  const { analysisId } = useParams();
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const [resume, setResume] = useState<ParsedResume | null>(null);
+  // The version that was analysed; null when it was deleted or predates versioning
+  const [analyzedResume, setAnalyzedResume] = useState<ParsedResume | null>(null);
+  const [outdated, setOutdated] = useState(false);
+  const [accepted, setAccepted] = useState<AcceptedSuggestions>(noneAccepted);
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    fetchAnalysis();
+  }, [analysisId]);
+
+  // Suggestions pair with the bullets that were analysed, not the current ones
+  const baseResume = analyzedResume ?? resume;
+
+  const suggestions = useMemo(
+    () =>
+      analysis
+        ? buildSuggestions(baseResume ?? toParsedResume(null), {
+            improvedSummary: analysis.improved_summary,
+            improvedBullets: analysis.improved_bullets,
+            suggestedSkills: analysis.suggested_skills,
+          })
+        : null,
+    [analysis, baseResume],
+  );
+
+  // The current resume with the accepted suggestions, for export
+  const tailored = useMemo(() => {
+    if (!resume || !suggestions) return null;
+    return outdated
+      ? applySuggestionsToLaterVersion(analyzedResume ?? resume, resume, suggestions, accepted)
+      : { resume: applySuggestions(resume, suggestions, accepted), skipped: 0 };
+  }, [resume, analyzedResume, outdated, suggestions, accepted]);
+  const tailoredResume = tailored?.resume ?? null;
+
+  const fetchAnalysis = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("analyses")
+        .select("*")
+        .eq("id", analysisId)
+        .single();
+
+      if (error) throw error;
+      setAnalysis(data);
+
+      let versionId: string | null = null;
+      if (data.resume_version_id) {
+        const { data: versionData } = await supabase
+          .from("resume_versions")
+          .select("id, parsed_data")
+          .eq("id", data.resume_version_id)
+          .maybeSingle();
+
+        if (versionData) {
+          versionId = versionData.id;
+          setAnalyzedResume(toParsedResume(versionData.parsed_data));
+        }
+      }
+
+      // Without the resume the suggestions can still be read, just not applied
+      const { data: resumeData } = await supabase
+        .from("resumes")
+        .select("parsed_data, current_version_id")
+        .eq("id", data.resume_id)
+        .single();
+
+      if (resumeData) {
+        setResume(toParsedResume(resumeData.parsed_data));
+        // Without the analysed version we cannot tell what changed, so treat it as outdated too
+        setOutdated(!versionId || versionId !== resumeData.current_version_id);
+      }
+    } catch (error) {
+      console.error("Error fetching analysis:", error);
+      toast.error("Failed to load analysis");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const acceptAll = () => {
+    if (!suggestions) return;
+    setAccepted({
+      summary: !!suggestions.summary,
+      bullets: new Set(
+        suggestions.experiences.flatMap((item, i) =>
+          item.experienceIndex === -1 ? [] : item.bullets.map((_, b) => bulletKey(i, b)),
+        ),
+      ),
+      skills: new Set(suggestions.skills),
+    });
+  };
+
+  const createTailoredVersion = async () => {
+    if (!analysis || !tailoredResume) return;
+    setApplying(true);
+    try {
+      await saveResumeVersion(
+        user.id,
+        analysis.resume_id,
+        tailoredResume,
+        "ai_tailored",
+        `Tailored for ${analysis.job_title}`,
+      );
+      toast.success("Tailored version created");
+      navigate(`/resumes/${analysis.resume_id}`);
+    } catch (error) {
+      console.error("Error creating tailored version:", error);
+      toast.error("Failed to create tailored version");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center py-24">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!analysis || !suggestions) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-24 space-y-4">
+          <p className="text-muted-foreground">This analysis could not be found.</p>
+          <Button onClick={() => navigate("/dashboard")}>Back to Dashboard</Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const matchScore = analysis.match_score ?? 0;
+  const atsScore = analysis.ats_score ?? 0;
+  // Analyses from before local scoring have no breakdown
+  const atsBreakdown = isAtsScore(analysis.ats_breakdown) ? analysis.ats_breakdown : null;
+  const acceptedCount = countAccepted(accepted);
+  const canApply = !!resume;
+  const hasSuggestions =
+    !!suggestions.summary || suggestions.experiences.length > 0 || suggestions.skills.length > 0;
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-5xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <Button variant="ghost" size="sm" className="mb-2 -ml-3" onClick={() => navigate("/dashboard")}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Dashboard
+            </Button>
+            <h1 className="text-4xl font-bold">{analysis.job_title}</h1>
+            {analysis.created_at && (
+              <p className="text-muted-foreground mt-2">
+                Analyzed {formatDistanceToNow(new Date(analysis.created_at), { addSuffix: true })}
+              </p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {tailoredResume && (
+              <ExportResumeDialog
+                resume={tailoredResume}
+                label={acceptedCount > 0 ? "Export Tailored" : "Export"}
+              />
+            )}
+            <Button variant="outline" onClick={() => navigate(`/analyze/${analysis.resume_id}`)} className="gap-2">
+              <RefreshCw className="w-4 h-4" />
+              New Analysis
+            </Button>
+          </div>
+        </div>
+
+        {/* Scores */}
+        <div className="grid md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Match Score</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className={`text-4xl font-bold ${scoreColor(matchScore)}`}>{matchScore}%</div>
+              <Progress value={matchScore} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">ATS Score</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className={`text-4xl font-bold ${scoreColor(atsScore)}`}>{atsScore}%</div>
+              <Progress value={atsScore} />
+              {atsBreakdown && (
+                <ul className="space-y-2 pt-2">
+                  {atsBreakdown.components.map((component) => (
+                    <li key={component.id} className="text-sm">
+                      <div className="flex justify-between gap-2">
+                        <span className="font-medium">
+                          {component.label}
+                          <span className="text-muted-foreground font-normal"> ({component.weight}%)</span>
+                        </span>
+                        <span className={component.score === null ? "text-muted-foreground" : scoreColor(component.score)}>
+                          {component.score === null ? "n/a" : `${component.score}%`}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">{component.detail}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Skills */}
+        <div className="grid md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CheckCircle2 className="w-5 h-5 text-success" />
+                Matched Skills
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {analysis.matched_skills?.length ? (
+                <div className="flex flex-wrap gap-2">
+                  {analysis.matched_skills.map((skill) => (
+                    <Badge key={skill} className="bg-success text-success-foreground">
+                      {skill}
+                    </Badge>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No matched skills found.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <XCircle className="w-5 h-5 text-destructive" />
+                Missing Skills
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {analysis.missing_skills?.length ? (
+                <div className="flex flex-wrap gap-2">
+                  {analysis.missing_skills.map((skill) => (
+                    <Badge key={skill} variant="outline">
+                      {skill}
+                    </Badge>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No missing skills. Great fit!</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Recommendations */}
+        {analysis.recommendations && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Recommendations</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm leading-relaxed whitespace-pre-line">{analysis.recommendations}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {hasSuggestions && (
+          <div className="flex flex-wrap justify-between items-center gap-4">
+            <div>
+              <h2 className="text-2xl font-semibold">Suggested Changes</h2>
+              <p className="text-sm text-muted-foreground">
+                {canApply
+                  ? "Accept the suggestions you want, then save them as a new tailored version of your resume"
+                  : "The original resume is no longer available, so these suggestions cannot be applied"}
+              </p>
+            </div>
+            {canApply && (
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setAccepted(noneAccepted())}>
+                  Reject all
+                </Button>
+                <Button variant="outline" size="sm" onClick={acceptAll}>
+                  Accept all
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {hasSuggestions && canApply && outdated && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Your resume has changed since this analysis</AlertTitle>
+            <AlertDescription>
+              Accepted rewrites replace the bullet they were written for wherever it now is in your resume. Rewrites
+              for bullets you have since edited or removed are skipped.
+              {tailored && tailored.skipped > 0 &&
+                ` ${tailored.skipped} accepted ${tailored.skipped === 1 ? "rewrite" : "rewrites"} will be skipped.`}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Improved Summary */}
+        {suggestions.summary && (
+          <Card className="bg-primary/5 border-primary/20">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Sparkles className="w-5 h-5 text-primary" />
+                Improved Summary
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {baseResume?.summary && (
+                <p className="text-sm leading-relaxed whitespace-pre-line text-muted-foreground">{baseResume.summary}</p>
+              )}
+              <label className="flex items-start gap-3">
+                <Checkbox
+                  className="mt-0.5"
+                  disabled={!canApply}
+                  checked={accepted.summary}
+                  onCheckedChange={(checked) => setAccepted({ ...accepted, summary: checked === true })}
+                />
+                <span className="text-sm leading-relaxed whitespace-pre-line">{suggestions.summary}</span>
+              </label>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Improved Bullets */}
+        {suggestions.experiences.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Improved Experience</CardTitle>
+              <CardDescription>
+                Your original bullets next to AI rewrites tailored for this role. Each accepted rewrite replaces the
+                bullet beside it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {suggestions.experiences.map((item, index) => {
+                const original = baseResume?.experience[item.experienceIndex];
+                return (
+                  <div key={index} className="p-4 rounded-lg border border-border space-y-3">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">
+                        {original
+                          ? [original.title, original.company].filter(Boolean).join(" at ")
+                          : item.originalExperience}
+                      </p>
+                      {original?.duration && <span className="text-sm text-muted-foreground">{original.duration}</span>}
+                      {!original && <Badge variant="outline">Not matched to your resume</Badge>}
+                    </div>
+                    <div className="grid md:grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                      <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Original</p>
+                      <p className="hidden md:block text-xs font-semibold uppercase tracking-wide text-primary">
+                        Improved
+                      </p>
+                      {item.bullets.map((bullet, b) => (
+                        <div key={b} className="contents">
+                          <p className="text-muted-foreground">
+                            {original?.bullets[b] ?? <span className="italic">New bullet</span>}
+                          </p>
+                          <label className="flex items-start gap-3">
+                            <Checkbox
+                              className="mt-0.5"
+                              disabled={!canApply || !original}
+                              checked={accepted.bullets.has(bulletKey(index, b))}
+                              onCheckedChange={(checked) =>
+                                setAccepted({
+                                  ...accepted,
+                                  bullets: toggle(accepted.bullets, bulletKey(index, b), checked === true),
+                                })
+                              }
+                            />
+                            <span>{bullet}</span>
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Suggested Skills */}
+        {suggestions.skills.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Plus className="w-5 h-5 text-primary" />
+                Suggested Skills
+              </CardTitle>
+              <CardDescription>Only add skills you can back up in an interview</CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-4">
+              {suggestions.skills.map((skill) => (
+                <label key={skill} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    disabled={!canApply}
+                    checked={accepted.skills.has(skill)}
+                    onCheckedChange={(checked) =>
+                      setAccepted({ ...accepted, skills: toggle(accepted.skills, skill, checked === true) })
+                    }
+                  />
+                  {skill}
+                </label>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {canApply && hasSuggestions && (
+          <Card className="sticky bottom-4 shadow-lg">
+            <CardContent className="flex items-center justify-between gap-4 py-4">
+              <p className="text-sm text-muted-foreground">
+                {acceptedCount === 0
+                  ? "No suggestions accepted yet"
+                  : `${acceptedCount} suggestion${acceptedCount === 1 ? "" : "s"} accepted`}
+              </p>
+              <Button onClick={createTailoredVersion} disabled={acceptedCount === 0 || applying} className="gap-2">
+                {applying ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitBranch className="w-4 h-4" />}
+                Create Tailored Version
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Results;
@@ -0,0 +1,275 @@
+import { useEffect, useMemo, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import DashboardLayout from "@/components/DashboardLayout";
+import ResumeDiffView from "@/components/ResumeDiffView";
+import ExportResumeDialog from "@/components/ExportResumeDialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Eye, History, Loader2, Pencil, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { toParsedResume } from "@/lib/parsedResume";
+import { diffResumes } from "@/lib/resumeDiff";
+import {
+  saveResumeVersion,
+  VERSION_SOURCE_LABELS,
+  type ResumeVersion,
+  type ResumeVersionSource,
+} from "@/lib/resumeVersions";
+import { useSession } from "@/hooks/use-session";
+
+const ResumeDetail = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const [resume, setResume] = useState<Tables<"resumes"> | null>(null);
+  const [versions, setVersions] = useState<ResumeVersion[]>([]);
+  const [baseId, setBaseId] = useState<string>("");
+  const [targetId, setTargetId] = useState<string>("");
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchResume();
+  }, [id]);
+
+  const fetchResume = async () => {
+    try {
+      const { data: resumeData, error: resumeError } = await supabase
+        .from("resumes")
+        .select("*")
+        .eq("id", id)
+        .single();
+
+      if (resumeError) throw resumeError;
+
+      const { data: versionsData, error: versionsError } = await supabase
+        .from("resume_versions")
+        .select("*")
+        .eq("resume_id", id)
+        .order("version_number", { ascending: false });
+
+      if (versionsError) throw versionsError;
+
+      setResume(resumeData);
+      setVersions(versionsData || []);
+
+      // Default comparison: previous version against the newest one
+      setTargetId(versionsData?.[0]?.id ?? "");
+      setBaseId(versionsData?.[1]?.id ?? versionsData?.[0]?.id ?? "");
+    } catch (error) {
+      console.error("Error fetching resume:", error);
+      toast.error("Failed to load resume");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restoreVersion = async (version: ResumeVersion) => {
+    setRestoringId(version.id);
+    try {
+      await saveResumeVersion(
+        user.id,
+        version.resume_id,
+        toParsedResume(version.parsed_data),
+        "restore",
+        `Restored from version ${version.version_number}`,
+      );
+      toast.success(`Restored version ${version.version_number}`);
+      await fetchResume();
+    } catch (error) {
+      console.error("Error restoring version:", error);
+      toast.error("Failed to restore version");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const parsed = useMemo(() => toParsedResume(resume?.parsed_data), [resume]);
+
+  const diff = useMemo(() => {
+    const base = versions.find((v) => v.id === baseId);
+    const target = versions.find((v) => v.id === targetId);
+    if (!base || !target) return null;
+    return diffResumes(toParsedResume(base.parsed_data), toParsedResume(target.parsed_data));
+  }, [versions, baseId, targetId]);
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center py-24">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!resume) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-24 space-y-4">
+          <p className="text-muted-foreground">This resume could not be found.</p>
+          <Button onClick={() => navigate("/dashboard")}>Back to Dashboard</Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const versionLabel = (version: ResumeVersion) =>
+    `v${version.version_number} · ${VERSION_SOURCE_LABELS[version.source as ResumeVersionSource] ?? version.source}`;
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-5xl mx-auto space-y-8">
+        {/* Header */}
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <Button variant="ghost" size="sm" className="mb-2 -ml-3" onClick={() => navigate("/dashboard")}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Dashboard
+            </Button>
+            <h1 className="text-4xl font-bold">{parsed.name || resume.file_name}</h1>
+            <p className="text-muted-foreground mt-2">{resume.file_name}</p>
+          </div>
+          <div className="flex gap-2">
+            <ExportResumeDialog resume={parsed} />
+            <Button variant="outline" className="gap-2" onClick={() => navigate(`/resumes/${resume.id}/edit`)}>
+              <Pencil className="w-4 h-4" />
+              Edit
+            </Button>
+            <Button className="gap-2" onClick={() => navigate(`/analyze/${resume.id}`)}>
+              <Eye className="w-4 h-4" />
+              Analyze
+            </Button>
+          </div>
+        </div>
+
+        {/* Current content */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Current Version</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {parsed.summary && <p className="text-sm leading-relaxed">{parsed.summary}</p>}
+            <div className="flex flex-wrap gap-2">
+              {parsed.skills.map((skill) => (
+                <Badge key={skill} variant="secondary">
+                  {skill}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {parsed.experience.length} positions · {parsed.education.length} education entries ·{" "}
+              {parsed.projects.length} projects
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Version timeline */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Version History
+            </CardTitle>
+            <CardDescription>Every edit and AI rewrite is kept. Restoring creates a new version.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {versions.length === 0 ? (
+              <p className="text-center py-8 text-muted-foreground">No versions recorded yet.</p>
+            ) : (
+              <ol className="relative border-l border-border ml-2 space-y-6">
+                {versions.map((version) => {
+                  const isCurrent = version.id === resume.current_version_id;
+                  return (
+                    <li key={version.id} className="ml-6">
+                      <span
+                        className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-background ${
+                          isCurrent ? "bg-primary" : "bg-muted-foreground"
+                        }`}
+                      />
+                      <div className="flex items-center justify-between gap-4">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium">{versionLabel(version)}</p>
+                            {isCurrent && <Badge>Current</Badge>}
+                          </div>
+                          {version.label && <p className="text-sm">{version.label}</p>}
+                          {version.created_at && (
+                            <p className="text-sm text-muted-foreground">
+                              {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                            </p>
+                          )}
+                        </div>
+                        {!isCurrent && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={restoringId !== null}
+                            onClick={() => restoreVersion(version)}
+                          >
+                            {restoringId === version.id ? (
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            ) : (
+                              <RotateCcw className="w-4 h-4 mr-2" />
+                            )}
+                            Restore
+                          </Button>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Diff */}
+        {versions.length > 1 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Compare Versions</CardTitle>
+              <CardDescription>See exactly what changed between any two versions</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid md:grid-cols-2 gap-4">
+                <Select value={baseId} onValueChange={setBaseId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="From version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={version.id}>
+                        {versionLabel(version)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={targetId} onValueChange={setTargetId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="To version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={version.id}>
+                        {versionLabel(version)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {diff && <ResumeDiffView diff={diff} />}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default ResumeDetail;
@@ -0,0 +1,342 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import type { DateRange } from "react-day-picker";
+import { supabase } from "@/integrations/supabase/client";
+import DashboardLayout from "@/components/DashboardLayout";
+import DateRangeFilter from "@/components/DateRangeFilter";
+import ListPagination from "@/components/ListPagination";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Eye, FileText, Loader2, Pencil, Plus, Search, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { useSession } from "@/hooks/use-session";
+import { deleteResumes } from "@/lib/resumes";
+import {
+  PAGE_SIZE,
+  RESUME_SORTS,
+  containsPattern,
+  dateRangeBounds,
+  pageCount,
+  pageRange,
+  type ResumeSort,
+} from "@/lib/listQuery";
+
+interface ResumeRow {
+  id: string;
+  file_name: string;
+  created_at: string;
+  updated_at: string | null;
+  analyses: { count: number }[];
+}
+
+const Resumes = () => {
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const [resumes, setResumes] = useState<ResumeRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState("");
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [sort, setSort] = useState<ResumeSort>("newest");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const debouncedSearch = useDebouncedValue(search);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    fetchResumes();
+  }, [page, debouncedSearch, dateRange, sort]);
+
+  const fetchResumes = async () => {
+    // Filters can change while a page is loading; only the latest response is shown
+    const request = ++latestRequest.current;
+    setLoading(true);
+    try {
+      if (!user) return;
+
+      const { from, to } = pageRange(page);
+      const { column, ascending } = RESUME_SORTS[sort];
+      const pattern = containsPattern(debouncedSearch);
+      const { gte, lt } = dateRangeBounds(dateRange);
+
+      let query = supabase
+        .from("resumes")
+        .select("id, file_name, created_at, updated_at, analyses(count)", { count: "exact" })
+        .eq("user_id", user.id);
+
+      if (pattern) query = query.ilike("file_name", pattern);
+      if (gte) query = query.gte("created_at", gte);
+      if (lt) query = query.lt("created_at", lt);
+
+      const { data, count, error } = await query
+        .order(column, { ascending, nullsFirst: false })
+        .order("id")
+        .range(from, to);
+
+      if (error) throw error;
+      if (request !== latestRequest.current) return;
+
+      setResumes((data as ResumeRow[]) || []);
+      setTotal(count ?? 0);
+      setSelected(new Set());
+    } catch (error) {
+      console.error("Error fetching resumes:", error);
+      toast.error("Failed to load resumes");
+    } finally {
+      if (request === latestRequest.current) setLoading(false);
+    }
+  };
+
+  // Any change to the filters starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const deleteSelected = async () => {
+    const ids = [...selected];
+    setDeleting(true);
+    try {
+      await deleteResumes(ids);
+
+      toast.success(`Deleted ${ids.length} resume${ids.length === 1 ? "" : "s"}`);
+      setConfirmOpen(false);
+
+      // Step back if the current page was emptied
+      const lastPage = pageCount(total - ids.length);
+      if (page > lastPage) {
+        setPage(lastPage);
+      } else {
+        fetchResumes();
+      }
+    } catch (error) {
+      console.error("Error deleting resumes:", error);
+      toast.error("Failed to delete resumes");
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = resumes.length > 0 && resumes.every((resume) => selected.has(resume.id));
+  const filtered = Boolean(debouncedSearch.trim() || dateRange?.from);
+  const firstShown = total === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-4xl font-bold">Resumes</h1>
+            <p className="text-muted-foreground mt-2">
+              Every resume you have uploaded.
+            </p>
+          </div>
+          <Button onClick={() => navigate("/upload")} size="lg" className="gap-2">
+            <Plus className="w-5 h-5" />
+            Upload Resume
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Resume Library</CardTitle>
+            <CardDescription>
+              {total === 0
+                ? "No resumes to show"
+                : `Showing ${firstShown}-${firstShown + resumes.length - 1} of ${total}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {/* Filters */}
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="resume-search">Search</Label>
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="resume-search"
+                    placeholder="File name"
+                    className="pl-9"
+                    value={search}
+                    onChange={(e) => updateFilter(setSearch)(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Uploaded</Label>
+                <DateRangeFilter value={dateRange} onChange={updateFilter(setDateRange)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Sort By</Label>
+                <Select value={sort} onValueChange={(value) => updateFilter(setSort)(value as ResumeSort)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(RESUME_SORTS).map(([key, option]) => (
+                      <SelectItem key={key} value={key}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Bulk actions */}
+            {resumes.length > 0 && (
+              <div className="flex items-center justify-between gap-4">
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) =>
+                      setSelected(checked ? new Set(resumes.map((resume) => resume.id)) : new Set())
+                    }
+                  />
+                  Select all on this page
+                </label>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  disabled={selected.size === 0}
+                  onClick={() => setConfirmOpen(true)}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete{selected.size > 0 ? ` (${selected.size})` : ""}
+                </Button>
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : resumes.length === 0 ? (
+              filtered ? (
+                <p className="text-center py-8 text-muted-foreground">No resumes match these filters</p>
+              ) : (
+                <div className="text-center py-12">
+                  <Upload className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground mb-4">No resumes uploaded yet</p>
+                  <Button onClick={() => navigate("/upload")}>Upload Your First Resume</Button>
+                </div>
+              )
+            ) : (
+              <div className="space-y-4">
+                {resumes.map((resume) => (
+                  <div
+                    key={resume.id}
+                    className="flex items-center justify-between gap-4 p-4 rounded-lg border border-border hover:bg-muted/50 transition-colors"
+                  >
+                    <div className="flex items-center gap-4 flex-1 min-w-0">
+                      <Checkbox
+                        checked={selected.has(resume.id)}
+                        onCheckedChange={() => toggleSelected(resume.id)}
+                        aria-label={`Select ${resume.file_name}`}
+                      />
+                      <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+                        <FileText className="w-5 h-5 text-primary" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <button
+                          type="button"
+                          className="font-medium hover:underline text-left truncate max-w-full"
+                          onClick={() => navigate(`/resumes/${resume.id}`)}
+                        >
+                          {resume.file_name}
+                        </button>
+                        <p className="text-sm text-muted-foreground">
+                          Uploaded {formatDistanceToNow(new Date(resume.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                    </div>
+                    <Badge variant="secondary" className="hidden sm:inline-flex">
+                      {resume.analyses[0]?.count ?? 0} analyses
+                    </Badge>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => navigate(`/analyze/${resume.id}`)}>
+                        <Eye className="w-4 h-4 mr-2" />
+                        Analyze
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        aria-label="Edit resume"
+                        onClick={() => navigate(`/resumes/${resume.id}/edit`)}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <ListPagination page={page} totalPages={pageCount(total)} onPageChange={setPage} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={confirmOpen} onOpenChange={(open) => !deleting && setConfirmOpen(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {selected.size} resume{selected.size === 1 ? "" : "s"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Their uploaded files, versions and analyses are deleted too. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={deleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={(e) => {
+                e.preventDefault();
+                deleteSelected();
+              }}
+            >
+              {deleting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+};
+
+export default Resumes;
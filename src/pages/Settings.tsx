@@ -0,0 +1,372 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import DashboardLayout from "@/components/DashboardLayout";
+import StrictRedactionSwitch from "@/components/StrictRedactionSwitch";
+import ProfileDefaultsForm from "@/components/ProfileDefaultsForm";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Download, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import {
+  buildAccountExport,
+  deleteAccount,
+  downloadAccountFiles,
+  exportArchiveName,
+  fetchAccountData,
+} from "@/lib/accountData";
+import { emailSchema, passwordSchema } from "@/lib/credentials";
+import { fetchProfile, updateProfile, type Profile } from "@/lib/profile";
+import { downloadBlob } from "@/lib/utils";
+import { useSession } from "@/hooks/use-session";
+
+const validationMessage = (error: unknown) =>
+  error instanceof z.ZodError ? error.errors[0].message : error instanceof Error ? error.message : "Invalid value";
+
+const Settings = () => {
+  const navigate = useNavigate();
+  const { user } = useSession();
+  const email = user?.email ?? "";
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [fullName, setFullName] = useState("");
+  const [savingName, setSavingName] = useState(false);
+  const [newEmail, setNewEmail] = useState("");
+  const [changingEmail, setChangingEmail] = useState(false);
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [confirmation, setConfirmation] = useState("");
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    loadProfile();
+  }, []);
+
+  const loadProfile = async () => {
+    try {
+      const data = await fetchProfile(user.id);
+      setProfile(data);
+      setFullName(data?.full_name ?? "");
+    } catch (error) {
+      console.error("Error fetching profile:", error);
+      toast.error("Failed to load your profile");
+    }
+  };
+
+  const saveName = async () => {
+    setSavingName(true);
+    try {
+      setProfile(await updateProfile(user.id, { full_name: fullName.trim() }));
+      toast.success("Profile updated");
+    } catch (error) {
+      console.error("Error updating profile:", error);
+      toast.error("Failed to update profile");
+    } finally {
+      setSavingName(false);
+    }
+  };
+
+  // Supabase emails a confirmation link; profiles.email follows once it is confirmed
+  const changeEmail = async () => {
+    let address: string;
+    try {
+      address = emailSchema.parse(newEmail);
+    } catch (error) {
+      toast.error(validationMessage(error));
+      return;
+    }
+    if (address.toLowerCase() === email.toLowerCase()) {
+      toast.error("That is already your email address");
+      return;
+    }
+
+    setChangingEmail(true);
+    try {
+      const { error } = await supabase.auth.updateUser(
+        { email: address },
+        { emailRedirectTo: `${window.location.origin}/settings` },
+      );
+      if (error) throw error;
+      setNewEmail("");
+      toast.success(`Check ${address} for a link to confirm the change`);
+    } catch (error) {
+      console.error("Error changing email:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to change email");
+    } finally {
+      setChangingEmail(false);
+    }
+  };
+
+  const changePassword = async () => {
+    try {
+      passwordSchema.parse(newPassword);
+      if (newPassword !== confirmPassword) throw new Error("Passwords do not match");
+    } catch (error) {
+      toast.error(validationMessage(error));
+      return;
+    }
+
+    setChangingPassword(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password: newPassword });
+      if (error) throw error;
+      setNewPassword("");
+      setConfirmPassword("");
+      toast.success("Password changed");
+    } catch (error) {
+      console.error("Error changing password:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to change password");
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
+  const exportData = async () => {
+    setExportStatus("Collecting your data...");
+    try {
+      const data = await fetchAccountData(user.id);
+      const files = await downloadAccountFiles(data, (done, total) =>
+        setExportStatus(`Downloading files (${done}/${total})...`),
+      );
+
+      setExportStatus("Building archive...");
+      const archive = await buildAccountExport(data, files);
+      downloadBlob(new Blob([archive], { type: "application/zip" }), exportArchiveName(data.exportedAt));
+
+      const missing = [...data.resumes, ...data.candidates].filter((row) => row.file_path && !files.has(row.file_path));
+      if (missing.length > 0) {
+        toast.warning(`Export ready, but ${missing.length} file${missing.length === 1 ? "" : "s"} could not be included`);
+      } else {
+        toast.success("Your data export is ready");
+      }
+    } catch (error) {
+      console.error("Error exporting account data:", error);
+      toast.error("Failed to export your data");
+    } finally {
+      setExportStatus(null);
+    }
+  };
+
+  const confirmDelete = async () => {
+    setDeleting(true);
+    try {
+      await deleteAccount();
+      // Leave the protected pages before the session goes, as on sign-out
+      navigate("/");
+      await supabase.auth.signOut({ scope: "local" });
+      toast.success("Your account has been deleted");
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      toast.error("Failed to delete your account. Please try again.");
+      setDeleting(false);
+    }
+  };
+
+  // Typing the email guards against deleting the wrong account, or by accident
+  const confirmed = email !== "" && confirmation.trim().toLowerCase() === email.toLowerCase();
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-8 max-w-3xl">
+        {/* Header */}
+        <div>
+          <h1 className="text-4xl font-bold">Settings</h1>
+          <p className="text-muted-foreground mt-2">Your profile, defaults, privacy and account data</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Profile</CardTitle>
+            <CardDescription>How you appear in ResumeAI</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="full-name">Full name</Label>
+              <Input
+                id="full-name"
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                disabled={!profile}
+              />
+            </div>
+            <Button
+              onClick={saveName}
+              disabled={savingName || !profile || fullName.trim() === (profile.full_name ?? "")}
+            >
+              {savingName && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save profile
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sign-in details</CardTitle>
+            <CardDescription>
+              Signed in as <span className="font-medium text-foreground">{email}</span>
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="new-email">New email</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="new-email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={newEmail}
+                  onChange={(e) => setNewEmail(e.target.value)}
+                />
+                <Button variant="outline" onClick={changeEmail} disabled={changingEmail || !newEmail.trim()}>
+                  {changingEmail && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Change email
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm new password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                />
+              </div>
+            </div>
+            <Button variant="outline" onClick={changePassword} disabled={changingPassword || !newPassword}>
+              {changingPassword && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Change password
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Defaults</CardTitle>
+            <CardDescription>Used for every new analysis and export; you can still change them as you go</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ProfileDefaultsForm profile={profile} onSaved={setProfile} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Privacy</CardTitle>
+            <CardDescription>Control what the AI sees when parsing and analyzing resumes</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <StrictRedactionSwitch />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Download my data</CardTitle>
+            <CardDescription>
+              A zip archive of your profile, original resume files, parsed resumes and their versions, every
+              analysis, your saved jobs and candidate pools
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center gap-4">
+            <Button onClick={exportData} disabled={exportStatus !== null} className="gap-2">
+              {exportStatus ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              Download my data
+            </Button>
+            {exportStatus && <p className="text-sm text-muted-foreground">{exportStatus}</p>}
+          </CardContent>
+        </Card>
+
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle className="text-destructive">Delete my account</CardTitle>
+            <CardDescription>
+              Permanently deletes your account, uploaded files, resumes, analyses, jobs and candidate pools.
+              Download your data first if you want to keep a copy.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button
+              variant="destructive"
+              className="gap-2"
+              onClick={() => {
+                setConfirmation("");
+                setConfirmOpen(true);
+              }}
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete my account
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={confirmOpen} onOpenChange={(open) => !deleting && setConfirmOpen(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All of your files and data are deleted immediately. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="delete-confirmation">
+              Type <span className="font-semibold">{email}</span> to confirm
+            </Label>
+            <Input
+              id="delete-confirmation"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              autoComplete="off"
+              disabled={deleting}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!confirmed || deleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={(e) => {
+                e.preventDefault();
+                confirmDelete();
+              }}
+            >
+              {deleting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Delete account
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+};
+
+export default Settings;
@@ -1,79 +1,105 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { FunctionsHttpError } from "@supabase/supabase-js";
 import DashboardLayout from "@/components/DashboardLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Upload as UploadIcon, FileText, Loader2, X } from "lucide-react";
+import { Upload as UploadIcon, FileText, Loader2, X, AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
 import { Progress } from "@/components/ui/progress";
 import { sanitizeForJson } from "@/lib/sanitizeForJson";
+import { extractTextFromFile, isJsonFile, validateResumeFile } from "@/lib/extractText";
+import { saveResumeVersion, type ResumeVersionSource } from "@/lib/resumeVersions";
+import { fromJsonResume } from "@/lib/jsonResume";
+import { canonicalizeResumeSkills } from "@/lib/skillTaxonomy";
+import type { ParsedResume } from "@/lib/parsedResume";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import BulkCandidateUpload from "@/components/BulkCandidateUpload";
+import StrictRedactionSwitch from "@/components/StrictRedactionSwitch";
+import { useSession } from "@/hooks/use-session";
 
 const Upload = () => {
   const navigate = useNavigate();
+  const { user } = useSession();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const mode = searchParams.get("mode") === "candidates" ? "candidates" : "resume";
   const [file, setFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
   const [parsing, setParsing] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [extractionWarnings, setExtractionWarnings] = useState<string[]>([]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (!selectedFile) return;
 
-    // Validate file type
-    const validTypes = ["application/pdf", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"];
-    if (!validTypes.includes(selectedFile.type)) {
-      toast.error("Please upload a PDF or DOCX file");
-      return;
-    }
-
-    // Validate file size (10MB max)
-    if (selectedFile.size > 10 * 1024 * 1024) {
-      toast.error("File size must be less than 10MB");
+    const invalid = validateResumeFile(selectedFile);
+    if (invalid) {
+      toast.error(invalid);
       return;
     }
 
     setFile(selectedFile);
+    setExtractionWarnings([]);
   };
 
-  const extractTextFromFile = async (file: File): Promise<string> => {
-    // PRODUCTION: Binary-safe file handling with proper UTF-8 decoding
-    if (file.type === "application/pdf") {
-      // PDF extraction using pdf.js - read as binary ArrayBuffer
-      const arrayBuffer = await file.arrayBuffer();
-      const typedArray = new Uint8Array(arrayBuffer);
-      
-      // Lazy load pdf.js to reduce initial bundle size
-      const pdfjsLib = await import('pdfjs-dist');
-      
-      // Use local worker file served from same origin to avoid CDN/module issues
-      pdfjsLib.GlobalWorkerOptions.workerSrc = '/assets/pdf.worker.min.mjs';
-      
-      const pdfData = await pdfjsLib.getDocument({ data: typedArray }).promise;
-      let text = "";
-      
-      console.log(`Extracting text from ${pdfData.numPages} PDF pages...`);
-      for (let i = 1; i <= pdfData.numPages; i++) {
-        const page = await pdfData.getPage(i);
-        const content = await page.getTextContent();
-        const pageText = content.items
-          .map((item: any) => item.str)
-          .join(" ");
-        text += pageText + "\n";
-      }
-      
-      return text;
-    } else {
-      // DOCX/TXT: Read as UTF-8 text
-      // FileReader.readAsText() automatically decodes as UTF-8
-      return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = reject;
-        reader.readAsText(file, 'UTF-8'); // Explicit UTF-8 encoding
-      });
-    }
+  const uploadOriginal = async (userId: string, file: File) => {
+    const filePath = `${userId}/${Date.now()}_${file.name}`;
+    const { error: uploadError } = await supabase.storage
+      .from("resumes")
+      .upload(filePath, file);
+
+    if (uploadError) throw uploadError;
+    return filePath;
+  };
+
+  const saveResume = async (
+    userId: string,
+    file: File,
+    filePath: string,
+    extractedText: string,
+    parsedData: ParsedResume,
+    source: ResumeVersionSource,
+  ) => {
+    const { data: resumeData, error: dbError } = await supabase
+      .from("resumes")
+      .insert({
+        user_id: userId,
+        file_name: file.name,
+        file_path: filePath,
+        file_type: isJsonFile(file) ? "application/json" : file.type,
+        extracted_text: extractedText,
+        parsed_data: parsedData,
+      })
+      .select()
+      .single();
+
+    if (dbError) throw dbError;
+
+    // Record the parsed data as version 1
+    await saveResumeVersion(userId, resumeData.id, parsedData, source);
+    return resumeData;
+  };
+
+  // JSON Resume is already structured, so it maps straight into parsed_data without the AI parser
+  const importJsonResume = async (userId: string, file: File) => {
+    const text = await file.text();
+    const result = fromJsonResume(text);
+    if (!result.success) throw new Error(result.error.message);
+
+    setProgress(50);
+    const filePath = await uploadOriginal(userId, file);
+
+    setProgress(80);
+    const resumeData = await saveResume(userId, file, filePath, text, canonicalizeResumeSkills(result.data), "import");
+
+    setProgress(100);
+    toast.success("JSON Resume imported successfully!");
+    setTimeout(() => {
+      navigate(`/analyze/${resumeData.id}`);
+    }, 500);
   };
 
   const handleUpload = async () => {
@@ -83,27 +109,31 @@ const Upload = () => {
     setProgress(10);
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("User not authenticated");
 
       setProgress(20);
 
-      // Upload file to storage
-      const filePath = `${user.id}/${Date.now()}_${file.name}`;
-      const { error: uploadError } = await supabase.storage
-        .from("resumes")
-        .upload(filePath, file);
-
-      if (uploadError) throw uploadError;
-
-      setProgress(40);
+      if (isJsonFile(file)) {
+        await importJsonResume(user.id, file);
+        return;
+      }
 
       // SECURITY: Extract text as binary/UTF-8, then sanitize immediately
       // This handles malformed \u sequences, backslashes, and control characters from PDF/DOCX
+      // Extraction runs before the storage upload so unreadable files are rejected early
       console.log('Extracting text from file...');
-      const extractedText = await extractTextFromFile(file);
+      const { text: extractedText, warnings } = await extractTextFromFile(file);
+      setExtractionWarnings(warnings);
+      if (!extractedText.trim()) {
+        throw new Error("No selectable text found in this file. If it is a scanned PDF, please upload a text-based PDF or DOCX instead.");
+      }
+      if (warnings.length > 0) {
+        toast.warning("Some pages could not be read reliably. Parsed results may be incomplete.");
+      }
       console.log(`Extracted ${extractedText.length} characters, sanitizing...`);
-      
+
+      setProgress(40);
+
       // Sanitize to prevent Unicode escape sequence errors
       const sanitizedText = sanitizeForJson(extractedText);
       console.log('Text sanitized, invoking AI parser...');
@@ -140,6 +170,10 @@ const Upload = () => {
           throw new Error('AI rate limit exceeded. Please wait 60 seconds and try again.');
         }
 
+        if (status === 422 || errorBody?.code === 'INVALID_PARSED_RESUME') {
+          throw new Error('We could not read the structure of this resume. Please try again or upload a different file.');
+        }
+
         if (
           status === 402 ||
           normalizedBodyMessage.includes('credits') ||
@@ -155,21 +189,11 @@ const Upload = () => {
 
       setProgress(80);
 
+      // Upload file to storage only once parsing succeeded, so failed parses leave no file behind
+      const filePath = await uploadOriginal(user.id, file);
+
       // Save to database
-      const { data: resumeData, error: dbError } = await supabase
-        .from("resumes")
-        .insert({
-          user_id: user.id,
-          file_name: file.name,
-          file_path: filePath,
-          file_type: file.type,
-          extracted_text: extractedText,
-          parsed_data: parseData.parsedData,
-        })
-        .select()
-        .single();
-
-      if (dbError) throw dbError;
+      const resumeData = await saveResume(user.id, file, filePath, extractedText, parseData.parsedData, "upload");
 
       setProgress(100);
       toast.success("Resume uploaded and parsed successfully!");
@@ -222,131 +246,168 @@ const Upload = () => {
           </p>
         </div>
 
-        {/* Upload Card */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Select Your Resume</CardTitle>
-            <CardDescription>
-              Supported formats: PDF, DOCX (Maximum size: 10MB)
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-6">
-            {!file ? (
-              <label
-                htmlFor="file-upload"
-                className="flex flex-col items-center justify-center w-full h-64 border-2 border-dashed border-border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors"
-              >
-                <div className="flex flex-col items-center justify-center p-6 text-center">
-                  <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center mb-4">
-                    <UploadIcon className="w-8 h-8 text-primary" />
-                  </div>
-                  <p className="text-lg font-medium mb-2">
-                    Click to upload or drag and drop
-                  </p>
-                  <p className="text-sm text-muted-foreground">
-                    PDF or DOCX up to 10MB
-                  </p>
-                </div>
-                <input
-                  id="file-upload"
-                  type="file"
-                  className="hidden"
-                  accept=".pdf,.docx"
-                  onChange={handleFileChange}
-                  disabled={uploading}
-                />
-              </label>
-            ) : (
-              <div className="space-y-4">
-                <div className="flex items-center justify-between p-4 rounded-lg border border-border bg-muted/30">
-                  <div className="flex items-center gap-4">
-                    <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center">
-                      <FileText className="w-6 h-6 text-primary" />
-                    </div>
-                    <div>
-                      <p className="font-medium">{file.name}</p>
+        <Tabs value={mode} onValueChange={(value) => setSearchParams(value === "candidates" ? { mode: value } : {})}>
+          <TabsList>
+            <TabsTrigger value="resume" disabled={uploading}>My Resume</TabsTrigger>
+            <TabsTrigger value="candidates" disabled={uploading}>Candidates (Bulk)</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="candidates" className="mt-6">
+            <BulkCandidateUpload />
+          </TabsContent>
+
+          <TabsContent value="resume" className="mt-6 space-y-8">
+            {/* Upload Card */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Select Your Resume</CardTitle>
+                <CardDescription>
+                  Supported formats: PDF, DOCX, JSON Resume (Maximum size: 10MB)
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {!file ? (
+                  <label
+                    htmlFor="file-upload"
+                    className="flex flex-col items-center justify-center w-full h-64 border-2 border-dashed border-border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors"
+                  >
+                    <div className="flex flex-col items-center justify-center p-6 text-center">
+                      <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center mb-4">
+                        <UploadIcon className="w-8 h-8 text-primary" />
+                      </div>
+                      <p className="text-lg font-medium mb-2">
+                        Click to upload or drag and drop
+                      </p>
                       <p className="text-sm text-muted-foreground">
-                        {(file.size / 1024).toFixed(2)} KB
+                        PDF, DOCX or resume.json up to 10MB
                       </p>
                     </div>
-                  </div>
-                  {!uploading && (
+                    <input
+                      id="file-upload"
+                      type="file"
+                      className="hidden"
+                      accept=".pdf,.docx,.json"
+                      onChange={handleFileChange}
+                      disabled={uploading}
+                    />
+                  </label>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between p-4 rounded-lg border border-border bg-muted/30">
+                      <div className="flex items-center gap-4">
+                        <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center">
+                          <FileText className="w-6 h-6 text-primary" />
+                        </div>
+                        <div>
+                          <p className="font-medium">{file.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {(file.size / 1024).toFixed(2)} KB
+                          </p>
+                        </div>
+                      </div>
+                      {!uploading && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setFile(null);
+                            setExtractionWarnings([]);
+                          }}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+
+                    {extractionWarnings.length > 0 && (
+                      <Alert>
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertTitle>Extraction quality warning</AlertTitle>
+                        <AlertDescription>
+                          <ul className="list-disc pl-4 space-y-1">
+                            {extractionWarnings.map((warning) => (
+                              <li key={warning}>{warning}</li>
+                            ))}
+                          </ul>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    {(uploading || parsing) && (
+                      <div className="space-y-2">
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">
+                            {parsing ? "Parsing resume with AI..." : "Uploading..."}
+                          </span>
+                          <span className="font-medium">{progress}%</span>
+                        </div>
+                        <Progress value={progress} />
+                      </div>
+                    )}
+
                     <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => setFile(null)}
+                      onClick={handleUpload}
+                      disabled={uploading}
+                      className="w-full"
+                      size="lg"
                     >
-                      <X className="w-4 h-4" />
+                      {uploading ? (
+                        <>
+                          <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                          {parsing ? "Parsing..." : "Uploading..."}
+                        </>
+                      ) : (
+                        "Upload and Parse Resume"
+                      )}
                     </Button>
-                  )}
-                </div>
-
-                {(uploading || parsing) && (
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">
-                        {parsing ? "Parsing resume with AI..." : "Uploading..."}
-                      </span>
-                      <span className="font-medium">{progress}%</span>
-                    </div>
-                    <Progress value={progress} />
                   </div>
                 )}
-
-                <Button
-                  onClick={handleUpload}
-                  disabled={uploading}
-                  className="w-full"
-                  size="lg"
-                >
-                  {uploading ? (
-                    <>
-                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                      {parsing ? "Parsing..." : "Uploading..."}
-                    </>
-                  ) : (
-                    "Upload and Parse Resume"
-                  )}
-                </Button>
-              </div>
-            )}
-          </CardContent>
-        </Card>
-
-        {/* Info Card */}
-        <Card className="bg-primary/5 border-primary/20">
-          <CardHeader>
-            <CardTitle className="text-lg">What happens next?</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <ol className="space-y-3 text-sm">
-              <li className="flex gap-3">
-                <span className="flex-shrink-0 w-6 h-6 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-xs font-bold">
-                  1
-                </span>
-                <span>
-                  Your resume is securely uploaded to cloud storage
-                </span>
-              </li>
-              <li className="flex gap-3">
-                <span className="flex-shrink-0 w-6 h-6 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-xs font-bold">
-                  2
-                </span>
-                <span>
-                  AI extracts structured data (skills, experience, education)
-                </span>
-              </li>
-              <li className="flex gap-3">
-                <span className="flex-shrink-0 w-6 h-6 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-xs font-bold">
-                  3
-                </span>
-                <span>
-                  You'll be taken to the analysis page to compare against jobs
-                </span>
-              </li>
-            </ol>
-          </CardContent>
-        </Card>
+              </CardContent>
+            </Card>
+
+            {/* Privacy */}
+            <Card>
+              <CardContent className="pt-6">
+                <StrictRedactionSwitch />
+              </CardContent>
+            </Card>
+
+            {/* Info Card */}
+            <Card className="bg-primary/5 border-primary/20">
+              <CardHeader>
+                <CardTitle className="text-lg">What happens next?</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ol className="space-y-3 text-sm">
+                  <li className="flex gap-3">
+                    <span className="flex-shrink-0 w-6 h-6 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-xs font-bold">
+                      1
+                    </span>
+                    <span>
+                      Your resume is securely uploaded to cloud storage
+                    </span>
+                  </li>
+                  <li className="flex gap-3">
+                    <span className="flex-shrink-0 w-6 h-6 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-xs font-bold">
+                      2
+                    </span>
+                    <span>
+                      AI extracts structured data (skills, experience, education), with your contact details hidden from it
+                    </span>
+                  </li>
+                  <li className="flex gap-3">
+                    <span className="flex-shrink-0 w-6 h-6 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-xs font-bold">
+                      3
+                    </span>
+                    <span>
+                      You'll be taken to the analysis page to compare against jobs
+                    </span>
+                  </li>
+                </ol>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
       </div>
     </DashboardLayout>
   );
@@ -0,0 +1,385 @@
+/**
+ * Shared AI client for edge functions.
+ *
+ * Wraps an OpenAI-compatible chat completions provider so that every
+ * function gets the same behaviour:
+ * - Provider chosen by AI_PROVIDER (see resolveProvider)
+ * - Model chosen per function: AI_MODEL_<FUNCTION_NAME>, then AI_MODEL, then
+ *   the provider's default
+ * - A timeout per attempt (AI_TIMEOUT_MS, default 60s)
+ * - Retries with exponential backoff on 429, 5xx, timeouts and network errors,
+ *   honouring Retry-After when the gateway sends it
+ * - JSON repair for slightly malformed model output (code fences, prose
+ *   around the object, trailing commas)
+ * - One error type, AiError, that maps onto a uniform JSON error response
+ *
+ * Usage:
+ *   const ai = createAiClient('parse-resume');
+ *   const { data } = await ai.chatJson<MyShape>({ messages });
+ */
+
+import {
+  chatCompletionsUrl,
+  createMockProvider,
+  createOpenAiCompatibleProvider,
+  fixturesDirUrl,
+  ProviderConfigError,
+  type AiProvider,
+  type ChatCompletionBody,
+} from './aiProviders.ts';
+
+const GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1/chat/completions';
+
+export const DEFAULT_MODEL = 'google/gemini-2.5-flash';
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8_000;
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  /** Overrides the function's configured model for this call */
+  model?: string;
+  temperature?: number;
+  /** Ask the model for a JSON object (response_format: json_object) */
+  json?: boolean;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatResult {
+  content: string;
+  model: string;
+  attempts: number;
+  usage?: TokenUsage;
+}
+
+export interface JsonChatResult<T> extends ChatResult {
+  data: T;
+  /** True when the content was not valid JSON as returned and had to be repaired */
+  repaired: boolean;
+}
+
+export type AiErrorCode =
+  | 'AI_NOT_CONFIGURED'
+  | 'AI_RATE_LIMITED'
+  | 'AI_CREDITS_DEPLETED'
+  | 'AI_TIMEOUT'
+  | 'AI_UPSTREAM_ERROR'
+  | 'AI_INVALID_RESPONSE';
+
+// HTTP status returned to the browser for each error code
+const ERROR_STATUS: Record<AiErrorCode, number> = {
+  AI_NOT_CONFIGURED: 500,
+  AI_RATE_LIMITED: 429,
+  AI_CREDITS_DEPLETED: 402,
+  AI_TIMEOUT: 504,
+  AI_UPSTREAM_ERROR: 502,
+  AI_INVALID_RESPONSE: 502,
+};
+
+export class AiError extends Error {
+  readonly code: AiErrorCode;
+  readonly retryable: boolean;
+  readonly upstreamStatus?: number;
+  /** Seconds the client should wait before retrying, when known */
+  readonly retryAfter?: number;
+
+  constructor(
+    code: AiErrorCode,
+    message: string,
+    options: { retryable?: boolean; upstreamStatus?: number; retryAfter?: number; cause?: unknown } = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'AiError';
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.upstreamStatus = options.upstreamStatus;
+    this.retryAfter = options.retryAfter;
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+      ...(this.retryAfter !== undefined ? { retryAfter: this.retryAfter } : {}),
+    };
+  }
+}
+
+/** Builds the uniform error response for an AiError */
+export function aiErrorResponse(error: AiError, headers: Record<string, string>): Response {
+  return new Response(JSON.stringify(error), {
+    status: error.status,
+    headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' },
+  });
+}
+
+const envKey = (functionName: string) => `AI_MODEL_${functionName.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+
+/** Resolves the model for a function, e.g. AI_MODEL_PARSE_RESUME for 'parse-resume' */
+export function modelFor(functionName: string, fallback = DEFAULT_MODEL): string {
+  return Deno.env.get(envKey(functionName)) || Deno.env.get('AI_MODEL') || fallback;
+}
+
+/**
+ * Builds the provider selected by AI_PROVIDER:
+ * - lovable (default): needs LOVABLE_API_KEY
+ * - openai: needs AI_BASE_URL and AI_MODEL; AI_API_KEY is optional for local servers
+ * - mock: reads fixtures from AI_MOCK_FIXTURES_DIR (absolute, or relative to
+ *   the working directory), defaulting to _shared/fixtures/
+ */
+export function resolveProvider(functionName: string): AiProvider {
+  const name = (Deno.env.get('AI_PROVIDER') || 'lovable').toLowerCase();
+
+  if (name === 'lovable') {
+    const apiKey = Deno.env.get('LOVABLE_API_KEY');
+    if (!apiKey) {
+      throw new AiError('AI_NOT_CONFIGURED', 'LOVABLE_API_KEY is not configured');
+    }
+    return createOpenAiCompatibleProvider({ name, url: GATEWAY_URL, apiKey, defaultModel: DEFAULT_MODEL });
+  }
+
+  if (name === 'openai') {
+    const baseUrl = Deno.env.get('AI_BASE_URL');
+    if (!baseUrl) {
+      throw new AiError('AI_NOT_CONFIGURED', 'AI_BASE_URL is not configured');
+    }
+    // Local servers name models freely, so there is no sensible default
+    const defaultModel = Deno.env.get('AI_MODEL');
+    if (!defaultModel && !Deno.env.get(envKey(functionName))) {
+      throw new AiError('AI_NOT_CONFIGURED', 'AI_MODEL is not configured');
+    }
+    return createOpenAiCompatibleProvider({
+      name,
+      url: chatCompletionsUrl(baseUrl),
+      apiKey: Deno.env.get('AI_API_KEY'),
+      defaultModel: defaultModel ?? '',
+    });
+  }
+
+  if (name === 'mock') {
+    const dir = Deno.env.get('AI_MOCK_FIXTURES_DIR');
+    return createMockProvider(functionName, dir ? fixturesDirUrl(dir) : new URL('./fixtures/', import.meta.url));
+  }
+
+  throw new AiError('AI_NOT_CONFIGURED', `Unknown AI_PROVIDER "${name}"`);
+}
+
+/** Removes commas directly before a closing bracket, leaving string values untouched */
+function stripTrailingCommas(text: string): string {
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      result += char;
+      if (char === '\\') result += text[++i] ?? '';
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === ',') {
+      let next = i + 1;
+      while (/\s/.test(text[next] ?? '')) next++;
+      if (text[next] === '}' || text[next] === ']') continue;
+    }
+    result += char;
+  }
+  return result;
+}
+
+/**
+ * Parses model output as JSON, repairing the mistakes models commonly make.
+ * Throws AI_INVALID_RESPONSE when the output cannot be repaired.
+ */
+export function repairJson(text: string): { value: unknown; repaired: boolean } {
+  try {
+    return { value: JSON.parse(text), repaired: false };
+  } catch {
+    // Fall through to repair
+  }
+
+  let candidate = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  // Drop prose before and after the outermost object or array
+  const start = candidate.search(/[{[]/);
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  if (start !== -1 && end > start) candidate = candidate.slice(start, end + 1);
+
+  candidate = stripTrailingCommas(candidate);
+
+  try {
+    return { value: JSON.parse(candidate), repaired: true };
+  } catch (error) {
+    throw new AiError('AI_INVALID_RESPONSE', 'The AI returned malformed JSON. Please try again.', { cause: error });
+  }
+}
+
+/**
+ * Narrows parsed model output to a JSON object. Valid JSON can still be null,
+ * an array or a bare string, none of which has the fields functions read.
+ */
+export function requireJsonObject(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new AiError('AI_INVALID_RESPONSE', 'The AI returned an unexpected response. Please try again.');
+  }
+  return value as Record<string, unknown>;
+}
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+};
+
+/** Maps a non-OK provider response onto an AiError */
+async function errorFromResponse(response: Response, provider: AiProvider): Promise<AiError> {
+  const body = await response.text().catch(() => '');
+  const upstreamStatus = response.status;
+  console.error(`AI provider error (${provider.name}):`, upstreamStatus, body.substring(0, 500));
+
+  if (upstreamStatus === 429) {
+    return new AiError('AI_RATE_LIMITED', 'AI rate limit exceeded. Please wait a moment before trying again.', {
+      retryable: true,
+      upstreamStatus,
+      retryAfter: parseRetryAfter(response.headers.get('retry-after')) ?? 60,
+    });
+  }
+  if (upstreamStatus === 402) {
+    return new AiError(
+      'AI_CREDITS_DEPLETED',
+      provider.name === 'lovable'
+        ? 'AI credits depleted. Please add credits to your Lovable workspace to continue.'
+        : 'AI credits depleted for the configured AI provider.',
+      { upstreamStatus },
+    );
+  }
+  return new AiError('AI_UPSTREAM_ERROR', `AI provider error: ${upstreamStatus}`, {
+    retryable: upstreamStatus >= 500,
+    upstreamStatus,
+  });
+}
+
+interface GatewayResponse {
+  model?: string;
+  choices?: { message?: { content?: unknown } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+export interface AiClientOptions {
+  /** Fixed model, bypassing environment configuration */
+  model?: string;
+  /** Fixed provider, bypassing AI_PROVIDER */
+  provider?: AiProvider;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export function createAiClient(functionName: string, options: AiClientOptions = {}) {
+  let provider = options.provider;
+  const timeoutMs = options.timeoutMs ?? (Number(Deno.env.get('AI_TIMEOUT_MS')) || DEFAULT_TIMEOUT_MS);
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  const attempt = async (
+    provider: AiProvider,
+    body: ChatCompletionBody,
+    request: ChatRequest,
+  ): Promise<Omit<ChatResult, 'attempts'>> => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), request.timeoutMs ?? timeoutMs);
+
+    let response: Response;
+    try {
+      response = await provider.send(body, controller.signal);
+    } catch (error) {
+      if (error instanceof ProviderConfigError) {
+        throw new AiError('AI_NOT_CONFIGURED', error.message, { cause: error });
+      }
+      if (controller.signal.aborted) {
+        throw new AiError('AI_TIMEOUT', 'The AI service took too long to respond. Please try again.', {
+          retryable: true,
+          cause: error,
+        });
+      }
+      throw new AiError('AI_UPSTREAM_ERROR', 'Could not reach the AI service.', { retryable: true, cause: error });
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!response.ok) throw await errorFromResponse(response, provider);
+
+    const data: GatewayResponse = await response.json().catch(() => ({}));
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new AiError('AI_INVALID_RESPONSE', 'The AI returned an empty response. Please try again.', {
+        retryable: true,
+      });
+    }
+
+    return {
+      content,
+      model: data.model ?? body.model,
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens ?? 0,
+            completionTokens: data.usage.completion_tokens ?? 0,
+            totalTokens: data.usage.total_tokens ?? 0,
+          }
+        : undefined,
+    };
+  };
+
+  const chat = async (request: ChatRequest): Promise<ChatResult> => {
+    provider ??= resolveProvider(functionName);
+    const body: ChatCompletionBody = {
+      model: request.model ?? options.model ?? modelFor(functionName, provider.defaultModel),
+      messages: request.messages,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+    };
+
+    const retries = request.maxRetries ?? maxRetries;
+    for (let attempts = 1; ; attempts++) {
+      try {
+        const result = await attempt(provider, body, request);
+        return { ...result, attempts };
+      } catch (error) {
+        if (!(error instanceof AiError) || !error.retryable || attempts > retries) throw error;
+
+        // Exponential backoff with jitter; Retry-After wins when it is shorter than the cap
+        const backoff = BASE_DELAY_MS * 2 ** (attempts - 1) + Math.random() * BASE_DELAY_MS;
+        const delay = Math.min(error.retryAfter !== undefined ? error.retryAfter * 1000 : backoff, MAX_DELAY_MS);
+        console.warn(`[${functionName}] ${error.code} on attempt ${attempts}, retrying in ${Math.round(delay)}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  };
+
+  const chatJson = async <T = unknown>(request: ChatRequest): Promise<JsonChatResult<T>> => {
+    const result = await chat({ ...request, json: true });
+    const { value, repaired } = repairJson(result.content);
+    if (repaired) console.warn(`[${functionName}] Repaired malformed JSON from ${result.model}`);
+    return { ...result, data: value as T, repaired };
+  };
+
+  return { chat, chatJson };
+}
+
+export type AiClient = ReturnType<typeof createAiClient>;
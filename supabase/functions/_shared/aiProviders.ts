@@ -0,0 +1,138 @@
+/**
+ * Transports behind the shared AI client (see ai.ts).
+ *
+ * Every provider speaks the OpenAI chat completions format and returns a raw
+ * HTTP Response, so retries, error mapping and JSON repair stay in one place:
+ * - lovable: the Lovable AI gateway (default)
+ * - openai: any OpenAI-compatible endpoint, e.g. a local llama.cpp or Ollama server
+ * - mock: deterministic responses recorded in fixtures/<function-name>.json
+ */
+
+/** A provider that cannot work as configured; retrying will not help */
+export class ProviderConfigError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ProviderConfigError';
+  }
+}
+
+/**
+ * The directory AI_MOCK_FIXTURES_DIR names, as a URL. Relative paths resolve
+ * against the working directory, as they would on the command line.
+ */
+export function fixturesDirUrl(dir: string, cwd = Deno.cwd()): URL {
+  const withSlash = (path: string) => path.replace(/\/?$/, '/');
+  return new URL(withSlash(dir), `file://${withSlash(cwd)}`);
+}
+
+export interface ChatCompletionBody {
+  model: string;
+  messages: { role: string; content: string }[];
+  temperature?: number;
+  response_format?: { type: 'json_object' };
+}
+
+export interface AiProvider {
+  name: string;
+  /** Model used when neither AI_MODEL_<FUNCTION_NAME> nor AI_MODEL is set */
+  defaultModel: string;
+  send(body: ChatCompletionBody, signal: AbortSignal): Promise<Response>;
+}
+
+export function createOpenAiCompatibleProvider(options: {
+  name: string;
+  url: string;
+  apiKey?: string;
+  defaultModel: string;
+}): AiProvider {
+  return {
+    name: options.name,
+    defaultModel: options.defaultModel,
+    send: (body, signal) =>
+      fetch(options.url, {
+        method: 'POST',
+        headers: {
+          ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+        signal,
+      }),
+  };
+}
+
+/** Accepts a base URL ("http://localhost:11434/v1") or the full completions URL */
+export const chatCompletionsUrl = (baseUrl: string) => {
+  const trimmed = baseUrl.replace(/\/+$/, '');
+  return trimmed.endsWith('/chat/completions') ? trimmed : `${trimmed}/chat/completions`;
+};
+
+/**
+ * A recorded response. The first fixture whose `match` occurs in the request
+ * messages wins; a fixture without `match` is the fallback. `content` is sent
+ * as is when it is a string (useful for exercising JSON repair) and
+ * JSON-encoded otherwise.
+ */
+export interface MockFixture {
+  match?: string;
+  content: unknown;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    // Simulated errors should not make the client sit out a real backoff
+    headers: { 'Content-Type': 'application/json', 'Retry-After': '0' },
+  });
+
+/** Picks the fixture for a request; exported for fixture tooling */
+export function selectFixture(fixtures: MockFixture[], body: ChatCompletionBody): MockFixture | undefined {
+  const text = body.messages.map((message) => message.content).join('\n');
+  return (
+    fixtures.find((fixture) => fixture.match !== undefined && text.includes(fixture.match)) ??
+    fixtures.find((fixture) => fixture.match === undefined)
+  );
+}
+
+export function createMockProvider(functionName: string, fixturesDir: string | URL): AiProvider {
+  let fixtures: Promise<MockFixture[]> | undefined;
+  // A missing or broken fixture file is a setup mistake, not an outage, so it is not retried
+  const read = async (): Promise<MockFixture[]> => {
+    const file = new URL(`${functionName}.json`, fixturesDir);
+    let text: string;
+    try {
+      text = await Deno.readTextFile(file);
+    } catch (error) {
+      throw new ProviderConfigError(`Could not read mock fixtures from ${file.pathname}`, { cause: error });
+    }
+    try {
+      return JSON.parse(text) as MockFixture[];
+    } catch (error) {
+      throw new ProviderConfigError(`Mock fixtures in ${file.pathname} are not valid JSON`, { cause: error });
+    }
+  };
+  const load = () => (fixtures ??= read());
+
+  return {
+    name: 'mock',
+    defaultModel: 'mock',
+    send: async (body) => {
+      // Any message containing "[mock:429]" etc. simulates that gateway status
+      const directive = body.messages.map((message) => message.content).join('\n').match(/\[mock:(\d{3})\]/);
+      if (directive) {
+        return jsonResponse({ error: `Simulated status ${directive[1]}` }, Number(directive[1]));
+      }
+
+      const fixture = selectFixture(await load(), body);
+      if (!fixture) {
+        throw new ProviderConfigError(`No mock fixture for ${functionName} matches the request`);
+      }
+      const content = typeof fixture.content === 'string' ? fixture.content : JSON.stringify(fixture.content);
+      return jsonResponse({
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      });
+    },
+  };
+}
@@ -0,0 +1,308 @@
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+
+/**
+ * Versioned ParsedResume schema shared by the frontend and edge functions.
+ * Mirrored in src/lib/parsedResume.ts - keep both in sync.
+ *
+ * Model output is not trusted to match the schema exactly, so validation is a
+ * two-step process:
+ * 1. Repair common model mistakes (a string where an array belongs, missing
+ *    bullets, alternative key names, "N/A" placeholders, numeric years)
+ * 2. Validate the repaired object strictly with zod
+ *
+ * Output that cannot be repaired (not an object, or no resume content at all)
+ * is rejected with a structured error instead of being stored.
+ */
+
+export const PARSED_RESUME_VERSION = 1;
+
+export const experienceEntrySchema = z.object({
+  company: z.string(),
+  title: z.string(),
+  duration: z.string(),
+  location: z.string(),
+  bullets: z.array(z.string()),
+});
+
+export const educationEntrySchema = z.object({
+  institution: z.string(),
+  degree: z.string(),
+  field: z.string(),
+  year: z.string(),
+});
+
+export const projectEntrySchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  technologies: z.array(z.string()),
+});
+
+export const parsedResumeSchema = z.object({
+  version: z.literal(PARSED_RESUME_VERSION),
+  name: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  location: z.string(),
+  links: z.array(z.string()),
+  summary: z.string(),
+  skills: z.array(z.string()),
+  experience: z.array(experienceEntrySchema),
+  education: z.array(educationEntrySchema),
+  projects: z.array(projectEntrySchema),
+});
+
+export type ParsedResume = z.infer<typeof parsedResumeSchema>;
+export type ExperienceEntry = z.infer<typeof experienceEntrySchema>;
+export type EducationEntry = z.infer<typeof educationEntrySchema>;
+export type ProjectEntry = z.infer<typeof projectEntrySchema>;
+
+export interface ParsedResumeIssue {
+  path: string;
+  message: string;
+}
+
+export interface ParsedResumeError {
+  code: "INVALID_PARSED_RESUME";
+  message: string;
+  issues: ParsedResumeIssue[];
+}
+
+export type ParsedResumeResult =
+  | { success: true; data: ParsedResume; repairs: string[]; error?: undefined }
+  | { success: false; error: ParsedResumeError; data?: undefined; repairs?: undefined };
+
+type RawObject = Record<string, unknown>;
+
+const PLACEHOLDERS = /^(n\/?a|none|null|undefined|not (provided|available|specified)|-+)$/i;
+
+const isObject = (value: unknown): value is RawObject =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Returns the first present value among alternative key names.
+ */
+const pick = (obj: RawObject, keys: string[]): unknown => {
+  for (const key of keys) {
+    if (obj[key] !== undefined && obj[key] !== null) return obj[key];
+  }
+  return undefined;
+};
+
+export function emptyParsedResume(): ParsedResume {
+  return {
+    version: PARSED_RESUME_VERSION,
+    name: "",
+    email: "",
+    phone: "",
+    location: "",
+    links: [],
+    summary: "",
+    skills: [],
+    experience: [],
+    education: [],
+    projects: [],
+  };
+}
+
+/**
+ * Repairs model output into the shape expected by parsedResumeSchema.
+ * Every non-trivial repair is recorded in `repairs` for logging.
+ */
+function repairParsedResume(raw: RawObject, repairs: string[]): RawObject {
+  const toText = (value: unknown, path: string): string => {
+    if (value === undefined || value === null) return "";
+    if (typeof value === "string") {
+      const trimmed = value.trim();
+      return PLACEHOLDERS.test(trimmed) ? "" : trimmed;
+    }
+    if (typeof value === "number" || typeof value === "boolean") {
+      repairs.push(`${path}: converted ${typeof value} to string`);
+      return String(value);
+    }
+    if (Array.isArray(value)) {
+      repairs.push(`${path}: joined array into string`);
+      return value.map((item) => toText(item, path)).filter(Boolean).join(" ");
+    }
+    if (isObject(value)) {
+      const nested = pick(value, ["name", "text", "value", "title"]);
+      if (nested !== undefined) {
+        repairs.push(`${path}: unwrapped object into string`);
+        return toText(nested, path);
+      }
+    }
+    repairs.push(`${path}: dropped unsupported value`);
+    return "";
+  };
+
+  const toList = (value: unknown, path: string, separators: RegExp): string[] => {
+    if (value === undefined || value === null) return [];
+    if (typeof value === "string") {
+      const items = value
+        .split(separators)
+        .map((item) => item.replace(/^[\s•*\-–]+/, "").trim())
+        .filter((item) => item && !PLACEHOLDERS.test(item));
+      if (items.length > 0) repairs.push(`${path}: split string into list`);
+      return items;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, i) => toText(item, `${path}[${i}]`)).filter(Boolean);
+    }
+    const text = toText(value, path);
+    return text ? [text] : [];
+  };
+
+  const toEntries = (value: unknown, path: string): RawObject[] => {
+    if (value === undefined || value === null) return [];
+    if (isObject(value)) {
+      repairs.push(`${path}: wrapped single entry in array`);
+      return [value];
+    }
+    if (Array.isArray(value)) {
+      return value.filter((entry, i) => {
+        if (isObject(entry)) return true;
+        repairs.push(`${path}[${i}]: dropped non-object entry`);
+        return false;
+      });
+    }
+    repairs.push(`${path}: dropped non-list value`);
+    return [];
+  };
+
+  const LIST_SEPARATORS = /\s*(?:[,;|\n]|\s•\s)\s*/;
+
+  // Models often group skills by category, e.g. { "Languages": ["Go"], "Tools": "Docker, Git" }
+  const toSkills = (value: unknown): string[] => {
+    if (!isObject(value) || pick(value, ["name", "text", "value", "title"]) !== undefined) {
+      return toList(value, "skills", LIST_SEPARATORS);
+    }
+    repairs.push("skills: flattened skills grouped by category");
+    return Object.entries(value).flatMap(([category, items]) => toList(items, `skills.${category}`, LIST_SEPARATORS));
+  };
+  const BULLET_SEPARATORS = /\n|(?:^|\s)[•▪●]\s/;
+
+  const experience = toEntries(pick(raw, ["experience", "workExperience", "work", "employment"]), "experience").map(
+    (entry, i) => {
+      const path = `experience[${i}]`;
+      const bullets = pick(entry, ["bullets", "responsibilities", "highlights", "achievements", "description"]);
+      if (bullets === undefined) repairs.push(`${path}.bullets: missing, defaulted to []`);
+      return {
+        company: toText(pick(entry, ["company", "employer", "organization"]), `${path}.company`),
+        title: toText(pick(entry, ["title", "position", "role", "jobTitle"]), `${path}.title`),
+        duration: toText(pick(entry, ["duration", "dates", "period", "dateRange"]), `${path}.duration`),
+        location: toText(entry.location, `${path}.location`),
+        bullets: toList(bullets, `${path}.bullets`, BULLET_SEPARATORS),
+      };
+    },
+  );
+
+  const education = toEntries(pick(raw, ["education"]), "education").map((entry, i) => {
+    const path = `education[${i}]`;
+    return {
+      institution: toText(pick(entry, ["institution", "school", "university", "college"]), `${path}.institution`),
+      degree: toText(pick(entry, ["degree", "studyType"]), `${path}.degree`),
+      field: toText(pick(entry, ["field", "major", "fieldOfStudy", "area"]), `${path}.field`),
+      year: toText(pick(entry, ["year", "graduationYear", "date", "endDate"]), `${path}.year`),
+    };
+  });
+
+  const projects = toEntries(pick(raw, ["projects"]), "projects").map((entry, i) => {
+    const path = `projects[${i}]`;
+    return {
+      name: toText(pick(entry, ["name", "title"]), `${path}.name`),
+      description: toText(pick(entry, ["description", "summary"]), `${path}.description`),
+      technologies: toList(pick(entry, ["technologies", "tech", "stack", "keywords"]), `${path}.technologies`, LIST_SEPARATORS),
+    };
+  });
+
+  if (raw.version !== undefined && raw.version !== PARSED_RESUME_VERSION) {
+    repairs.push(`version: migrated from ${String(raw.version)} to ${PARSED_RESUME_VERSION}`);
+  }
+
+  return {
+    version: PARSED_RESUME_VERSION,
+    name: toText(pick(raw, ["name", "fullName"]), "name"),
+    email: toText(raw.email, "email"),
+    phone: toText(raw.phone, "phone"),
+    location: toText(raw.location, "location"),
+    links: toList(pick(raw, ["links", "urls", "profiles"]), "links", LIST_SEPARATORS),
+    summary: toText(pick(raw, ["summary", "professionalSummary", "objective", "profile"]), "summary"),
+    skills: [...new Set(toSkills(raw.skills))],
+    experience: experience.filter((entry) => entry.company || entry.title || entry.bullets.length > 0),
+    education: education.filter((entry) => entry.institution || entry.degree),
+    projects: projects.filter((entry) => entry.name || entry.description),
+  };
+}
+
+const hasContent = (resume: ParsedResume) =>
+  !!(resume.name || resume.summary) ||
+  resume.skills.length > 0 ||
+  resume.experience.length > 0 ||
+  resume.education.length > 0 ||
+  resume.projects.length > 0;
+
+/**
+ * Repairs and validates raw model output (object or JSON string).
+ *
+ * @param input - The parsed model response, or its raw JSON text
+ * @returns The validated resume with a list of applied repairs, or a structured error
+ */
+export function normalizeParsedResume(input: unknown): ParsedResumeResult {
+  let raw = input;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return {
+        success: false,
+        error: { code: "INVALID_PARSED_RESUME", message: "Resume data is not valid JSON", issues: [] },
+      };
+    }
+  }
+
+  if (!isObject(raw)) {
+    return {
+      success: false,
+      error: {
+        code: "INVALID_PARSED_RESUME",
+        message: "Resume data must be a JSON object",
+        issues: [{ path: "", message: `Expected object, received ${Array.isArray(raw) ? "array" : typeof raw}` }],
+      },
+    };
+  }
+
+  const repairs: string[] = [];
+  const result = parsedResumeSchema.safeParse(repairParsedResume(raw, repairs));
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: {
+        code: "INVALID_PARSED_RESUME",
+        message: "Resume data does not match the expected structure",
+        issues: result.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message })),
+      },
+    };
+  }
+
+  if (!hasContent(result.data)) {
+    return {
+      success: false,
+      error: {
+        code: "INVALID_PARSED_RESUME",
+        message: "No resume content could be extracted",
+        issues: [{ path: "", message: "Expected at least a name, summary, skills, experience, education or projects" }],
+      },
+    };
+  }
+
+  return { success: true, data: result.data, repairs };
+}
+
+/**
+ * Lenient reader for parsed_data loaded from the database. Older rows predate
+ * the schema, so this never throws and falls back to an empty resume.
+ */
+export function toParsedResume(value: unknown): ParsedResume {
+  const result = normalizeParsedResume(value);
+  return result.success ? result.data : emptyParsedResume();
+}
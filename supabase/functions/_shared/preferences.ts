@@ -0,0 +1,111 @@
+/**
+ * Analysis defaults from the user's profile, sent along with each analysis.
+ * The value lists are mirrored in src/lib/profile.ts - keep both in sync.
+ *
+ * Unknown or missing values fall back to the defaults, and the defaults add
+ * nothing to the prompt, so requests without preferences behave as before.
+ */
+
+export const SENIORITY_LEVELS = ['entry', 'mid', 'senior', 'lead', 'executive'] as const;
+export const AI_STRICTNESS_LEVELS = ['lenient', 'balanced', 'strict'] as const;
+
+export type Seniority = (typeof SENIORITY_LEVELS)[number];
+export type AiStrictness = (typeof AI_STRICTNESS_LEVELS)[number];
+
+export interface AnalysisPreferences {
+  targetRole: string | null;
+  seniority: Seniority | null;
+  /** BCP 47 tag such as "en-GB" */
+  locale: string;
+  strictness: AiStrictness;
+}
+
+export const DEFAULT_ANALYSIS_PREFERENCES: AnalysisPreferences = {
+  targetRole: null,
+  seniority: null,
+  locale: 'en-US',
+  strictness: 'balanced',
+};
+
+const SENIORITY_DESCRIPTIONS: Record<Seniority, string> = {
+  entry: 'entry-level',
+  mid: 'mid-level',
+  senior: 'senior',
+  lead: 'lead or principal',
+  executive: 'executive',
+};
+
+const MAX_TARGET_ROLE_LENGTH = 100;
+
+const oneOf = <T extends string>(values: readonly T[], value: unknown): T | null =>
+  values.includes(value as T) ? (value as T) : null;
+
+const isLocale = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    return Intl.getCanonicalLocales(value).length === 1;
+  } catch {
+    return false;
+  }
+};
+
+/** Reads preferences from a request body, ignoring anything unexpected */
+export function normalizePreferences(value: unknown): AnalysisPreferences {
+  if (!value || typeof value !== 'object') return DEFAULT_ANALYSIS_PREFERENCES;
+  const input = value as Record<string, unknown>;
+
+  const targetRole = typeof input.targetRole === 'string'
+    ? input.targetRole.replace(/\s+/g, ' ').trim().slice(0, MAX_TARGET_ROLE_LENGTH)
+    : '';
+
+  return {
+    targetRole: targetRole || null,
+    seniority: oneOf(SENIORITY_LEVELS, input.seniority),
+    locale: isLocale(input.locale) ? Intl.getCanonicalLocales(input.locale)[0] : DEFAULT_ANALYSIS_PREFERENCES.locale,
+    strictness: oneOf(AI_STRICTNESS_LEVELS, input.strictness) ?? DEFAULT_ANALYSIS_PREFERENCES.strictness,
+  };
+}
+
+const STRICTNESS_INSTRUCTIONS: Record<'analysis' | 'improvements', Record<AiStrictness, string>> = {
+  analysis: {
+    lenient:
+      'Score generously: give credit for transferable and adjacent skills, and for experience that clearly implies a skill even when it is not named.',
+    balanced: '',
+    strict:
+      'Score conservatively: only count a requirement as met when the resume states it explicitly, and list anything not clearly evidenced as missing.',
+  },
+  improvements: {
+    lenient: 'You may suggest bolder rewrites and skills the candidate could reasonably claim from their experience.',
+    balanced: '',
+    strict:
+      'Do not add skills, tools, numbers or achievements the resume does not already support; only rephrase and reorder what is there.',
+  },
+};
+
+/**
+ * Extra system prompt instructions for the given preferences, ending in a
+ * blank line so the next section can follow directly. The default
+ * preferences return an empty string.
+ */
+export function preferencesPrompt(preferences: AnalysisPreferences, task: 'analysis' | 'improvements'): string {
+  const lines: string[] = [];
+
+  if (preferences.targetRole || preferences.seniority) {
+    const level = preferences.seniority ? `${SENIORITY_DESCRIPTIONS[preferences.seniority]} ` : '';
+    const role = preferences.targetRole ? `${preferences.targetRole} roles` : 'roles';
+    lines.push(
+      `The candidate is aiming for ${level}${role}. Judge scope, ownership and impact against what that level requires.`,
+    );
+  }
+
+  const strictness = STRICTNESS_INSTRUCTIONS[task][preferences.strictness];
+  if (strictness) lines.push(strictness);
+
+  if (preferences.locale !== DEFAULT_ANALYSIS_PREFERENCES.locale) {
+    lines.push(
+      `Write all free text in the language and spelling conventions of the "${preferences.locale}" locale. Keep JSON keys and skill names as they are.`,
+    );
+  }
+
+  return lines.length > 0 ? `${lines.join('\n')}\n\n` : '';
+}
@@ -0,0 +1,45 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createRedactor, type Redactor, type RedactorOptions } from './redact.ts';
+
+/**
+ * Reads the caller's strict redaction setting from their profile, using their
+ * own JWT so RLS applies. If the setting cannot be read, strict mode is used:
+ * hiding a little too much is safer than sending what the user asked to hide.
+ */
+export async function isStrictRedaction(req: Request): Promise<boolean> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+  const authorization = req.headers.get('Authorization');
+  if (!supabaseUrl || !anonKey || !authorization) return true;
+
+  try {
+    const client = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authorization } },
+      auth: { persistSession: false },
+    });
+
+    const { data: { user }, error: userError } = await client.auth.getUser();
+    if (userError || !user) throw userError ?? new Error('No user for this request');
+
+    const { data, error } = await client
+      .from('profiles')
+      .select('strict_redaction')
+      .eq('id', user.id)
+      .maybeSingle();
+    if (error) throw error;
+
+    return data?.strict_redaction ?? false;
+  } catch (error) {
+    console.error('Could not read redaction setting, using strict mode:', error);
+    return true;
+  }
+}
+
+/** A redactor configured with the caller's setting */
+export async function createRequestRedactor(
+  req: Request,
+  options: Omit<RedactorOptions, 'strict'> = {},
+): Promise<Redactor> {
+  const strict = await isStrictRedaction(req);
+  return createRedactor({ ...options, strict });
+}
@@ -0,0 +1,280 @@
+/**
+ * PII redaction for text and resume data sent to the AI gateway.
+ *
+ * Contact details, street addresses, dates of birth and national IDs are
+ * swapped for stable placeholders such as [EMAIL_1] before any model call,
+ * and restore() puts the original values back into the model's response.
+ * The same value always gets the same placeholder within one redactor, so
+ * the model can still tell that two mentions refer to the same thing.
+ *
+ * Strict mode (profiles.strict_redaction) also hides links, postal codes,
+ * long digit runs and any names passed in knownNames.
+ *
+ * Usage:
+ *   const redactor = createRedactor({ strict });
+ *   const prompt = redactor.redactText(resumeText);
+ *   const { data } = await ai.chatJson({ messages: [...] });
+ *   const restored = redactor.restore(data);
+ */
+
+export type PiiKind =
+  | 'EMAIL'
+  | 'PHONE'
+  | 'ADDRESS'
+  | 'DOB'
+  | 'NATIONAL_ID'
+  | 'URL'
+  | 'POSTAL_CODE'
+  | 'ID'
+  | 'NAME';
+
+export interface RedactorOptions {
+  strict?: boolean;
+  /** Literal names to hide in strict mode, e.g. the candidate's parsed name */
+  knownNames?: string[];
+}
+
+export interface Redactor {
+  redactText(text: string): string;
+  /** Redacts every string inside a JSON-like value */
+  redactValue<T>(value: T): T;
+  /** Replaces placeholders in every string inside a JSON-like value */
+  restore<T>(value: T): T;
+  /** Number of distinct values redacted per kind */
+  counts(): Partial<Record<PiiKind, number>>;
+}
+
+/** Appended to system prompts so the model keeps placeholders intact */
+export const PLACEHOLDER_INSTRUCTIONS =
+  'Personal details in the input are replaced with placeholders such as [EMAIL_1], [PHONE_1] or [ADDRESS_1]. ' +
+  'Copy placeholders exactly as written wherever the original value belongs, and never guess or invent what they stand for.';
+
+const PLACEHOLDER = /\[([A-Z_]+)_(\d+)\]/gi;
+
+// Sanitized text carries line breaks as literal \u000a escapes; matches never span one
+const ESCAPE_SEQUENCE = /(\\u[0-9a-fA-F]{4}|\\\\)/;
+
+// Horizontal whitespace only, so patterns stay on one line of raw text
+const SP = '[^\\S\\r\\n]';
+
+const DATE =
+  `(?:\\d{1,2}[./-]\\d{1,2}[./-]\\d{2,4}` +
+  `|\\d{4}[./-]\\d{1,2}[./-]\\d{1,2}` +
+  `|\\d{1,2}\\.?${SP}+[A-Za-zÀ-ÿ]{3,}\\.?${SP}+\\d{4}` +
+  `|[A-Za-zÀ-ÿ]{3,}\\.?${SP}+\\d{1,2}(?:st|nd|rd|th)?,?${SP}+\\d{4})`;
+
+const DOB_LABEL =
+  '(?:date of birth|birth ?date|birthday|d\\.?o\\.?b\\.?|born(?: on)?|geburtsdatum|geboren(?: am)?|geb\\.' +
+  '|date de naissance|née? le|fecha de nacimiento|data di nascita|data de nascimento|nascid[oa] em|geboortedatum)';
+
+const ID_LABEL =
+  '(?:social security(?: number| no\\.?)?|ssn|national (?:id|insurance)(?: number| no\\.?)?|ni number|nino' +
+  '|passport(?: number| no\\.?)?|id(?: card)? (?:number|no\\.?)|personalausweis(?:nummer)?|steuer-?id|steuernummer' +
+  '|sozialversicherungsnummer|bsn|burgerservicenummer|tax (?:id|file number)|tfn|sin|nir|dni|nie|cpf|aadhaar|pan|codice fiscale)';
+
+const STREET_SUFFIXES =
+  'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Close|Crescent|Parkway|Pkwy|Square|Sq|Highway|Hwy';
+
+// Capitalized words and the particles street names use in Romance languages
+const STREET_NAME = `(?:[A-ZÀ-Ý][\\p{L}'.-]*|de|del|della|di|do|da|dos|das|la|las|los)`;
+
+interface Rule {
+  kind: PiiKind;
+  pattern: RegExp;
+  strictOnly?: boolean;
+  /** Index of the capture group holding the value when the match includes a label */
+  group?: number;
+  /** Extra check for patterns that also match harmless numbers */
+  accept?: (value: string) => boolean;
+  /** Normalizes a value so different spellings share a placeholder */
+  normalize?: (value: string) => string;
+}
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+const isPhoneNumber = (value: string) => {
+  const digits = digitsOf(value);
+  const international = /^(?:\+|00)/.test(value.trim());
+  if (digits.length > 15 || digits.length < (international ? 8 : 9)) return false;
+  // Year ranges (2018-2020 2021), thousands (120.000.000) and ZIP+4 codes are not phone numbers
+  const groups = value.split(/[^\d]+/).filter(Boolean);
+  if (groups.every((group) => /^(?:19|20)\d{2}$/.test(group))) return false;
+  if (/^\d{1,3}(?:\.\d{3})+$/.test(value.trim())) return false;
+  if (/^\d{5}-\d{4}$/.test(value.trim())) return false;
+  return true;
+};
+
+// Order matters: specific formats run before the looser phone and digit patterns
+const RULES: Rule[] = [
+  {
+    kind: 'EMAIL',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+    normalize: (value) => value.toLowerCase(),
+  },
+  {
+    kind: 'URL',
+    pattern: /\b(?:https?:\/\/|www\.)[^\s"'<>()]+|\b(?:linkedin\.com|github\.com|gitlab\.com|behance\.net|dribbble\.com)\/[^\s"'<>()]+/gi,
+    strictOnly: true,
+  },
+  // Labelled IDs first, so the label decides even when the format is ambiguous
+  {
+    kind: 'NATIONAL_ID',
+    pattern: new RegExp(
+      `\\b${ID_LABEL}(?![A-Za-z])\\.?${SP}*[#:-]?${SP}*((?:[A-Z]{1,3}[ .\\-/]?)?\\d[A-Z0-9]*(?:[ .\\-/](?:\\d[A-Z0-9]*|[A-Z]\\b))*)`,
+      'gi',
+    ),
+    group: 1,
+    // Mostly digits, so a label word followed by prose ("PAN-European 2020") is left alone
+    accept: (value) => {
+      const digits = digitsOf(value).length;
+      return digits >= 4 && digits / value.replace(/[^A-Za-z0-9]/g, '').length >= 0.4;
+    },
+  },
+  // US SSN
+  { kind: 'NATIONAL_ID', pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+  // UK National Insurance number
+  { kind: 'NATIONAL_ID', pattern: /\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g },
+  // Canadian SIN
+  { kind: 'NATIONAL_ID', pattern: /(?<!(?:\+|\b00)\d{1,3}[ -]?)\b\d{3}[ -]\d{3}[ -]\d{3}\b/g },
+  // Brazilian CPF
+  { kind: 'NATIONAL_ID', pattern: /\b\d{3}\.\d{3}\.\d{3}-\d{2}\b/g },
+  // Indian Aadhaar (grouped) and PAN
+  { kind: 'NATIONAL_ID', pattern: /\b[2-9]\d{3} \d{4} \d{4}\b/g },
+  { kind: 'NATIONAL_ID', pattern: /\b[A-Z]{3}[ABCFGHLJPT][A-Z]\d{4}[A-Z]\b/g },
+  // Spanish DNI and NIE
+  { kind: 'NATIONAL_ID', pattern: /\b(?:\d{8}|[XYZ]-?\d{7})-?[TRWAGMYFPDXBNJZSQVHLCKE]\b/g },
+  // French NIR (social security number)
+  { kind: 'NATIONAL_ID', pattern: /\b[12] ?\d{2} ?(?:0[1-9]|1[0-2]) ?(?:\d{2}|2[AB]) ?\d{3} ?\d{3}(?: ?\d{2})?\b/g },
+  // Italian codice fiscale
+  { kind: 'NATIONAL_ID', pattern: /\b[A-Z]{6}\d{2}[A-EHLMPR-T]\d{2}[A-Z]\d{3}[A-Z]\b/g },
+  // Chinese resident identity card
+  { kind: 'NATIONAL_ID', pattern: /\b[1-9]\d{16}[\dX]\b/g },
+  {
+    kind: 'DOB',
+    pattern: new RegExp(`\\b${DOB_LABEL}${SP}*:?${SP}*(${DATE})`, 'gi'),
+    group: 1,
+  },
+  {
+    kind: 'PHONE',
+    pattern: new RegExp(
+      `(?:(?:\\+|\\b00)\\d{1,3}${SP}?)?(?:\\(\\d{1,5}\\)${SP}?)?\\b\\d{1,5}(?:(?:${SP}|[.\\-/]|${SP}[.\\-/]${SP})\\(?\\d{2,8}\\)?){1,5}\\b`,
+      'g',
+    ),
+    accept: isPhoneNumber,
+    normalize: digitsOf,
+  },
+  // English-style: 221B Baker Street, 1600 Pennsylvania Ave NW, Apt 4
+  {
+    kind: 'ADDRESS',
+    pattern: new RegExp(
+      `\\b\\d{1,5}[A-Za-z]?${SP}+(?:[A-Z][A-Za-z.'-]*${SP}+){1,4}(?:${STREET_SUFFIXES})\\b\\.?` +
+        `(?:${SP}+(?:N|S|E|W|NE|NW|SE|SW)\\b)?(?:,?${SP}*(?:Apt|Apartment|Suite|Ste|Unit|Flat|#)\\.?${SP}*[A-Za-z0-9-]+)?`,
+      'g',
+    ),
+  },
+  // Germanic: Hauptstraße 12a, Keizersgracht 123, Drottninggatan 5
+  {
+    kind: 'ADDRESS',
+    pattern: new RegExp(
+      `\\b[A-ZÄÖÜÅØÆ][A-Za-zäöüßåøæé-]*(?:straße|strasse|str\\.|weg|gasse|platz|allee|ring|damm|laan|straat|gracht|plein|gatan|vägen|vej|veien|gade)${SP}+\\d{1,4}${SP}?[a-z]?\\b`,
+      'g',
+    ),
+  },
+  // French: 12 bis rue de la Paix
+  {
+    kind: 'ADDRESS',
+    pattern: new RegExp(
+      `\\b\\d{1,4}(?:${SP}?(?:bis|ter))?,?${SP}+(?:rue|avenue|av\\.|boulevard|bd|place|chemin|allée|impasse|quai)${SP}+[^\\n,;\\\\]{2,40}?(?=,|;|$|\\\\|${SP}{2}|${SP}\\d{5}\\b)`,
+      'gi',
+    ),
+  },
+  // Southern European: Calle Mayor 5, Via della Spiga 10, Rua Augusta, 27
+  {
+    kind: 'ADDRESS',
+    pattern: new RegExp(
+      `(?<!\\p{L})(?:Calle|C\\/|Avenida|Avda\\.|Paseo|Plaza|Via|Viale|Piazza|Corso|Rua|Praça|Travessa)` +
+        `(?:${SP}+${STREET_NAME}){1,5},?${SP}*\\d{1,4}[A-Za-z]?(?![\\p{L}\\p{N}])`,
+      'gu',
+    ),
+  },
+  // UK and Canadian postcodes, US ZIP codes and similar five-digit codes
+  { kind: 'POSTAL_CODE', pattern: /\b[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}\b/g, strictOnly: true },
+  { kind: 'POSTAL_CODE', pattern: /\b[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d\b/g, strictOnly: true },
+  { kind: 'POSTAL_CODE', pattern: /\b\d{5}(?:-\d{4})?\b/g, strictOnly: true },
+  { kind: 'ID', pattern: /\b\d{8,}\b/g, strictOnly: true },
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function createRedactor(options: RedactorOptions = {}): Redactor {
+  const placeholders = new Map<string, string>();
+  const originals = new Map<string, string>();
+  const counters: Partial<Record<PiiKind, number>> = {};
+
+  const rules = RULES.filter((rule) => options.strict || !rule.strictOnly);
+  if (options.strict) {
+    // Longest first so "Jane Doe" wins over a separately listed "Jane"
+    const names = (options.knownNames ?? [])
+      .map((name) => name.trim())
+      .filter((name) => name.length >= 2)
+      .sort((a, b) => b.length - a.length);
+    if (names.length > 0) {
+      rules.push({
+        kind: 'NAME',
+        pattern: new RegExp(`(?<![\\p{L}\\p{N}])(?:${names.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu'),
+        normalize: (value) => value.toLowerCase(),
+      });
+    }
+  }
+
+  const placeholderFor = (kind: PiiKind, value: string, normalize?: (value: string) => string) => {
+    const key = `${kind}:${normalize ? normalize(value) : value}`;
+    const existing = placeholders.get(key);
+    if (existing) return existing;
+
+    counters[kind] = (counters[kind] ?? 0) + 1;
+    const placeholder = `[${kind}_${counters[kind]}]`;
+    placeholders.set(key, placeholder);
+    originals.set(placeholder, value);
+    return placeholder;
+  };
+
+  const redactSegment = (segment: string) =>
+    rules.reduce(
+      (text, rule) =>
+        text.replace(rule.pattern, (match: string, ...groups: unknown[]) => {
+          const value = rule.group === undefined ? match : (groups[rule.group - 1] as string | undefined);
+          if (!value || (rule.accept && !rule.accept(value))) return match;
+          const placeholder = placeholderFor(rule.kind, value, rule.normalize);
+          return rule.group === undefined ? placeholder : match.replace(value, placeholder);
+        }),
+      segment,
+    );
+
+  const redactText = (text: string) => {
+    if (typeof text !== 'string' || !text) return text;
+    return text
+      .split(ESCAPE_SEQUENCE)
+      .map((segment, index) => (index % 2 === 1 ? segment : redactSegment(segment)))
+      .join('');
+  };
+
+  const restoreText = (text: string) =>
+    text.replace(PLACEHOLDER, (match) => originals.get(match.toUpperCase()) ?? match);
+
+  const mapStrings = (value: unknown, fn: (text: string) => string): unknown => {
+    if (typeof value === 'string') return fn(value);
+    if (Array.isArray(value)) return value.map((item) => mapStrings(item, fn));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)]));
+    }
+    return value;
+  };
+
+  return {
+    redactText,
+    redactValue: <T>(value: T) => mapStrings(value, redactText) as T,
+    restore: <T>(value: T) => (originals.size === 0 ? value : (mapStrings(value, restoreText) as T)),
+    counts: () => ({ ...counters }),
+  };
+}
@@ -1,6 +1,13 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { sanitizeForJson, sanitizeObjectForJson } from "../_shared/sanitize.ts";
+import { normalizeParsedResume } from "../_shared/parsedResume.ts";
+import { AiError, aiErrorResponse, createAiClient, requireJsonObject } from "../_shared/ai.ts";
+import { scoreResume } from "../_shared/atsScore.ts";
+import { canonicalizeSkills, skillKey } from "../_shared/skillTaxonomy.ts";
+import { PLACEHOLDER_INSTRUCTIONS } from "../_shared/redact.ts";
+import { createRequestRedactor } from "../_shared/privacy.ts";
+import { normalizePreferences, preferencesPrompt } from "../_shared/preferences.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,86 +21,87 @@ serve(async (req) => {
   }
 
   try {
-    const { parsedResume, jobTitle, jobDescription } = await req.json();
+    const { parsedResume, jobTitle, jobDescription, preferences } = await req.json();
     console.log('Analyzing job fit for:', jobTitle?.substring(0, 50) || 'Unknown');
     
+    // VALIDATION: Only analyze resumes that match the shared ParsedResume schema
+    const resumeResult = normalizeParsedResume(parsedResume);
+    if (!resumeResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: resumeResult.error.message,
+          code: resumeResult.error.code,
+          issues: resumeResult.error.issues,
+        }),
+        { status: 400, headers: corsHeaders }
+      );
+    }
+    
     // SECURITY: Sanitize all incoming data to prevent Unicode escape sequence errors
     // This protects against malformed escapes in job descriptions and resume data
     const sanitizedJobTitle = sanitizeForJson(jobTitle);
     const sanitizedJobDescription = sanitizeForJson(jobDescription);
-    const sanitizedParsedResume = sanitizeObjectForJson(parsedResume);
-    console.log('Data sanitized, sending to AI for analysis...');
+    const sanitizedParsedResume = sanitizeObjectForJson(resumeResult.data);
+    // PREFERENCES: The user's defaults (target level, strictness, locale) steer the prompt
+    const analysisPreferences = normalizePreferences(sanitizeObjectForJson(preferences));
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
-    }
+    // PRIVACY: Contact details and IDs never reach the model; placeholders are restored below
+    const redactor = await createRequestRedactor(req, { knownNames: [sanitizedParsedResume.name] });
+    const redactedParsedResume = redactor.redactValue(sanitizedParsedResume);
+    console.log('Data sanitized, sending to AI for analysis...');
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert career advisor analyzing how well a candidate's resume matches a job posting.
+    const ai = createAiClient('analyze-job-fit');
+    const { data: redactedAnalysis } = await ai.chatJson({
+      messages: [
+        {
+          role: 'system',
+          content: `You are an expert career advisor analyzing how well a candidate's resume matches a job posting.
 
 Analyze the resume against the job requirements and return a JSON object with:
 - matchScore: Integer 0-100 indicating overall fit
 - matchedSkills: Array of skills from resume that match job requirements
 - missingSkills: Array of important skills from job that candidate lacks
 - recommendations: Detailed text with specific improvement suggestions
-- atsScore: Integer 0-100 indicating ATS optimization (keyword matching, format, etc.)
 - keywordAlignment: Text explaining how well resume keywords align with job description
 
-Be thorough, specific, and actionable in your analysis.`
-          },
-          {
-            role: 'user',
-            content: `Job Title: ${sanitizedJobTitle}
+Be thorough, specific, and actionable in your analysis.
+
+${preferencesPrompt(analysisPreferences, 'analysis')}${PLACEHOLDER_INSTRUCTIONS}`
+        },
+        {
+          role: 'user',
+          content: `Job Title: ${sanitizedJobTitle}
 
 Job Description:
 ${sanitizedJobDescription}
 
 Candidate Resume:
-${JSON.stringify(sanitizedParsedResume, null, 2)}
+${JSON.stringify(redactedParsedResume, null, 2)}
 
 Analyze the fit and provide detailed recommendations.`
-          }
-        ],
-        response_format: { type: "json_object" }
-      }),
+        }
+      ],
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI gateway error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again in a moment.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI credits depleted. Please add more credits to continue.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      throw new Error(`AI gateway error: ${response.status} ${errorText}`);
-    }
+    // VALIDATION: Only an object has the fields read below
+    const aiAnalysis = redactor.restore(requireJsonObject(redactedAnalysis));
 
-    const data = await response.json();
-    const analysis = JSON.parse(data.choices[0].message.content);
-    
-    console.log('Job fit analysis completed');
+    // SCORING: The ATS score is computed locally so the same resume and posting always score the same
+    // The client sends sanitizeForJson output, so line breaks arrive as literal \u000a escapes
+    const jobText = String(jobDescription ?? '').replace(/\\u000[ad]/gi, '\n');
+    const atsBreakdown = scoreResume(resumeResult.data, jobText);
+
+    // VALIDATION: Canonical skill names keep comparisons and dashboard aggregates consistent
+    const listOf = (value: unknown) => (Array.isArray(value) ? value : []);
+    const matchedSkills = canonicalizeSkills(listOf(aiAnalysis.matchedSkills));
+    const matchedKeys = new Set(matchedSkills.map(skillKey));
+    const missingSkills = canonicalizeSkills(listOf(aiAnalysis.missingSkills)).filter(
+      (skill) => !matchedKeys.has(skillKey(skill)),
+    );
+
+    const analysis = { ...aiAnalysis, matchedSkills, missingSkills, atsScore: atsBreakdown.score, atsBreakdown };
+
+    console.log('Job fit analysis completed, ATS score:', atsBreakdown.score);
     
     // Return properly formatted JSON with correct Content-Type
     return new Response(
@@ -102,6 +110,10 @@ Analyze the fit and provide detailed recommendations.`
     );
   } catch (error) {
     console.error('Error in analyze-job-fit function:', error);
+    // RATE LIMITING: Quota, credit and timeout errors keep their status so the UI can explain them
+    if (error instanceof AiError) {
+      return aiErrorResponse(error, corsHeaders);
+    }
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     return new Response(
       JSON.stringify({ error: errorMessage }),
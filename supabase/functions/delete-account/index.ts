@@ -0,0 +1,122 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Deletes the calling user's account: every uploaded file, every row they
+ * own and finally the auth user itself.
+ *
+ * The caller is identified from their own JWT; only then is the service role
+ * used, and only for that user's folder and rows. POST { "confirm": true }.
+ *
+ * Files go first and the auth user last, so a failure part way through
+ * leaves an account the user can still sign in to and delete again.
+ */
+
+const BUCKET = 'resumes';
+const LIST_PAGE_SIZE = 1000;
+const REMOVE_BATCH_SIZE = 100;
+
+// Children before parents, although the foreign keys cascade anyway
+const USER_TABLES = ['analyses', 'resume_versions', 'resumes', 'candidates', 'candidate_pools', 'jobs'] as const;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Content-Type': 'application/json; charset=utf-8',
+};
+
+// Storage lists one folder level at a time; folders come back without an id
+async function listFiles(client: SupabaseClient, prefix: string): Promise<string[]> {
+  const paths: string[] = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await client.storage
+      .from(BUCKET)
+      .list(prefix, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+    if (error) throw error;
+
+    for (const entry of data) {
+      const path = `${prefix}/${entry.name}`;
+      if (entry.id === null) {
+        paths.push(...(await listFiles(client, path)));
+      } else {
+        paths.push(path);
+      }
+    }
+
+    if (data.length < LIST_PAGE_SIZE) return paths;
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const authorization = req.headers.get('Authorization');
+    if (!supabaseUrl || !anonKey || !serviceRoleKey) {
+      throw new Error('Supabase environment is not configured');
+    }
+
+    // SECURITY: The user to delete comes from the caller's JWT, never from the body
+    const userClient = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: authorization ?? '' } },
+      auth: { persistSession: false },
+    });
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Not authenticated' }),
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    if (body?.confirm !== true) {
+      return new Response(
+        JSON.stringify({ error: 'Account deletion must be confirmed' }),
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    console.log('Deleting account:', user.id);
+    const admin = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+    // Every upload, resumes and candidates alike, sits under the user's folder
+    const files = await listFiles(admin, user.id);
+    for (let i = 0; i < files.length; i += REMOVE_BATCH_SIZE) {
+      const { error } = await admin.storage.from(BUCKET).remove(files.slice(i, i + REMOVE_BATCH_SIZE));
+      if (error) throw error;
+    }
+    console.log(`Removed ${files.length} files`);
+
+    const rows: Record<string, number> = {};
+    for (const table of USER_TABLES) {
+      const { count, error } = await admin.from(table).delete({ count: 'exact' }).eq('user_id', user.id);
+      if (error) throw error;
+      rows[table] = count ?? 0;
+    }
+    const { error: profileError } = await admin.from('profiles').delete().eq('id', user.id);
+    if (profileError) throw profileError;
+    console.log('Removed rows:', rows);
+
+    const { error: deleteError } = await admin.auth.admin.deleteUser(user.id);
+    if (deleteError) throw deleteError;
+    console.log('Account deleted:', user.id);
+
+    return new Response(
+      JSON.stringify({ deleted: true, files: files.length, rows }),
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error('Error in delete-account function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: corsHeaders }
+    );
+  }
+});
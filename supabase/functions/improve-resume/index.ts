@@ -1,6 +1,12 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { sanitizeForJson, sanitizeObjectForJson } from "../_shared/sanitize.ts";
+import { normalizeParsedResume } from "../_shared/parsedResume.ts";
+import { AiError, aiErrorResponse, createAiClient, requireJsonObject } from "../_shared/ai.ts";
+import { canonicalizeSkills, skillKey } from "../_shared/skillTaxonomy.ts";
+import { PLACEHOLDER_INSTRUCTIONS } from "../_shared/redact.ts";
+import { createRequestRedactor } from "../_shared/privacy.ts";
+import { normalizePreferences, preferencesPrompt } from "../_shared/preferences.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,87 +20,85 @@ serve(async (req) => {
   }
 
   try {
-    const { parsedResume, jobTitle, jobDescription } = await req.json();
+    const { parsedResume, jobTitle, jobDescription, preferences } = await req.json();
     console.log('Generating resume improvements for:', jobTitle?.substring(0, 50) || 'Unknown');
     
+    // VALIDATION: Only analyze resumes that match the shared ParsedResume schema
+    const resumeResult = normalizeParsedResume(parsedResume);
+    if (!resumeResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: resumeResult.error.message,
+          code: resumeResult.error.code,
+          issues: resumeResult.error.issues,
+        }),
+        { status: 400, headers: corsHeaders }
+      );
+    }
+    
     // SECURITY: Sanitize all incoming data to prevent Unicode escape sequence errors
     // This ensures AI receives clean, parseable input without malformed Unicode
     const sanitizedJobTitle = sanitizeForJson(jobTitle);
     const sanitizedJobDescription = sanitizeForJson(jobDescription);
-    const sanitizedParsedResume = sanitizeObjectForJson(parsedResume);
-    console.log('Data sanitized, generating improvements with AI...');
+    const sanitizedParsedResume = sanitizeObjectForJson(resumeResult.data);
+    // PREFERENCES: The user's defaults (target level, strictness, locale) steer the prompt
+    const analysisPreferences = normalizePreferences(sanitizeObjectForJson(preferences));
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
-    }
+    // PRIVACY: Contact details and IDs never reach the model; placeholders are restored below
+    const redactor = await createRequestRedactor(req, { knownNames: [sanitizedParsedResume.name] });
+    const redactedParsedResume = redactor.redactValue(sanitizedParsedResume);
+    console.log('Data sanitized, generating improvements with AI...');
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a professional resume writer specializing in ATS optimization and impactful content.
+    const ai = createAiClient('improve-resume');
+    const { data: redactedImprovements } = await ai.chatJson({
+      messages: [
+        {
+          role: 'system',
+          content: `You are a professional resume writer specializing in ATS optimization and impactful content.
 
 Improve the resume to better match the target job. Return a JSON object with:
 - improvedSummary: Enhanced professional summary (3-4 sentences, compelling, keyword-rich)
 - improvedBullets: Array of objects with {originalExperience: string, improvedBullets: string[]}
-  - Use action verbs
-  - Quantify achievements where possible
-  - Incorporate relevant keywords from job description
-  - Follow STAR method (Situation, Task, Action, Result)
+- originalExperience must be "<title> at <company>" exactly as they appear in the resume
+- improvedBullets rewrites that entry's bullets one for one, in the same order; extra bullets go at the end
+- Use action verbs
+- Quantify achievements where possible
+- Incorporate relevant keywords from job description
+- Follow STAR method (Situation, Task, Action, Result)
 - suggestedSkills: Array of skills to add based on job requirements
 - formattingTips: Array of specific formatting improvements
 
-Make improvements concrete, actionable, and ATS-friendly.`
-          },
-          {
-            role: 'user',
-            content: `Target Job: ${sanitizedJobTitle}
+Make improvements concrete, actionable, and ATS-friendly.
+
+${preferencesPrompt(analysisPreferences, 'improvements')}${PLACEHOLDER_INSTRUCTIONS}`
+        },
+        {
+          role: 'user',
+          content: `Target Job: ${sanitizedJobTitle}
 
 Job Description:
 ${sanitizedJobDescription}
 
 Current Resume:
-${JSON.stringify(sanitizedParsedResume, null, 2)}
+${JSON.stringify(redactedParsedResume, null, 2)}
 
 Provide specific improvements for this resume.`
-          }
-        ],
-        response_format: { type: "json_object" }
-      }),
+        }
+      ],
     });
+    
+    // VALIDATION: Only an object has the fields read below
+    const aiImprovements = redactor.restore(requireJsonObject(redactedImprovements));
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI gateway error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again in a moment.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI credits depleted. Please add more credits to continue.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      throw new Error(`AI gateway error: ${response.status} ${errorText}`);
-    }
+    // VALIDATION: Suggest canonical skill names, and only ones the resume does not already list
+    const existingSkills = new Set(resumeResult.data.skills.map(skillKey));
+    const improvements = {
+      ...aiImprovements,
+      suggestedSkills: canonicalizeSkills(
+        Array.isArray(aiImprovements.suggestedSkills) ? aiImprovements.suggestedSkills : [],
+      ).filter((skill) => !existingSkills.has(skillKey(skill))),
+    };
 
-    const data = await response.json();
-    const improvements = JSON.parse(data.choices[0].message.content);
-    
     console.log('Resume improvements generated');
     
     // Return properly formatted JSON with correct Content-Type
@@ -104,6 +108,10 @@ Provide specific improvements for this resume.`
     );
   } catch (error) {
     console.error('Error in improve-resume function:', error);
+    // RATE LIMITING: Quota, credit and timeout errors keep their status so the UI can explain them
+    if (error instanceof AiError) {
+      return aiErrorResponse(error, corsHeaders);
+    }
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     return new Response(
       JSON.stringify({ error: errorMessage }),
@@ -1,6 +1,11 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { sanitizeForJson } from "../_shared/sanitize.ts";
+import { normalizeParsedResume } from "../_shared/parsedResume.ts";
+import { AiError, aiErrorResponse, createAiClient } from "../_shared/ai.ts";
+import { canonicalizeResumeSkills } from "../_shared/skillTaxonomy.ts";
+import { PLACEHOLDER_INSTRUCTIONS } from "../_shared/redact.ts";
+import { createRequestRedactor } from "../_shared/privacy.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,77 +25,62 @@ serve(async (req) => {
     // SECURITY: Sanitize incoming resume text to prevent Unicode escape sequence errors
     // This handles malformed \u sequences, backslashes, and control characters
     const sanitizedResumeText = sanitizeForJson(resumeText);
-    console.log('Sanitization complete, processing with AI...');
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
-    }
+    // PRIVACY: Contact details and IDs never reach the model; placeholders are restored below
+    const redactor = await createRequestRedactor(req);
+    const redactedResumeText = redactor.redactText(sanitizedResumeText);
+    console.log('Sanitization and redaction complete, processing with AI...', redactor.counts());
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a professional resume parser. Extract structured information from resumes.
+    const ai = createAiClient('parse-resume');
+    const { data } = await ai.chatJson({
+      messages: [
+        {
+          role: 'system',
+          content: `You are a professional resume parser. Extract structured information from resumes.
             
 Return a JSON object with these fields:
 - name: Full name
 - email: Email address
 - phone: Phone number
+- location: City/region
+- links: Array of URLs (portfolio, LinkedIn, GitHub)
 - summary: Professional summary
 - skills: Array of skills (normalize to canonical forms, e.g., "JS" → "JavaScript")
-- experience: Array of work experiences, each with {company, title, duration, bullets}
+- experience: Array of work experiences, each with {company, title, duration, location, bullets}
 - education: Array of education entries with {institution, degree, field, year}
 - projects: Array of projects with {name, description, technologies}
 
-Be precise and extract all available information.`
-          },
-          {
-            role: 'user',
-            content: `Parse this resume:\n\n${sanitizedResumeText}`
-          }
-        ],
-        response_format: { type: "json_object" }
-      }),
-    });
+Be precise and extract all available information.
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI gateway error:', response.status, errorText);
-      
-      // RATE LIMITING: Provide clear user feedback for quota issues
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ 
-            error: 'AI rate limit exceeded. Please wait a moment before trying again.',
-            retryAfter: 60 // suggest 60 second wait
-          }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json; charset=utf-8' } }
-        );
-      }
-      
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ 
-            error: 'AI credits depleted. Please add credits to your Lovable workspace to continue.',
-            action: 'topup'
-          }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json; charset=utf-8' } }
-        );
-      }
+${PLACEHOLDER_INSTRUCTIONS}`
+        },
+        {
+          role: 'user',
+          content: `Parse this resume:\n\n${redactedResumeText}`
+        }
+      ],
+    });
 
-      throw new Error(`AI gateway error: ${response.status} ${errorText}`);
+    // VALIDATION: Repair common model mistakes and reject output that cannot be repaired
+    const result = normalizeParsedResume(redactor.restore(data));
+    if (!result.success) {
+      console.error('Parsed resume failed validation:', result.error.message, result.error.issues);
+      return new Response(
+        JSON.stringify({
+          error: 'The AI parser returned data that could not be read as a resume. Please try again.',
+          code: result.error.code,
+          details: result.error.message,
+          issues: result.error.issues,
+        }),
+        { status: 422, headers: corsHeaders }
+      );
     }
 
-    const data = await response.json();
-    const parsedData = JSON.parse(data.choices[0].message.content);
+    if (result.repairs.length > 0) {
+      console.log(`Repaired ${result.repairs.length} parsed fields:`, result.repairs);
+    }
+    // VALIDATION: Store canonical skill names ("React.js" and "ReactJS" become "React")
+    const parsedData = canonicalizeResumeSkills(result.data);
     
     console.log('Resume parsed successfully');
     
@@ -101,6 +91,10 @@ Be precise and extract all available information.`
     );
   } catch (error) {
     console.error('Error in parse-resume function:', error);
+    // RATE LIMITING: Quota, credit and timeout errors keep their status so the UI can explain them
+    if (error instanceof AiError) {
+      return aiErrorResponse(error, corsHeaders);
+    }
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     return new Response(
       JSON.stringify({ error: errorMessage }),
@@ -0,0 +1,137 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Purges files in the resumes bucket that no resume or candidate row points at.
+ *
+ * Runs daily from pg_cron (see the reconcile-resume-storage job) with the
+ * service role key, which it requires, since it reads every user's files.
+ * POST { "dryRun": true } to only report what would be removed.
+ *
+ * Uploads happen a moment before their row is inserted, so files younger
+ * than the grace period are never treated as orphans.
+ */
+
+const BUCKET = 'resumes';
+const LIST_PAGE_SIZE = 1000;
+const REMOVE_BATCH_SIZE = 100;
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Content-Type': 'application/json; charset=utf-8',
+};
+
+interface StoredFile {
+  path: string;
+  createdAt: string | null;
+}
+
+// Storage lists one folder level at a time; folders come back without an id
+async function listFiles(client: SupabaseClient, prefix = ''): Promise<StoredFile[]> {
+  const files: StoredFile[] = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await client.storage
+      .from(BUCKET)
+      .list(prefix, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } });
+    if (error) throw error;
+
+    for (const entry of data) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.id === null) {
+        files.push(...(await listFiles(client, path)));
+      } else {
+        files.push({ path, createdAt: entry.created_at ?? null });
+      }
+    }
+
+    if (data.length < LIST_PAGE_SIZE) return files;
+  }
+}
+
+async function referencedPaths(client: SupabaseClient, table: 'resumes' | 'candidates'): Promise<string[]> {
+  const paths: string[] = [];
+  for (let from = 0; ; from += LIST_PAGE_SIZE) {
+    const { data, error } = await client
+      .from(table)
+      .select('file_path')
+      .order('id')
+      .range(from, from + LIST_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    paths.push(...data.map((row: { file_path: string }) => row.file_path));
+    if (data.length < LIST_PAGE_SIZE) return paths;
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  // SECURITY: Only the scheduler, holding the service role key, may purge files
+  if (!supabaseUrl || !serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Forbidden' }),
+      { status: 403, headers: corsHeaders }
+    );
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const dryRun = body?.dryRun === true;
+
+    const client = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+    const files = await listFiles(client);
+    const referenced = new Set([
+      ...(await referencedPaths(client, 'resumes')),
+      ...(await referencedPaths(client, 'candidates')),
+    ]);
+
+    const cutoff = Date.now() - ORPHAN_GRACE_MS;
+    const orphans = files
+      .filter((file) => !referenced.has(file.path))
+      .filter((file) => file.createdAt !== null && new Date(file.createdAt).getTime() < cutoff)
+      .map((file) => file.path);
+
+    console.log(`Scanned ${files.length} files, ${referenced.size} referenced, ${orphans.length} orphaned`);
+
+    const removed: string[] = [];
+    if (!dryRun) {
+      for (let i = 0; i < orphans.length; i += REMOVE_BATCH_SIZE) {
+        const batch = orphans.slice(i, i + REMOVE_BATCH_SIZE);
+        const { data, error } = await client.storage.from(BUCKET).remove(batch);
+        if (error) {
+          // Keep going; whatever is left is picked up on the next run
+          console.error('Failed to remove orphaned files:', error);
+          continue;
+        }
+        for (const object of data ?? []) {
+          console.log('Removed orphaned file:', object.name);
+          removed.push(object.name);
+        }
+      }
+    } else {
+      for (const path of orphans) console.log('Would remove orphaned file:', path);
+    }
+
+    console.log(`Reconciliation ${dryRun ? 'dry run ' : ''}complete, removed ${removed.length} files`);
+
+    return new Response(
+      JSON.stringify({ scanned: files.length, orphaned: orphans, removed, dryRun }),
+      { headers: corsHeaders }
+    );
+  } catch (error) {
+    console.error('Error in reconcile-storage function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: corsHeaders }
+    );
+  }
+});
@@ -0,0 +1,94 @@
+-- Create resume_versions table: immutable history of parsed_data
+CREATE TABLE public.resume_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  resume_id UUID NOT NULL REFERENCES public.resumes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  parsed_data JSONB NOT NULL,
+  source TEXT NOT NULL DEFAULT 'edit' CHECK (source IN ('upload', 'edit', 'ai_tailored', 'restore', 'import')),
+  label TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (resume_id, version_number)
+);
+
+CREATE INDEX resume_versions_resume_id_idx ON public.resume_versions (resume_id, version_number DESC);
+
+-- Enable RLS on resume_versions
+ALTER TABLE public.resume_versions ENABLE ROW LEVEL SECURITY;
+
+-- Resume versions policies (versions are never updated, only added)
+CREATE POLICY "Users can view own resume versions"
+  ON public.resume_versions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own resume versions"
+  ON public.resume_versions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (SELECT 1 FROM public.resumes r WHERE r.id = resume_id AND r.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own resume versions"
+  ON public.resume_versions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Track the version currently reflected in resumes.parsed_data
+ALTER TABLE public.resumes
+  ADD COLUMN current_version_id UUID REFERENCES public.resume_versions(id) ON DELETE SET NULL;
+
+-- Record which version an analysis was run against
+ALTER TABLE public.analyses
+  ADD COLUMN resume_version_id UUID REFERENCES public.resume_versions(id) ON DELETE SET NULL;
+
+-- Assign the next version number per resume
+CREATE OR REPLACE FUNCTION public.set_resume_version_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialize concurrent inserts for the same resume
+  PERFORM 1 FROM public.resumes WHERE id = NEW.resume_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1
+    INTO NEW.version_number
+    FROM public.resume_versions
+    WHERE resume_id = NEW.resume_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_resume_version_number
+  BEFORE INSERT ON public.resume_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_resume_version_number();
+
+-- Keep resumes.parsed_data in sync with the newest version
+CREATE OR REPLACE FUNCTION public.apply_resume_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.resumes
+    SET parsed_data = NEW.parsed_data,
+        current_version_id = NEW.id
+    WHERE id = NEW.resume_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_resume_version
+  AFTER INSERT ON public.resume_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_resume_version();
+
+-- Backfill version 1 for existing resumes
+INSERT INTO public.resume_versions (resume_id, user_id, parsed_data, source, created_at)
+SELECT id, user_id, parsed_data, 'upload', created_at
+FROM public.resumes
+WHERE parsed_data IS NOT NULL;
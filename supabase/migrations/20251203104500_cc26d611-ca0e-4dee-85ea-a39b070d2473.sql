@@ -0,0 +1,3 @@
+-- Keep improve-resume's suggested skills so they can be applied from the results view
+ALTER TABLE public.analyses
+  ADD COLUMN suggested_skills TEXT[];
@@ -0,0 +1,3 @@
+-- Explainable breakdown of the deterministic ATS score (see _shared/atsScore.ts)
+ALTER TABLE public.analyses
+  ADD COLUMN ats_breakdown JSONB;
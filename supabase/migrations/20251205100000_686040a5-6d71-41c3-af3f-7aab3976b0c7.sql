@@ -0,0 +1,53 @@
+-- Create jobs table: saved job postings that resumes are analyzed against
+CREATE TABLE public.jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  company TEXT,
+  location TEXT,
+  description TEXT NOT NULL,
+  source TEXT,
+  salary_min INTEGER CHECK (salary_min >= 0),
+  salary_max INTEGER CHECK (salary_max >= 0),
+  salary_currency TEXT NOT NULL DEFAULT 'USD',
+  status TEXT NOT NULL DEFAULT 'saved'
+    CHECK (status IN ('saved', 'applied', 'interviewing', 'offer', 'rejected', 'archived')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (salary_min IS NULL OR salary_max IS NULL OR salary_min <= salary_max)
+);
+
+CREATE INDEX jobs_user_id_idx ON public.jobs (user_id, created_at DESC);
+
+-- Enable RLS on jobs
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs policies
+CREATE POLICY "Users can view own jobs"
+  ON public.jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own jobs"
+  ON public.jobs FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own jobs"
+  ON public.jobs FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own jobs"
+  ON public.jobs FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_jobs_updated_at
+  BEFORE UPDATE ON public.jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record which saved job an analysis was run against. job_title and
+-- job_description stay as a snapshot, so editing a job does not rewrite history.
+ALTER TABLE public.analyses
+  ADD COLUMN job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX analyses_job_id_idx ON public.analyses (job_id);
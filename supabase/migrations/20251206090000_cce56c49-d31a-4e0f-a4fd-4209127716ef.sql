@@ -0,0 +1,86 @@
+-- Recruiter mode: pools of candidate resumes ranked against one job.
+-- Candidates are kept apart from resumes so a recruiter's own resumes,
+-- dashboards and analyses never mix with the people they are hiring.
+CREATE TABLE public.candidate_pools (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX candidate_pools_user_id_idx ON public.candidate_pools (user_id, created_at DESC);
+
+CREATE TABLE public.candidates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pool_id UUID NOT NULL REFERENCES public.candidate_pools(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  email TEXT,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  extracted_text TEXT,
+  parsed_data JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX candidates_pool_id_idx ON public.candidates (pool_id);
+
+-- Enable RLS on candidate tables
+ALTER TABLE public.candidate_pools ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.candidates ENABLE ROW LEVEL SECURITY;
+
+-- Candidate pool policies
+CREATE POLICY "Users can view own candidate pools"
+  ON public.candidate_pools FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own candidate pools"
+  ON public.candidate_pools FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own candidate pools"
+  ON public.candidate_pools FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own candidate pools"
+  ON public.candidate_pools FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Candidate policies: a candidate can only be added to a pool the user owns
+CREATE POLICY "Users can view own candidates"
+  ON public.candidates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own candidates"
+  ON public.candidates FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.candidate_pools
+      WHERE candidate_pools.id = pool_id AND candidate_pools.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own candidates"
+  ON public.candidates FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own candidates"
+  ON public.candidates FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_candidate_pools_updated_at
+  BEFORE UPDATE ON public.candidate_pools
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_candidates_updated_at
+  BEFORE UPDATE ON public.candidates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
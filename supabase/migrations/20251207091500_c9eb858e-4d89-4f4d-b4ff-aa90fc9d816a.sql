@@ -0,0 +1,40 @@
+-- Dashboard aggregates over all of a user's analyses. security_invoker makes
+-- the views run with the caller's permissions, so the analyses RLS policies
+-- still limit every aggregate to the signed-in user's rows.
+CREATE INDEX analyses_user_id_created_at_idx ON public.analyses (user_id, created_at DESC);
+
+CREATE VIEW public.analysis_stats
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  COUNT(*)::INTEGER AS total_analyses,
+  ROUND(AVG(match_score))::INTEGER AS avg_match_score,
+  ROUND(AVG(ats_score))::INTEGER AS avg_ats_score,
+  MAX(match_score) AS best_match_score,
+  MAX(created_at) AS last_analysis_at
+FROM public.analyses
+GROUP BY user_id;
+
+-- How often each skill was reported missing, one row per user and skill
+CREATE VIEW public.missing_skill_counts
+WITH (security_invoker = true) AS
+SELECT
+  analyses.user_id,
+  skill,
+  COUNT(*)::INTEGER AS analysis_count
+FROM public.analyses
+CROSS JOIN LATERAL unnest(analyses.missing_skills) AS skill
+GROUP BY analyses.user_id, skill;
+
+-- ATS scores in buckets of ten; 100 falls into the 90 bucket
+CREATE VIEW public.ats_score_distribution
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  (LEAST(ats_score / 10, 9) * 10)::INTEGER AS bucket_start,
+  COUNT(*)::INTEGER AS analysis_count
+FROM public.analyses
+WHERE ats_score IS NOT NULL
+GROUP BY user_id, bucket_start;
+
+GRANT SELECT ON public.analysis_stats, public.missing_skill_counts, public.ats_score_distribution TO authenticated;
@@ -0,0 +1,5 @@
+-- Strict mode for PII redaction before resume data is sent to the AI gateway.
+-- When on, links, postal codes, long digit runs and the candidate's name are
+-- hidden too (see supabase/functions/_shared/redact.ts).
+ALTER TABLE public.profiles
+  ADD COLUMN strict_redaction BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,31 @@
+-- Account defaults, edited on the Settings page.
+-- preferred_template is the starting template in the export dialog; the
+-- others are sent with every analysis (see supabase/functions/_shared/preferences.ts).
+ALTER TABLE public.profiles
+  ADD COLUMN preferred_template TEXT NOT NULL DEFAULT 'classic'
+    CHECK (preferred_template IN ('classic', 'modern', 'compact')),
+  ADD COLUMN target_role TEXT,
+  ADD COLUMN seniority TEXT
+    CHECK (seniority IN ('entry', 'mid', 'senior', 'lead', 'executive')),
+  ADD COLUMN locale TEXT NOT NULL DEFAULT 'en-US',
+  ADD COLUMN ai_strictness TEXT NOT NULL DEFAULT 'balanced'
+    CHECK (ai_strictness IN ('lenient', 'balanced', 'strict'));
+
+-- Keep profiles.email in step with auth once an email change is confirmed
+CREATE OR REPLACE FUNCTION public.handle_user_email_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles SET email = NEW.email WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_email_changed
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email IS DISTINCT FROM NEW.email)
+  EXECUTE FUNCTION public.handle_user_email_change();
@@ -0,0 +1,14 @@
+-- Moving a candidate must keep it inside the user's own pools. The update
+-- policy only compared user_id, so pool_id could be set to another user's pool.
+DROP POLICY "Users can update own candidates" ON public.candidates;
+
+CREATE POLICY "Users can update own candidates"
+  ON public.candidates FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.candidate_pools
+      WHERE candidate_pools.id = pool_id AND candidate_pools.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,16 @@
+-- An analysis may only reference one of the user's own saved jobs.
+-- analyses has no update policy, so inserts are the only way to set job_id.
+DROP POLICY "Users can insert own analyses" ON public.analyses;
+
+CREATE POLICY "Users can insert own analyses"
+  ON public.analyses FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    (
+      job_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM public.jobs
+        WHERE jobs.id = job_id AND jobs.user_id = auth.uid()
+      )
+    )
+  );
@@ -0,0 +1,31 @@
+-- A candidate pool may only be ranked against one of the user's own saved jobs.
+-- The pool policies only compared user_id, so job_id could name another user's job.
+DROP POLICY "Users can insert own candidate pools" ON public.candidate_pools;
+DROP POLICY "Users can update own candidate pools" ON public.candidate_pools;
+
+CREATE POLICY "Users can insert own candidate pools"
+  ON public.candidate_pools FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    (
+      job_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM public.jobs
+        WHERE jobs.id = job_id AND jobs.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can update own candidate pools"
+  ON public.candidate_pools FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    (
+      job_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM public.jobs
+        WHERE jobs.id = job_id AND jobs.user_id = auth.uid()
+      )
+    )
+  );
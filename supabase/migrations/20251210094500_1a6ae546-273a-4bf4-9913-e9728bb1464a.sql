@@ -0,0 +1,61 @@
+-- Version references must stay within the user's own data. The policies only
+-- compared user_id, so analyses.resume_id, analyses.resume_version_id and
+-- resumes.current_version_id could name another user's rows.
+-- apply_resume_version() sets current_version_id as SECURITY DEFINER, so these
+-- checks only constrain writes made by the client.
+
+-- Analyses: the resume must be the user's, and the version (when set) one of its versions
+DROP POLICY "Users can insert own analyses" ON public.analyses;
+
+CREATE POLICY "Users can insert own analyses"
+  ON public.analyses FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.resumes
+      WHERE resumes.id = analyses.resume_id AND resumes.user_id = auth.uid()
+    ) AND
+    (
+      resume_version_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM public.resume_versions
+        WHERE resume_versions.id = analyses.resume_version_id
+          AND resume_versions.resume_id = analyses.resume_id
+          AND resume_versions.user_id = auth.uid()
+      )
+    ) AND
+    (
+      job_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM public.jobs
+        WHERE jobs.id = analyses.job_id AND jobs.user_id = auth.uid()
+      )
+    )
+  );
+
+-- Resumes: current_version_id may only point at one of the resume's own versions
+DROP POLICY "Users can insert own resumes" ON public.resumes;
+DROP POLICY "Users can update own resumes" ON public.resumes;
+
+CREATE POLICY "Users can insert own resumes"
+  ON public.resumes FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    current_version_id IS NULL
+  );
+
+CREATE POLICY "Users can update own resumes"
+  ON public.resumes FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    (
+      current_version_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM public.resume_versions
+        WHERE resume_versions.id = resumes.current_version_id
+          AND resume_versions.resume_id = resumes.id
+          AND resume_versions.user_id = auth.uid()
+      )
+    )
+  );